@@ -3,16 +3,42 @@ import { getAction, rejectUnknownAction } from '../server/routerUtils';
 
 import create from '../api_impl/assignments/create';
 import publish from '../api_impl/assignments/publish';
+import setRubric from '../api_impl/assignments/setRubric';
+import saveRubricTemplate from '../api_impl/assignments/saveRubricTemplate';
+import assignPeerReviews from '../api_impl/assignments/assignPeerReviews';
+import peerReviewStatus from '../api_impl/assignments/peerReviewStatus';
+import setGroups from '../api_impl/assignments/setGroups';
+import joinGroup from '../api_impl/assignments/joinGroup';
+import leaveGroup from '../api_impl/assignments/leaveGroup';
 import submit from '../api_impl/submissions/submit';
+import requestUpload from '../api_impl/submissions/requestUpload';
 import grade from '../api_impl/submissions/grade';
+import importGrades from '../api_impl/submissions/importGrades';
+import suggestGrade from '../api_impl/submissions/suggestGrade';
+import similarity from '../api_impl/submissions/similarity';
+import peerReviews from '../api_impl/submissions/peerReviews';
+import submitPeerReview from '../api_impl/submissions/submitPeerReview';
 
 export const config = { runtime: 'nodejs' };
 
 const actions = {
   create,
   publish,
+  setRubric,
+  saveRubricTemplate,
+  assignPeerReviews,
+  peerReviewStatus,
+  setGroups,
+  joinGroup,
+  leaveGroup,
   submit,
+  requestUpload,
   grade,
+  importGrades,
+  suggestGrade,
+  similarity,
+  peerReviews,
+  submitPeerReview,
 } as const satisfies Record<string, (req: VercelRequest, res: VercelResponse) => Promise<unknown>>;
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -6,6 +6,7 @@ import myCourses from '../api_impl/courses/myCourses';
 import setEnrollment from '../api_impl/courses/setEnrollment';
 import setVisibility from '../api_impl/courses/setVisibility';
 import postToStream from '../api_impl/courses/postToStream';
+import setAccommodation from '../api_impl/courses/setAccommodation';
 
 export const config = { runtime: 'nodejs' };
 
@@ -15,6 +16,7 @@ const actions = {
   setEnrollment,
   setVisibility,
   postToStream,
+  setAccommodation,
 } as const satisfies Record<string, (req: VercelRequest, res: VercelResponse) => Promise<unknown>>;
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -1,14 +1,30 @@
 import type { VercelRequest, VercelResponse } from '../api_impl/_lib/request';
 import { getAction, rejectUnknownAction } from '../server/routerUtils';
 
+import computeFinalGrades from '../api_impl/gradebook/computeFinalGrades';
 import course from '../api_impl/gradebook/course';
+import exportCourse from '../api_impl/gradebook/exportCourse';
+import gradeTimeline from '../api_impl/gradebook/gradeTimeline';
+import myFinalGrades from '../api_impl/gradebook/myFinalGrades';
+import recomputeCourse from '../api_impl/gradebook/recomputeCourse';
 import recomputeStudent from '../api_impl/gradebook/recomputeStudent';
+import setFinalGradeScheme from '../api_impl/gradebook/setFinalGradeScheme';
+import setGradeRelease from '../api_impl/gradebook/setGradeRelease';
+import setGradingScheme from '../api_impl/gradebook/setGradingScheme';
 
 export const config = { runtime: 'nodejs' };
 
 const actions = {
+  computeFinalGrades,
   course,
+  exportCourse,
+  gradeTimeline,
+  myFinalGrades,
+  recomputeCourse,
   recomputeStudent,
+  setFinalGradeScheme,
+  setGradeRelease,
+  setGradingScheme,
 } as const satisfies Record<string, (req: VercelRequest, res: VercelResponse) => Promise<unknown>>;
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -5,6 +5,17 @@ import create from '../api_impl/tests/create';
 import publish from '../api_impl/tests/publish';
 import startAttempt from '../api_impl/tests/startAttempt';
 import submitAttempt from '../api_impl/tests/submitAttempt';
+import update from '../api_impl/tests/update';
+import regrade from '../api_impl/tests/regrade';
+import saveProgress from '../api_impl/tests/saveProgress';
+import itemAnalysis from '../api_impl/tests/itemAnalysis';
+import importQuestions from '../api_impl/tests/importQuestions';
+import exportQuestions from '../api_impl/tests/exportQuestions';
+import finalizeExpired from '../api_impl/tests/finalizeExpired';
+import reviewAttempt from '../api_impl/tests/reviewAttempt';
+import reportIntegrity from '../api_impl/tests/reportIntegrity';
+import integritySummary from '../api_impl/tests/integritySummary';
+import generateDraft from '../api_impl/tests/generateDraft';
 
 export const config = { runtime: 'nodejs' };
 
@@ -13,6 +24,17 @@ const actions = {
   publish,
   startAttempt,
   submitAttempt,
+  update,
+  regrade,
+  saveProgress,
+  itemAnalysis,
+  importQuestions,
+  exportQuestions,
+  finalizeExpired,
+  reviewAttempt,
+  reportIntegrity,
+  integritySummary,
+  generateDraft,
 } as const satisfies Record<string, (req: VercelRequest, res: VercelResponse) => Promise<unknown>>;
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -0,0 +1,68 @@
+// Course-level, per-student accommodations: courses/{courseId}/accommodations/{studentId}.
+// Written only by courses/setAccommodation; read inside the startAttempt / submit transactions.
+
+export type Accommodation = {
+  timeMultiplier: number; // scales scheduled test durationMinutes (1 = none)
+  windowExtensionMinutes: number; // extends a scheduled test's windowEndMillis for starting
+  dueExtensionHours: number; // extends assignment dueMillis for the late calculation
+};
+
+export const ACCOMMODATION_LIMITS = {
+  maxTimeMultiplier: 4,
+  maxWindowExtensionMinutes: 7 * 24 * 60,
+  maxDueExtensionHours: 30 * 24,
+} as const;
+
+export const NO_ACCOMMODATION: Accommodation = { timeMultiplier: 1, windowExtensionMinutes: 0, dueExtensionHours: 0 };
+
+export function accommodationRef(courseRef: FirebaseFirestore.DocumentReference, studentId: string) {
+  return courseRef.collection('accommodations').doc(studentId);
+}
+
+// Tolerant read: anything missing or out of range falls back to "no accommodation" for that field.
+export function accommodationFrom(data: any): Accommodation {
+  const m = Number(data?.timeMultiplier ?? 1);
+  const w = Number(data?.windowExtensionMinutes ?? 0);
+  const d = Number(data?.dueExtensionHours ?? 0);
+  return {
+    timeMultiplier: Number.isFinite(m) && m >= 1 && m <= ACCOMMODATION_LIMITS.maxTimeMultiplier ? m : 1,
+    windowExtensionMinutes: Number.isFinite(w) && w >= 0 && w <= ACCOMMODATION_LIMITS.maxWindowExtensionMinutes ? w : 0,
+    dueExtensionHours: Number.isFinite(d) && d >= 0 && d <= ACCOMMODATION_LIMITS.maxDueExtensionHours ? d : 0,
+  };
+}
+
+// A group shares one deadline: the largest due extension any of the given students has.
+export async function readDueExtensionHoursInTx(
+  tx: FirebaseFirestore.Transaction,
+  courseRef: FirebaseFirestore.DocumentReference,
+  studentIds: string[]
+): Promise<number> {
+  const snaps = await Promise.all(studentIds.map((uid) => tx.get(accommodationRef(courseRef, uid))));
+  return Math.max(0, ...snaps.map((snap) => accommodationFrom(snap.exists ? snap.data() : null).dueExtensionHours));
+}
+
+export function hasAccommodation(a: Accommodation): boolean {
+  return a.timeMultiplier !== 1 || a.windowExtensionMinutes > 0 || a.dueExtensionHours > 0;
+}
+
+const MAX_ACCOMMODATIONS_SCAN = 1000;
+
+// Largest test accommodation anyone in the course has; used to decide when every student's
+// scheduled attempt is guaranteed to be over. Falls back to the limits if the scan is truncated.
+export async function courseTestAccommodationMaxima(courseRef: FirebaseFirestore.DocumentReference) {
+  const snap = await courseRef.collection('accommodations').limit(MAX_ACCOMMODATIONS_SCAN).get();
+  if (snap.size >= MAX_ACCOMMODATIONS_SCAN) {
+    return {
+      timeMultiplier: ACCOMMODATION_LIMITS.maxTimeMultiplier,
+      windowExtensionMinutes: ACCOMMODATION_LIMITS.maxWindowExtensionMinutes,
+    };
+  }
+  let timeMultiplier = 1;
+  let windowExtensionMinutes = 0;
+  for (const d of snap.docs) {
+    const a = accommodationFrom(d.data());
+    timeMultiplier = Math.max(timeMultiplier, a.timeMultiplier);
+    windowExtensionMinutes = Math.max(windowExtensionMinutes, a.windowExtensionMinutes);
+  }
+  return { timeMultiplier, windowExtensionMinutes };
+}
@@ -1,5 +1,9 @@
 export type AiGatewayModel = string;
 
+// Turns a system + user prompt into raw model text. Each AI feature supplies its own (backend choice,
+// temperature, token budget) to the shared prompt/parse code.
+export type AiTextProvider = (params: { system: string; prompt: string; requestId: string }) => Promise<string>;
+
 function isNonEmpty(v: unknown): v is string {
   return typeof v === 'string' && v.trim().length > 0;
 }
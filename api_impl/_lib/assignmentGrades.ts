@@ -0,0 +1,457 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { emitDomainEvent } from './domainEvents';
+import { applyLatePenalty, lateByHoursFromSubmission, latePenaltyFor, latePolicyFrom, type LatePenalty } from './latePolicy';
+import type { RubricBreakdownRow } from './rubrics';
+import { combinePeerScore, peerReviewConfigFrom, type PeerGradeInfo } from './peerReview';
+import { groupSubmissionId } from './assignmentGroups';
+import { readDueExtensionHoursInTx } from './accommodations';
+import { gradeReleaseFrom, readGradebookInTx, releaseAccounting } from './gradeRelease';
+import { gradeCategoryFor, readGradingSchemeInTx, type GradingScheme } from './gradingScheme';
+import { appendGradeHistoryInTx, gradeValueFrom, type GradeHistorySource } from './gradeHistory';
+
+// Shared by submissions/grade (one student or one group) and submissions/importGrades (CSV rows) so
+// all of them write the submission grade, the canonical grade doc and gradebook totals the same way.
+
+export type RubricGrade = { rubricRevision: number; breakdown: RubricBreakdownRow[] };
+
+export type AssignmentGradeResult = {
+  studentId: string;
+  gradeId: string;
+  pointsPossible: number;
+  before: { score: number | null; gradeRevision: number };
+  after: { score: number; rawScore: number; gradeRevision: number };
+  rubric: RubricGrade | null;
+  latePenalty: LatePenalty | null;
+  peer: PeerGradeInfo | null;
+  // Held grades are recorded but not yet visible to the student or counted in their gradebook.
+  held: boolean;
+};
+
+export function assignmentGradeId(assignmentId: string, studentId: string): string {
+  return `assignment_${assignmentId}_${studentId}`;
+}
+
+export function assignmentPointsPossible(assignment: any): number {
+  const pointsPossible = Number(assignment?.pointsPossible ?? 0);
+  if (!Number.isFinite(pointsPossible) || pointsPossible < 0) {
+    const err = new Error('Invalid assignment pointsPossible');
+    (err as any).status = 500;
+    throw err;
+  }
+  return pointsPossible;
+}
+
+type StudentGradeState = {
+  studentId: string;
+  gradeId: string;
+  gradeRef: FirebaseFirestore.DocumentReference;
+  gradebookRef: FirebaseFirestore.DocumentReference;
+  grade: any | null;
+  gradebook: any;
+};
+
+async function readStudentGradeState(
+  tx: FirebaseFirestore.Transaction,
+  courseRef: FirebaseFirestore.DocumentReference,
+  assignmentId: string,
+  studentId: string
+): Promise<StudentGradeState> {
+  const gradeId = assignmentGradeId(assignmentId, studentId);
+  const gradeRef = courseRef.collection('grades').doc(gradeId);
+  const gradebookRef = courseRef.collection('gradebook').doc(studentId);
+  const gradeSnap = await tx.get(gradeRef);
+  const gradebook = await readGradebookInTx(tx, courseRef, studentId);
+  return {
+    studentId,
+    gradeId,
+    gradeRef,
+    gradebookRef,
+    grade: gradeSnap.exists ? gradeSnap.data() : null,
+    gradebook,
+  };
+}
+
+// Canonical grade doc plus the incremental gradebook totals for one student. While grades are held,
+// heldSubmissionGrade keeps what the submission doc will show once gradebook/setGradeRelease runs.
+function writeStudentGrade(
+  tx: FirebaseFirestore.Transaction,
+  state: StudentGradeState,
+  args: {
+    assignmentId: string;
+    score: number;
+    rawScore: number;
+    latePenalty: LatePenalty | null;
+    peer: PeerGradeInfo | null;
+    pointsPossible: number;
+    sourceVersion: number;
+    gradeRevision: number;
+    actorUid: string;
+    heldSubmissionGrade: Record<string, unknown> | null;
+    category: string;
+    scheme: GradingScheme | null;
+    historySource: GradeHistorySource;
+    reason: string | null;
+    group?: { groupId: string; override: boolean };
+  }
+) {
+  const { studentId, gradeRef, gradebookRef } = state;
+  const { gradeFields, gradebookFields } = releaseAccounting({
+    gradeId: state.gradeId,
+    category: args.category,
+    scheme: args.scheme,
+    gradeBefore: state.grade,
+    gradebook: state.gradebook,
+    score: args.score,
+    pointsPossible: args.pointsPossible,
+    held: args.heldSubmissionGrade != null,
+  });
+
+  // Canonical grade record (deterministic ID)
+  tx.set(
+    gradeRef,
+    {
+      studentId,
+      sourceType: 'assignment',
+      sourceId: args.assignmentId,
+      sourceVersion: args.sourceVersion,
+      score: args.score,
+      rawScore: args.rawScore,
+      latePenalty: args.latePenalty ?? null,
+      peer: args.peer ?? null,
+      groupId: args.group?.groupId ?? FieldValue.delete(),
+      groupOverride: args.group ? args.group.override : FieldValue.delete(),
+      pointsPossible: args.pointsPossible,
+      ...gradeFields,
+      heldSubmissionGrade: args.heldSubmissionGrade ?? FieldValue.delete(),
+      gradedAt: FieldValue.serverTimestamp(),
+      gradedBy: args.actorUid,
+      gradeRevision: args.gradeRevision,
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  tx.set(
+    gradebookRef,
+    {
+      studentId,
+      ...gradebookFields,
+      computedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedAtBy: args.actorUid,
+    },
+    { merge: true }
+  );
+
+  appendGradeHistoryInTx(tx, gradeRef, {
+    studentId,
+    sourceType: 'assignment',
+    sourceId: args.assignmentId,
+    gradeRevision: args.gradeRevision,
+    source: args.historySource,
+    actorUid: args.actorUid,
+    from: gradeValueFrom(state.grade),
+    to: { score: args.score, pointsPossible: args.pointsPossible, released: gradeFields.released },
+    reason: args.reason,
+    details: {
+      rawScore: args.rawScore,
+      latePenaltyPercent: args.latePenalty?.penaltyPercent ?? 0,
+      ...(args.group ? { groupId: args.group.groupId, groupOverride: args.group.override } : {}),
+    },
+  });
+}
+
+// The submission's grade as students see it once released.
+function heldGradeCopy(args: {
+  score: number;
+  rawScore: number;
+  latePenalty: LatePenalty | null;
+  peer: PeerGradeInfo | null;
+  feedback: string | undefined;
+  rubricGrade: RubricGrade | null;
+  actorUid: string;
+}): Record<string, unknown> {
+  return {
+    score: args.score,
+    rawScore: args.rawScore,
+    latePenalty: args.latePenalty ?? null,
+    peer: args.peer ?? null,
+    feedback: args.feedback ?? null,
+    rubric: args.rubricGrade ?? null,
+    gradedAt: FieldValue.serverTimestamp(),
+    gradedBy: args.actorUid,
+  };
+}
+
+function requireSubmission(snap: FirebaseFirestore.DocumentSnapshot): any {
+  if (!snap.exists) {
+    const err = new Error('Submission not found');
+    (err as any).status = 404;
+    throw err;
+  }
+  return snap.data() as any;
+}
+
+// Call after the transaction has read (and checked) the assignment doc and the caller has validated
+// rawScore against pointsPossible; this does the remaining reads and then all writes. rawScore is the
+// instructor's score; on peer-reviewed assignments it is blended with the peer score first.
+export async function gradeSubmissionInTx(
+  tx: FirebaseFirestore.Transaction,
+  args: {
+    courseRef: FirebaseFirestore.DocumentReference;
+    assignmentRef: FirebaseFirestore.DocumentReference;
+    assignment: any;
+    studentId: string;
+    rawScore: number;
+    feedback: string | undefined;
+    rubricGrade: RubricGrade | null;
+    actorUid: string;
+    // Recorded in the grade's history entry.
+    historySource: GradeHistorySource;
+    reason: string | null;
+  }
+): Promise<AssignmentGradeResult> {
+  const { courseRef, assignmentRef, assignment, studentId, rawScore, feedback, rubricGrade, actorUid } = args;
+  const assignmentId = assignmentRef.id;
+  const pointsPossible = assignmentPointsPossible(assignment);
+
+  const submissionRef = assignmentRef.collection('submissions').doc(studentId);
+  const submission = requireSubmission(await tx.get(submissionRef));
+  const dueExtensionHours = await readDueExtensionHoursInTx(tx, courseRef, [studentId]);
+
+  // The instructor grades the work; the assignment's late policy turns that into the recorded score.
+  const { rawScore: combinedScore, peer } = combinePeerScore(peerReviewConfigFrom(assignment), rawScore, submission?.peerReview);
+  const latePenalty = latePenaltyFor(
+    latePolicyFrom(assignment),
+    lateByHoursFromSubmission(submission, assignment, dueExtensionHours)
+  );
+  const score = applyLatePenalty(combinedScore, latePenalty);
+
+  const state = await readStudentGradeState(tx, courseRef, assignmentId, studentId);
+  const scheme = await readGradingSchemeInTx(tx, courseRef);
+  const held = gradeReleaseFrom(assignment) === 'held';
+
+  // The grade doc is the source of truth; while held, the submission doc still shows the last released grade.
+  const priorScore = typeof state.grade?.score === 'number' ? state.grade.score : null;
+  const priorRevision = Number(submission?.gradeRevision ?? 0);
+  const nextRevision = Number.isFinite(priorRevision) ? priorRevision + 1 : 1;
+
+  // Update submission grade (server-authoritative)
+  tx.set(
+    submissionRef,
+    {
+      ...(held
+        ? { gradeStatus: 'held' }
+        : {
+            grade: {
+              score,
+              rawScore: combinedScore,
+              latePenalty: latePenalty ?? FieldValue.delete(),
+              peer: peer ?? FieldValue.delete(),
+              feedback,
+              // Per-criterion levels, points and comments; students read it from their own submission doc.
+              rubric: rubricGrade ?? FieldValue.delete(),
+              gradedAt: FieldValue.serverTimestamp(),
+              gradedBy: actorUid,
+            },
+            gradeStatus: 'released',
+          }),
+      gradeRevision: nextRevision,
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedAtBy: actorUid,
+    },
+    { merge: true }
+  );
+
+  writeStudentGrade(tx, state, {
+    assignmentId,
+    score,
+    rawScore: combinedScore,
+    latePenalty,
+    peer,
+    pointsPossible,
+    sourceVersion: Number(submission?.assignmentVersionAtSubmission ?? assignment?.version ?? 1),
+    gradeRevision: nextRevision,
+    actorUid,
+    heldSubmissionGrade: held
+      ? heldGradeCopy({ score, rawScore: combinedScore, latePenalty, peer, feedback, rubricGrade, actorUid })
+      : null,
+    category: gradeCategoryFor(assignment, 'assignment'),
+    scheme,
+    historySource: args.historySource,
+    reason: args.reason,
+  });
+
+  return {
+    studentId,
+    gradeId: state.gradeId,
+    pointsPossible,
+    before: { score: priorScore, gradeRevision: priorRevision },
+    after: { score, rawScore: combinedScore, gradeRevision: nextRevision },
+    rubric: rubricGrade,
+    latePenalty,
+    peer,
+    held,
+  };
+}
+
+export type GroupGradeResult = {
+  groupId: string;
+  submissionGradeRevision: number;
+  members: AssignmentGradeResult[];
+  overridden: string[];
+};
+
+// Group submissions carry the member list captured at submit time; the group grade fans out to each
+// member's grade doc and gradebook, except where memberOverrides gives that member their own raw score.
+// Member revisions follow each member's grade doc, since overrides make them diverge.
+export async function gradeGroupSubmissionInTx(
+  tx: FirebaseFirestore.Transaction,
+  args: {
+    courseRef: FirebaseFirestore.DocumentReference;
+    assignmentRef: FirebaseFirestore.DocumentReference;
+    assignment: any;
+    groupId: string;
+    rawScore: number;
+    memberOverrides: Map<string, number>;
+    feedback: string | undefined;
+    rubricGrade: RubricGrade | null;
+    actorUid: string;
+    reason: string | null;
+  }
+): Promise<GroupGradeResult> {
+  const { courseRef, assignmentRef, assignment, groupId, rawScore, memberOverrides, feedback, rubricGrade, actorUid } = args;
+  const assignmentId = assignmentRef.id;
+  const pointsPossible = assignmentPointsPossible(assignment);
+
+  const submissionRef = assignmentRef.collection('submissions').doc(groupSubmissionId(groupId));
+  const submission = requireSubmission(await tx.get(submissionRef));
+  const memberIds: string[] = Array.isArray(submission?.memberIds) ? submission.memberIds.map(String) : [];
+  const notMembers = [...memberOverrides.keys()].filter((uid) => !memberIds.includes(uid));
+  if (notMembers.length > 0) {
+    const err = new Error(`Not a member of this group's submission: ${notMembers.join(', ')}`);
+    (err as any).status = 400;
+    throw err;
+  }
+
+  const states: StudentGradeState[] = [];
+  for (const uid of memberIds) states.push(await readStudentGradeState(tx, courseRef, assignmentId, uid));
+  const scheme = await readGradingSchemeInTx(tx, courseRef);
+  const dueExtensionHours = await readDueExtensionHoursInTx(tx, courseRef, memberIds);
+  const category = gradeCategoryFor(assignment, 'assignment');
+
+  const latePenalty = latePenaltyFor(
+    latePolicyFrom(assignment),
+    lateByHoursFromSubmission(submission, assignment, dueExtensionHours)
+  );
+  const groupScore = applyLatePenalty(rawScore, latePenalty);
+  const priorRevision = Number(submission?.gradeRevision ?? 0);
+  const submissionGradeRevision = Number.isFinite(priorRevision) ? priorRevision + 1 : 1;
+  const sourceVersion = Number(submission?.assignmentVersionAtSubmission ?? assignment?.version ?? 1);
+
+  const held = gradeReleaseFrom(assignment) === 'held';
+
+  // Visible to every member, so it holds the group grade only; overrides live on each member's grade doc.
+  tx.set(
+    submissionRef,
+    {
+      ...(held
+        ? { gradeStatus: 'held' }
+        : {
+            grade: {
+              score: groupScore,
+              rawScore,
+              latePenalty: latePenalty ?? FieldValue.delete(),
+              feedback,
+              rubric: rubricGrade ?? FieldValue.delete(),
+              gradedAt: FieldValue.serverTimestamp(),
+              gradedBy: actorUid,
+            },
+            gradeStatus: 'released',
+          }),
+      gradeRevision: submissionGradeRevision,
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedAtBy: actorUid,
+    },
+    { merge: true }
+  );
+  const heldSubmissionGrade = held
+    ? heldGradeCopy({ score: groupScore, rawScore, latePenalty, peer: null, feedback, rubricGrade, actorUid })
+    : null;
+
+  const members = states.map((state): AssignmentGradeResult => {
+    const override = memberOverrides.get(state.studentId);
+    const memberRaw = override ?? rawScore;
+    const score = override == null ? groupScore : applyLatePenalty(override, latePenalty);
+    const priorScore = typeof state.grade?.score === 'number' ? state.grade.score : null;
+    const priorMemberRevision = Number(state.grade?.gradeRevision ?? 0);
+    const gradeRevision = Number.isFinite(priorMemberRevision) ? priorMemberRevision + 1 : 1;
+
+    writeStudentGrade(tx, state, {
+      assignmentId,
+      score,
+      rawScore: memberRaw,
+      latePenalty,
+      peer: null,
+      pointsPossible,
+      sourceVersion,
+      gradeRevision,
+      actorUid,
+      heldSubmissionGrade,
+      category,
+      scheme,
+      historySource: 'grade',
+      reason: args.reason,
+      group: { groupId, override: override != null },
+    });
+
+    return {
+      studentId: state.studentId,
+      gradeId: state.gradeId,
+      pointsPossible,
+      before: { score: priorScore, gradeRevision: priorMemberRevision },
+      after: { score, rawScore: memberRaw, gradeRevision },
+      rubric: override == null ? rubricGrade : null,
+      latePenalty,
+      peer: null,
+      held,
+    };
+  });
+
+  return { groupId, submissionGradeRevision, members, overridden: [...memberOverrides.keys()] };
+}
+
+export async function emitAssignmentGradeMutated(args: {
+  courseId: string;
+  assignmentId: string;
+  result: AssignmentGradeResult;
+  actorUid: string;
+  actorRole: string;
+  requestId: string;
+  source?: 'csv_import';
+  groupId?: string;
+}) {
+  const { courseId, assignmentId, result } = args;
+  await emitDomainEvent({
+    type: 'grade.mutated',
+    courseId,
+    actorUid: args.actorUid,
+    actorRole: args.actorRole,
+    aggregate: { kind: 'grade', id: result.gradeId, version: result.after.gradeRevision },
+    payload: {
+      courseId,
+      sourceType: 'assignment',
+      sourceId: assignmentId,
+      studentId: result.studentId,
+      before: result.before,
+      after: result.after,
+      rubricScored: result.rubric != null,
+      latePenaltyPercent: result.latePenalty?.penaltyPercent ?? 0,
+      peerWeightPercent: result.peer?.peerWeightPercent ?? 0,
+      ...(args.source ? { source: args.source } : {}),
+      ...(args.groupId ? { groupId: args.groupId } : {}),
+    },
+    idempotencyKey: `grade.mutated:assignment:${courseId}:${assignmentId}:${result.studentId}:r${result.after.gradeRevision}`,
+    requestId: args.requestId,
+  });
+}
@@ -0,0 +1,81 @@
+// Group assignments: each group submits once, to submissions/group_{groupId}, and that doc keeps the
+// member list as it was at submit time (submissions/grade fans the grade out to exactly those members).
+// Groups are formed by the instructor (assignments/setGroups) or by students (joinGroup/leaveGroup);
+// groupMembers/{uid} indexes membership so a student is in at most one group per assignment.
+// Lateness is judged per group, against the largest due extension any member has (submissions/submit).
+
+export const MAX_GROUP_SIZE = 10;
+export const MAX_GROUP_NAME_LENGTH = 80;
+
+export type GroupMode = { type: 'instructor' | 'self'; maxGroupSize: number };
+
+export type AssignmentGroup = { groupId: string; name: string; memberIds: string[] };
+
+export function normalizeGroupMode(input: unknown): { ok: true; mode: GroupMode | null } | { ok: false; error: string } {
+  const raw = (input ?? {}) as any;
+  if (!raw.type || raw.type === 'none') return { ok: true, mode: null };
+  if (raw.type !== 'instructor' && raw.type !== 'self') return { ok: false, error: 'Invalid groupMode' };
+  const maxGroupSize = Number(raw.maxGroupSize ?? 4);
+  if (!Number.isInteger(maxGroupSize) || maxGroupSize < 2 || maxGroupSize > MAX_GROUP_SIZE) {
+    return { ok: false, error: 'Invalid maxGroupSize' };
+  }
+  return { ok: true, mode: { type: raw.type, maxGroupSize } };
+}
+
+export function groupModeFrom(assignment: any): GroupMode | null {
+  const result = normalizeGroupMode(assignment?.groupMode);
+  return result.ok ? result.mode : null;
+}
+
+export function groupSubmissionId(groupId: string): string {
+  return `group_${groupId}`;
+}
+
+export function groupRef(assignmentRef: FirebaseFirestore.DocumentReference, groupId: string) {
+  return assignmentRef.collection('groups').doc(groupId);
+}
+
+export function groupMemberRef(assignmentRef: FirebaseFirestore.DocumentReference, uid: string) {
+  return assignmentRef.collection('groupMembers').doc(uid);
+}
+
+export function groupFrom(snap: FirebaseFirestore.DocumentSnapshot): AssignmentGroup | null {
+  if (!snap.exists) return null;
+  const data = snap.data() as any;
+  return {
+    groupId: snap.id,
+    name: String(data?.name ?? ''),
+    memberIds: Array.isArray(data?.memberIds) ? data.memberIds.map(String) : [],
+  };
+}
+
+export async function readMemberGroupInTx(
+  tx: FirebaseFirestore.Transaction,
+  assignmentRef: FirebaseFirestore.DocumentReference,
+  uid: string
+): Promise<AssignmentGroup | null> {
+  const memberSnap = await tx.get(groupMemberRef(assignmentRef, uid));
+  const groupId = memberSnap.exists ? String((memberSnap.data() as any)?.groupId ?? '') : '';
+  if (!groupId) return null;
+  return groupFrom(await tx.get(groupRef(assignmentRef, groupId)));
+}
+
+// Membership is frozen once the group has submitted, so the graded member list cannot drift.
+export async function assertGroupUnlockedInTx(
+  tx: FirebaseFirestore.Transaction,
+  assignmentRef: FirebaseFirestore.DocumentReference,
+  groupId: string
+) {
+  const snap = await tx.get(assignmentRef.collection('submissions').doc(groupSubmissionId(groupId)));
+  if (snap.exists) {
+    const err = new Error('Group has already submitted; membership is locked');
+    (err as any).status = 409;
+    throw err;
+  }
+}
+
+export function sanitizeGroupName(input: unknown): string | null {
+  if (typeof input !== 'string') return null;
+  const name = input.replace(/[\u0000-\u001F\u007F]/g, '').trim();
+  return name && name.length <= MAX_GROUP_NAME_LENGTH ? name : null;
+}
@@ -0,0 +1,97 @@
+// Client-reported integrity signals for scheduled test attempts (tests/reportIntegrity).
+// Evidence for the instructor only: nothing here changes a score or blocks a submission.
+
+export type IntegritySignalKind = 'visibility_hidden' | 'visibility_visible' | 'fullscreen_exit' | 'copy' | 'paste' | 'cut';
+
+export const INTEGRITY_SIGNAL_KINDS: readonly IntegritySignalKind[] = [
+  'visibility_hidden',
+  'visibility_visible',
+  'fullscreen_exit',
+  'copy',
+  'paste',
+  'cut',
+];
+
+export type IntegrityLogEntry = { kind: IntegritySignalKind; atMillis: number; receivedAtMillis: number };
+
+export type IntegrityCounts = Partial<Record<IntegritySignalKind, number>>;
+
+export const MAX_SIGNALS_PER_REPORT = 50;
+// The attempt doc keeps at most this many entries; counts keep growing past it.
+export const MAX_INTEGRITY_LOG = 300;
+
+// Client clocks are untrusted: timestamps are clamped into [attempt start, receipt], and nothing is
+// stamped after the attempt's deadline.
+export function sanitizeSignals(
+  input: unknown,
+  bounds: { startedAtMillis: number | null; receivedAtMillis: number; expiresAtMillis: number }
+): { accepted: IntegrityLogEntry[]; rejected: number } {
+  const list = Array.isArray(input) ? input.slice(0, MAX_SIGNALS_PER_REPORT) : [];
+  const accepted: IntegrityLogEntry[] = [];
+  let rejected = Array.isArray(input) ? Math.max(0, input.length - MAX_SIGNALS_PER_REPORT) : 0;
+
+  for (const raw of list) {
+    const kind = (raw as any)?.kind;
+    if (!INTEGRITY_SIGNAL_KINDS.includes(kind)) {
+      rejected++;
+      continue;
+    }
+    let atMillis = Number((raw as any)?.atMillis);
+    if (!Number.isFinite(atMillis)) atMillis = bounds.receivedAtMillis;
+    if (bounds.startedAtMillis != null) atMillis = Math.max(bounds.startedAtMillis, atMillis);
+    atMillis = Math.min(bounds.receivedAtMillis, bounds.expiresAtMillis, Math.round(atMillis));
+    accepted.push({ kind, atMillis, receivedAtMillis: bounds.receivedAtMillis });
+  }
+
+  accepted.sort((a, b) => a.atMillis - b.atMillis);
+  return { accepted, rejected };
+}
+
+export function integrityCountsFrom(data: any): IntegrityCounts {
+  const counts: IntegrityCounts = {};
+  for (const k of INTEGRITY_SIGNAL_KINDS) {
+    const n = Number(data?.[k] ?? 0);
+    if (Number.isFinite(n) && n > 0) counts[k] = n;
+  }
+  return counts;
+}
+
+// Everything except returning to the tab counts as a suspicious signal.
+export function suspiciousSignalTotal(counts: IntegrityCounts): number {
+  return INTEGRITY_SIGNAL_KINDS.filter((k) => k !== 'visibility_visible').reduce((sum, k) => sum + (counts[k] ?? 0), 0);
+}
+
+export type IntegritySummary = {
+  counts: IntegrityCounts;
+  suspiciousTotal: number;
+  hiddenMillis: number; // time away from the tab, from hidden -> visible pairs in the retained log
+  loggedEvents: number;
+  droppedEvents: number;
+  firstAtMillis: number | null;
+  lastAtMillis: number | null;
+};
+
+export function summarizeIntegrity(attempt: any): IntegritySummary {
+  const log = (Array.isArray(attempt?.integrityLog) ? attempt.integrityLog : []) as IntegrityLogEntry[];
+  const counts = integrityCountsFrom(attempt?.integrityCounts);
+
+  let hiddenMillis = 0;
+  let hiddenSince: number | null = null;
+  for (const e of [...log].sort((a, b) => a.atMillis - b.atMillis)) {
+    if (e.kind === 'visibility_hidden' && hiddenSince == null) hiddenSince = e.atMillis;
+    if (e.kind === 'visibility_visible' && hiddenSince != null) {
+      hiddenMillis += Math.max(0, e.atMillis - hiddenSince);
+      hiddenSince = null;
+    }
+  }
+
+  return {
+    counts,
+    suspiciousTotal: suspiciousSignalTotal(counts),
+    hiddenMillis,
+    loggedEvents: log.length,
+    droppedEvents: Number(attempt?.integrityDropped ?? 0) || 0,
+    firstAtMillis: log.length ? Math.min(...log.map((e) => e.atMillis)) : null,
+    lastAtMillis: log.length ? Math.max(...log.map((e) => e.atMillis)) : null,
+  };
+}
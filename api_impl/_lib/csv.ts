@@ -0,0 +1,86 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+function escapeCell(v: CsvCell): string {
+  if (v == null) return '';
+  let s = typeof v === 'number' ? (Number.isFinite(v) ? String(v) : '') : String(v);
+  // Neutralize spreadsheet formula injection (=, +, -, @ at start of a text cell).
+  if (typeof v === 'string' && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  if (/[",\r\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
+  return s;
+}
+
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((r) => r.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export type CsvRow = {
+  // 1-based physical line the row starts on, counting blank lines and line breaks inside quoted cells.
+  line: number;
+  cells: string[];
+};
+
+// RFC 4180 reader (quoted cells, doubled quotes, CRLF or LF). Blank lines are dropped; a leading BOM
+// is ignored. Throws on an unterminated quote.
+export function parseCsv(text: string): string[][] {
+  return parseCsvRows(text).map((r) => r.cells);
+}
+
+// parseCsv, keeping each row's line number in the source text for error reporting.
+export function parseCsvRows(text: string): CsvRow[] {
+  const src = text.replace(/^\uFEFF/, '');
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = 0;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim() !== '') rows.push({ line: rowLine, cells: row });
+    row = [];
+    cell = '';
+  };
+
+  while (i < src.length) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (ch === '"') {
+        quoted = false;
+        i++;
+        continue;
+      }
+      // A CRLF inside a quoted cell is one line break.
+      if (ch === '\n' || (ch === '\r' && src[i + 1] !== '\n')) line++;
+      cell += ch;
+      i++;
+      continue;
+    }
+    if (ch === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+      i++;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+      i++;
+    } else if (ch === '\r' || ch === '\n') {
+      endRow();
+      i += ch === '\r' && src[i + 1] === '\n' ? 2 : 1;
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+      i++;
+    }
+  }
+  if (quoted) throw new Error('Unterminated quoted cell');
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
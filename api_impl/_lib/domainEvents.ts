@@ -3,7 +3,17 @@ import { FieldValue } from 'firebase-admin/firestore';
 import { ensureFirebaseAdminApp } from './firebaseAdmin';
 
 export type DomainAggregate = {
-  kind: 'course' | 'streamPost' | 'assignment' | 'submission' | 'test' | 'attempt' | 'grade' | 'gradebook';
+  kind:
+    | 'course'
+    | 'streamPost'
+    | 'assignment'
+    | 'submission'
+    | 'test'
+    | 'attempt'
+    | 'grade'
+    | 'gradebook'
+    | 'accommodation'
+    | 'peerReview';
   id: string;
   version?: number;
 };
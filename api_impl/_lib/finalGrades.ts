@@ -0,0 +1,106 @@
+import { getSubjectGradeInfo } from '../../lib/calculatorUtils';
+import { gradeItemsFrom, summarizeGradebook, type GradingScheme } from './gradingScheme';
+
+// Course-level final grades on the JNTUH scale: the course gradebook percentage is scaled to the internal
+// component (e.g. 40), the instructor enters the university's external marks (e.g. out of 60), and the
+// 100-mark total maps to O/A+/A/B+/B/C/F and grade points via getSubjectGradeInfo, the same rule the
+// SGPA calculator applies to rows imported from here.
+
+export const DEFAULT_MIN_EXTERNAL_PERCENT = 35;
+
+export type FinalGradeScheme = {
+  internalMax: number;
+  externalMax: number;
+  credits: number;
+  // Minimum external marks (as a percentage of externalMax) to pass regardless of the total.
+  minExternalPercent: number;
+  revision: number;
+};
+
+export type FinalGrade = {
+  internalMarks: number;
+  minExternalMarks: number;
+  externalMarks: number | null;
+  totalMarks: number | null;
+  letter: string | null;
+  gradePoints: number | null;
+  status: 'complete' | 'awaiting_external';
+};
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function normalizeFinalGradeScheme(
+  input: any
+): { ok: true; scheme: Omit<FinalGradeScheme, 'revision'> } | { ok: false; error: string } {
+  const internalMax = Number(input?.internalMax);
+  const externalMax = Number(input?.externalMax);
+  const credits = Number(input?.credits);
+  const minExternalPercent = Number(input?.minExternalPercent ?? DEFAULT_MIN_EXTERNAL_PERCENT);
+  if (!Number.isFinite(internalMax) || internalMax < 0 || !Number.isFinite(externalMax) || externalMax < 0) {
+    return { ok: false, error: 'Invalid component maximums' };
+  }
+  // The grade bands are defined on 100 marks.
+  if (Math.abs(internalMax + externalMax - 100) > 1e-6) {
+    return { ok: false, error: 'internalMax and externalMax must add up to 100' };
+  }
+  if (!Number.isFinite(credits) || credits <= 0 || credits > 20) {
+    return { ok: false, error: 'Invalid credits' };
+  }
+  if (!Number.isFinite(minExternalPercent) || minExternalPercent < 0 || minExternalPercent > 100) {
+    return { ok: false, error: 'Invalid minExternalPercent' };
+  }
+  return { ok: true, scheme: { internalMax, externalMax, credits, minExternalPercent } };
+}
+
+export function finalGradeSchemeFrom(course: any): FinalGradeScheme | null {
+  const raw = course?.finalGradeScheme;
+  if (!raw) return null;
+  const result = normalizeFinalGradeScheme(raw);
+  if (!result.ok) return null;
+  const revision = Number(raw.revision ?? 1);
+  return { ...result.scheme, revision: Number.isFinite(revision) ? revision : 1 };
+}
+
+// The course percentage shown in the gradebook: the weighted percentage under a grading scheme,
+// else total score over possible. Null until something has been graded and released.
+export function courseGradePercent(scheme: GradingScheme | null, gradebook: any): number | null {
+  const summary = summarizeGradebook(scheme, gradeItemsFrom(gradebook));
+  if (summary.weightedPercent != null) return summary.weightedPercent;
+  const totalScore = Number(gradebook?.totalScore ?? 0);
+  const totalPossible = Number(gradebook?.totalPossible ?? 0);
+  return totalPossible > 0 ? round2((totalScore / totalPossible) * 100) : null;
+}
+
+// Without external marks only the internal component is known, so no letter is assigned yet.
+export function computeFinalGrade(
+  scheme: FinalGradeScheme,
+  internalPercent: number | null,
+  externalMarks: number | null
+): FinalGrade {
+  const internalMarks = round2(((internalPercent ?? 0) * scheme.internalMax) / 100);
+  const minExternalMarks = round2((scheme.externalMax * scheme.minExternalPercent) / 100);
+  if (externalMarks == null) {
+    return {
+      internalMarks,
+      minExternalMarks,
+      externalMarks: null,
+      totalMarks: null,
+      letter: null,
+      gradePoints: null,
+      status: 'awaiting_external',
+    };
+  }
+
+  const info = getSubjectGradeInfo({ internal: internalMarks, external: externalMarks, minExternal: minExternalMarks });
+  return {
+    internalMarks,
+    minExternalMarks,
+    externalMarks,
+    totalMarks: round2(internalMarks + externalMarks),
+    letter: info.label,
+    gradePoints: info.gp,
+    status: 'complete',
+  };
+}
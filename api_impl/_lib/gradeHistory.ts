@@ -0,0 +1,54 @@
+import { FieldValue } from 'firebase-admin/firestore';
+
+// Append-only change log per grade doc (grades/{gradeId}/history). Every write that changes a grade's
+// score or visibility adds one entry in the same transaction; entries are never updated or deleted,
+// so the log survives later regrades that overwrite the grade doc itself.
+
+export type GradeHistorySource = 'grade' | 'csv_import' | 'test_attempt' | 'test_regrade' | 'release';
+
+export type GradeValue = { score: number; pointsPossible: number; released: boolean };
+
+// Null for a grade doc that did not exist yet.
+export function gradeValueFrom(grade: any | null | undefined): GradeValue | null {
+  if (!grade) return null;
+  const score = Number(grade.score ?? 0);
+  const pointsPossible = Number(grade.pointsPossible ?? 0);
+  return {
+    score: Number.isFinite(score) ? score : 0,
+    pointsPossible: Number.isFinite(pointsPossible) ? pointsPossible : 0,
+    released: grade.released !== false,
+  };
+}
+
+// Auto IDs with create(): a retried or concurrent write can add entries but never replace one.
+export function appendGradeHistoryInTx(
+  tx: FirebaseFirestore.Transaction,
+  gradeRef: FirebaseFirestore.DocumentReference,
+  entry: {
+    studentId: string;
+    sourceType: 'assignment' | 'test';
+    sourceId: string;
+    gradeRevision: number;
+    source: GradeHistorySource;
+    actorUid: string;
+    from: GradeValue | null;
+    to: GradeValue;
+    reason: string | null;
+    details?: Record<string, unknown>;
+  }
+) {
+  tx.create(gradeRef.collection('history').doc(), {
+    gradeId: gradeRef.id,
+    studentId: entry.studentId,
+    sourceType: entry.sourceType,
+    sourceId: entry.sourceId,
+    gradeRevision: entry.gradeRevision,
+    source: entry.source,
+    actorUid: entry.actorUid,
+    from: entry.from,
+    to: entry.to,
+    reason: entry.reason,
+    ...(entry.details ? { details: entry.details } : {}),
+    at: FieldValue.serverTimestamp(),
+  });
+}
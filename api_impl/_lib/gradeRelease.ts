@@ -0,0 +1,262 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { emitDomainEvent } from './domainEvents';
+import { groupSubmissionId } from './assignmentGroups';
+import {
+  gradeCategoryFor,
+  gradeItemsFrom,
+  readGradingSchemeInTx,
+  summarizeGradebook,
+  withGradeItem,
+  type CategorySubtotal,
+  type GradeItem,
+  type GradingScheme,
+} from './gradingScheme';
+import { appendGradeHistoryInTx, gradeValueFrom } from './gradeHistory';
+
+// Grade hold/release. An assignment or test with gradeRelease 'held' still gets grade docs, but they
+// are marked released: false (hidden from students by firestore.rules) and do not move the student's
+// gradebook totals, which only ever count released grades. gradebook/setGradeRelease releases them.
+//
+// Each grade doc records what it currently contributes to the gradebook (countedScore/countedPossible),
+// so regrading a released grade while held keeps the previously released score counted until release.
+
+export type GradeReleaseState = 'held' | 'released';
+
+export type GradeSourceType = 'assignment' | 'test';
+
+// Sources created before hold/release existed are released.
+export function gradeReleaseFrom(source: any): GradeReleaseState {
+  return source?.gradeRelease === 'held' ? 'held' : 'released';
+}
+
+export function countedContribution(grade: any | null | undefined): { score: number; possible: number } {
+  if (!grade) return { score: 0, possible: 0 };
+  const countedScore = Number(grade.countedScore);
+  const countedPossible = Number(grade.countedPossible);
+  if (Number.isFinite(countedScore) && Number.isFinite(countedPossible)) return { score: countedScore, possible: countedPossible };
+  if (grade.released === false) return { score: 0, possible: 0 };
+  // Legacy grade docs were always counted in full.
+  const score = Number(grade.score ?? 0);
+  const possible = Number(grade.pointsPossible ?? 0);
+  return { score: Number.isFinite(score) ? score : 0, possible: Number.isFinite(possible) ? possible : 0 };
+}
+
+export const MAX_STUDENT_GRADES_SCAN = 1000;
+
+// Totals and counted items rebuilt from a student's grade docs, by the same rule as the incremental writes.
+export function gradebookTotalsFrom(gradeDocs: FirebaseFirestore.QueryDocumentSnapshot[]): {
+  totalScore: number;
+  totalPossible: number;
+  gradeItems: GradeItem[];
+} {
+  let totalScore = 0;
+  let totalPossible = 0;
+  const gradeItems: GradeItem[] = [];
+  for (const d of gradeDocs) {
+    const g = d.data() as any;
+    const { score, possible } = countedContribution(g);
+    totalScore += score;
+    totalPossible += possible;
+    if (score === 0 && possible === 0) continue;
+    const category = typeof g?.category === 'string' ? g.category : gradeCategoryFor(null, g?.sourceType === 'test' ? 'test' : 'assignment');
+    gradeItems.push({ gradeId: d.id, category, score, possible });
+  }
+  gradeItems.sort((a, b) => a.gradeId.localeCompare(b.gradeId));
+  return { totalScore, totalPossible, gradeItems };
+}
+
+export async function readStudentGradesInTx(
+  tx: FirebaseFirestore.Transaction,
+  courseRef: FirebaseFirestore.DocumentReference,
+  studentId: string
+): Promise<FirebaseFirestore.QueryDocumentSnapshot[]> {
+  const snap = await tx.get(courseRef.collection('grades').where('studentId', '==', studentId).limit(MAX_STUDENT_GRADES_SCAN + 1));
+  if (snap.size > MAX_STUDENT_GRADES_SCAN) {
+    const err = new Error('Too many grades for this student');
+    (err as any).status = 413;
+    throw err;
+  }
+  return snap.docs;
+}
+
+// The student's gradebook for an incremental write. Gradebooks written before gradeItems existed are
+// rebuilt from the grade docs first, so the write does not summarize categories from a single item.
+export async function readGradebookInTx(
+  tx: FirebaseFirestore.Transaction,
+  courseRef: FirebaseFirestore.DocumentReference,
+  studentId: string
+): Promise<any> {
+  const snap = await tx.get(courseRef.collection('gradebook').doc(studentId));
+  if (!snap.exists) return {};
+  const gradebook = snap.data() as any;
+  if (Array.isArray(gradebook?.gradeItems)) return gradebook;
+  return { ...gradebook, ...gradebookTotalsFrom(await readStudentGradesInTx(tx, courseRef, studentId)) };
+}
+
+// Release fields for the grade doc and the student's next gradebook fields for one grade write: raw
+// totals, the counted item list and (with a grading scheme) category subtotals and weighted percentage.
+export function releaseAccounting(args: {
+  gradeId: string;
+  category: string;
+  gradeBefore: any | null;
+  gradebook: any;
+  score: number;
+  pointsPossible: number;
+  held: boolean;
+  scheme: GradingScheme | null;
+}): {
+  gradeFields: { released: boolean; countedScore: number; countedPossible: number; category: string };
+  gradebookFields: {
+    totalScore: number;
+    totalPossible: number;
+    gradeItems: GradeItem[];
+    categories: CategorySubtotal[];
+    weightedPercent: number | null;
+  };
+} {
+  const before = countedContribution(args.gradeBefore);
+  const after = args.held ? before : { score: args.score, possible: args.pointsPossible };
+  // A held regrade keeps counting the previously released grade where it was counted.
+  const countedCategory = args.held && typeof args.gradeBefore?.category === 'string' ? args.gradeBefore.category : args.category;
+  const counted = after.score !== 0 || after.possible !== 0;
+
+  const gradeItems = withGradeItem(
+    gradeItemsFrom(args.gradebook),
+    args.gradeId,
+    counted ? { gradeId: args.gradeId, category: countedCategory, score: after.score, possible: after.possible } : null
+  );
+  const prevTotalScore = Number(args.gradebook?.totalScore ?? 0);
+  const prevTotalPossible = Number(args.gradebook?.totalPossible ?? 0);
+  return {
+    gradeFields: { released: !args.held, countedScore: after.score, countedPossible: after.possible, category: args.category },
+    gradebookFields: {
+      totalScore: (Number.isFinite(prevTotalScore) ? prevTotalScore : 0) + (after.score - before.score),
+      totalPossible: (Number.isFinite(prevTotalPossible) ? prevTotalPossible : 0) + (after.possible - before.possible),
+      gradeItems,
+      ...summarizeGradebook(args.scheme, gradeItems),
+    },
+  };
+}
+
+export type ReleasedGrade = { gradeId: string; studentId: string; gradeRevision: number; score: number; pointsPossible: number };
+
+// Releases one held grade doc: counts it in the gradebook and, for assignments, moves the held
+// submission grade (score, feedback, rubric) onto the submission the student can read.
+export async function releaseGradeInTx(
+  tx: FirebaseFirestore.Transaction,
+  args: {
+    courseRef: FirebaseFirestore.DocumentReference;
+    gradeRef: FirebaseFirestore.DocumentReference;
+    actorUid: string;
+  }
+): Promise<ReleasedGrade | null> {
+  const { courseRef, gradeRef, actorUid } = args;
+  const gradeSnap = await tx.get(gradeRef);
+  const grade = gradeSnap.exists ? (gradeSnap.data() as any) : null;
+  if (!grade || grade.released !== false) return null;
+
+  const studentId = String(grade.studentId ?? '');
+  const gradebookRef = courseRef.collection('gradebook').doc(studentId);
+  const gradebook = await readGradebookInTx(tx, courseRef, studentId);
+
+  let submissionRef: FirebaseFirestore.DocumentReference | null = null;
+  if (grade.sourceType === 'assignment' && grade.heldSubmissionGrade) {
+    const submissionId = grade.groupId ? groupSubmissionId(String(grade.groupId)) : studentId;
+    submissionRef = courseRef.collection('assignments').doc(String(grade.sourceId)).collection('submissions').doc(submissionId);
+    const submissionSnap = await tx.get(submissionRef);
+    if (!submissionSnap.exists) submissionRef = null;
+  }
+
+  const scheme = await readGradingSchemeInTx(tx, courseRef);
+
+  const score = Number(grade.score ?? 0);
+  const pointsPossible = Number(grade.pointsPossible ?? 0);
+  const sourceType: GradeSourceType = grade.sourceType === 'test' ? 'test' : 'assignment';
+  const { gradeFields, gradebookFields } = releaseAccounting({
+    gradeId: gradeRef.id,
+    category: typeof grade.category === 'string' ? grade.category : gradeCategoryFor(null, sourceType),
+    gradeBefore: grade,
+    gradebook,
+    score,
+    pointsPossible,
+    held: false,
+    scheme,
+  });
+
+  tx.set(
+    gradeRef,
+    {
+      ...gradeFields,
+      heldSubmissionGrade: FieldValue.delete(),
+      releasedAt: FieldValue.serverTimestamp(),
+      releasedBy: actorUid,
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  tx.set(
+    gradebookRef,
+    {
+      studentId,
+      ...gradebookFields,
+      computedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedAtBy: actorUid,
+    },
+    { merge: true }
+  );
+
+  appendGradeHistoryInTx(tx, gradeRef, {
+    studentId,
+    sourceType,
+    sourceId: String(grade.sourceId ?? ''),
+    gradeRevision: Number(grade.gradeRevision ?? 1),
+    source: 'release',
+    actorUid,
+    from: gradeValueFrom(grade),
+    to: { score, pointsPossible, released: true },
+    reason: null,
+  });
+
+  // update() replaces the whole grade map, so fields from an earlier released grade do not linger.
+  if (submissionRef) {
+    tx.update(submissionRef, {
+      grade: grade.heldSubmissionGrade,
+      gradeStatus: 'released',
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedAtBy: actorUid,
+    });
+  }
+
+  return { gradeId: gradeRef.id, studentId, gradeRevision: Number(grade.gradeRevision ?? 1), score, pointsPossible };
+}
+
+export async function emitGradeReleased(args: {
+  courseId: string;
+  sourceType: GradeSourceType;
+  sourceId: string;
+  released: ReleasedGrade;
+  actorUid: string;
+  actorRole: string;
+  requestId: string;
+}) {
+  const { courseId, released } = args;
+  await emitDomainEvent({
+    type: 'grade.released',
+    courseId,
+    actorUid: args.actorUid,
+    actorRole: args.actorRole,
+    aggregate: { kind: 'grade', id: released.gradeId, version: released.gradeRevision },
+    payload: {
+      courseId,
+      sourceType: args.sourceType,
+      sourceId: args.sourceId,
+      studentId: released.studentId,
+      score: released.score,
+      pointsPossible: released.pointsPossible,
+    },
+    idempotencyKey: `grade.released:${courseId}:${released.gradeId}:r${released.gradeRevision}`,
+    requestId: args.requestId,
+  });
+}
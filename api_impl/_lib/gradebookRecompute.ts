@@ -0,0 +1,91 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { gradebookTotalsFrom, readStudentGradesInTx } from './gradeRelease';
+import {
+  readGradingSchemeInTx,
+  summarizeGradebook,
+  type GradebookSummary,
+  type GradeItem,
+  type GradingScheme,
+} from './gradingScheme';
+
+const MAX_COURSE_GRADEBOOKS = 3000;
+// Students recomputed concurrently; each one is its own transaction.
+const RECOMPUTE_CONCURRENCY = 20;
+
+export type StudentGradebookRecompute = {
+  studentId: string;
+  scheme: GradingScheme | null;
+  // The gradebook doc as read in the transaction, before the rebuild.
+  before: any;
+  totals: { totalScore: number; totalPossible: number; gradeItems: GradeItem[] };
+  summary: GradebookSummary;
+};
+
+// Rebuilds one student's gradebook (totals, gradeItems and scheme summary) from their grade docs in a
+// transaction, so it cannot interleave with an incremental grade write.
+export async function recomputeStudentGradebook(args: {
+  db: FirebaseFirestore.Firestore;
+  courseRef: FirebaseFirestore.DocumentReference;
+  studentId: string;
+  actorUid: string;
+}): Promise<StudentGradebookRecompute> {
+  const { db, courseRef, studentId, actorUid } = args;
+  const gradebookRef = courseRef.collection('gradebook').doc(studentId);
+  return db.runTransaction(async (tx) => {
+    const scheme = await readGradingSchemeInTx(tx, courseRef);
+    const gradebookSnap = await tx.get(gradebookRef);
+    const gradeDocs = await readStudentGradesInTx(tx, courseRef, studentId);
+
+    const totals = gradebookTotalsFrom(gradeDocs);
+    const summary = summarizeGradebook(scheme, totals.gradeItems);
+
+    tx.set(
+      gradebookRef,
+      {
+        studentId,
+        ...totals,
+        ...summary,
+        computedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+        updatedAtBy: actorUid,
+      },
+      { merge: true }
+    );
+    return { studentId, scheme, before: gradebookSnap.exists ? (gradebookSnap.data() as any) : {}, totals, summary };
+  });
+}
+
+// Ids of every gradebook in the course; 413 past what one request recomputes.
+export async function listCourseGradebookIds(courseRef: FirebaseFirestore.DocumentReference): Promise<string[]> {
+  const snap = await courseRef.collection('gradebook').select().limit(MAX_COURSE_GRADEBOOKS + 1).get();
+  if (snap.size > MAX_COURSE_GRADEBOOKS) {
+    const err = new Error('Too many gradebooks to recompute');
+    (err as any).status = 413;
+    throw err;
+  }
+  return snap.docs.map((d) => d.id);
+}
+
+// Every gradebook in the course, e.g. after the grading scheme changes (stored summaries are what
+// students read) or to backfill gradebooks written before gradeItems existed.
+export async function recomputeCourseGradebooks(args: {
+  db: FirebaseFirestore.Firestore;
+  courseRef: FirebaseFirestore.DocumentReference;
+  actorUid: string;
+}): Promise<{ recomputed: number; changed: number }> {
+  const { db, courseRef, actorUid } = args;
+  const studentIds = await listCourseGradebookIds(courseRef);
+  let changed = 0;
+  for (let i = 0; i < studentIds.length; i += RECOMPUTE_CONCURRENCY) {
+    const results = await Promise.all(
+      studentIds
+        .slice(i, i + RECOMPUTE_CONCURRENCY)
+        .map((studentId) => recomputeStudentGradebook({ db, courseRef, studentId, actorUid }))
+    );
+    changed += results.filter((r) => {
+      const before = typeof r.before?.weightedPercent === 'number' ? r.before.weightedPercent : null;
+      return r.summary.weightedPercent !== before;
+    }).length;
+  }
+  return { recomputed: studentIds.length, changed };
+}
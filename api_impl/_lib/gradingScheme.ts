@@ -0,0 +1,161 @@
+// Course grading schemes: weighted categories with optional drop-lowest-N, e.g. assignments 30%,
+// tests 50%, labs 20%. The scheme lives on the course doc (gradebook/setGradingScheme); each assignment
+// or test names its category (gradeCategory, defaulting by source type).
+//
+// gradebook/{uid} keeps one gradeItems entry per counted grade, so category subtotals and the weighted
+// percentage can be recomputed exactly on every incremental write, drops included.
+
+export const MAX_GRADE_CATEGORIES = 20;
+export const MAX_DROP_LOWEST = 20;
+
+const CATEGORY_ID_RE = /^[a-z0-9_-]{1,40}$/;
+
+export type GradeCategory = { id: string; name: string; weightPercent: number; dropLowest: number };
+
+export type GradingScheme = { categories: GradeCategory[]; revision: number };
+
+export type GradeItem = { gradeId: string; category: string; score: number; possible: number };
+
+export type CategorySubtotal = {
+  id: string;
+  name: string;
+  // 0 for categories graded items point at but the scheme does not define.
+  weightPercent: number;
+  score: number;
+  possible: number;
+  percent: number | null;
+  droppedGradeIds: string[];
+  itemCount: number;
+};
+
+export type GradebookSummary = { categories: CategorySubtotal[]; weightedPercent: number | null };
+
+export function isValidCategoryId(id: unknown): id is string {
+  return typeof id === 'string' && CATEGORY_ID_RE.test(id);
+}
+
+export function defaultGradeCategory(sourceType: 'assignment' | 'test'): string {
+  return sourceType === 'test' ? 'tests' : 'assignments';
+}
+
+export function gradeCategoryFor(source: any, sourceType: 'assignment' | 'test'): string {
+  return isValidCategoryId(source?.gradeCategory) ? source.gradeCategory : defaultGradeCategory(sourceType);
+}
+
+export function normalizeGradeCategories(input: unknown): { ok: true; categories: GradeCategory[] } | { ok: false; error: string } {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_GRADE_CATEGORIES) {
+    return { ok: false, error: 'Invalid categories' };
+  }
+  const categories: GradeCategory[] = [];
+  const seen = new Set<string>();
+  for (const raw of input as any[]) {
+    const id = typeof raw?.id === 'string' ? raw.id.trim() : '';
+    const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+    const weightPercent = Number(raw?.weightPercent);
+    const dropLowest = Number(raw?.dropLowest ?? 0);
+    if (!isValidCategoryId(id) || seen.has(id)) return { ok: false, error: `Invalid category id: ${id}` };
+    if (!name || name.length > 80) return { ok: false, error: `Invalid name for category ${id}` };
+    if (!Number.isFinite(weightPercent) || weightPercent <= 0 || weightPercent > 100) {
+      return { ok: false, error: `Invalid weightPercent for category ${id}` };
+    }
+    if (!Number.isInteger(dropLowest) || dropLowest < 0 || dropLowest > MAX_DROP_LOWEST) {
+      return { ok: false, error: `Invalid dropLowest for category ${id}` };
+    }
+    seen.add(id);
+    categories.push({ id, name, weightPercent, dropLowest });
+  }
+  const totalWeight = categories.reduce((sum, c) => sum + c.weightPercent, 0);
+  if (Math.abs(totalWeight - 100) > 1e-6) return { ok: false, error: 'Category weights must add up to 100' };
+  return { ok: true, categories };
+}
+
+// Courses without a scheme keep raw totals only.
+export function gradingSchemeFrom(course: any): GradingScheme | null {
+  const raw = course?.gradingScheme;
+  if (!raw) return null;
+  const result = normalizeGradeCategories(raw.categories);
+  if (!result.ok) return null;
+  const revision = Number(raw.revision ?? 1);
+  return { categories: result.categories, revision: Number.isFinite(revision) ? revision : 1 };
+}
+
+export async function readGradingSchemeInTx(
+  tx: FirebaseFirestore.Transaction,
+  courseRef: FirebaseFirestore.DocumentReference
+): Promise<GradingScheme | null> {
+  const snap = await tx.get(courseRef);
+  return snap.exists ? gradingSchemeFrom(snap.data()) : null;
+}
+
+export function gradeItemsFrom(gradebook: any): GradeItem[] {
+  if (!Array.isArray(gradebook?.gradeItems)) return [];
+  return (gradebook.gradeItems as any[])
+    .map((i) => ({
+      gradeId: String(i?.gradeId ?? ''),
+      category: String(i?.category ?? ''),
+      score: Number(i?.score ?? 0),
+      possible: Number(i?.possible ?? 0),
+    }))
+    .filter((i) => i.gradeId && Number.isFinite(i.score) && Number.isFinite(i.possible));
+}
+
+// Replaces (or with null, removes) one grade's entry.
+export function withGradeItem(items: GradeItem[], gradeId: string, item: GradeItem | null): GradeItem[] {
+  const rest = items.filter((i) => i.gradeId !== gradeId);
+  return item ? [...rest, item] : rest;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// Lowest percentages are dropped first (ties by gradeId so the result is stable); at least one item is
+// always kept, and zero-point items are never dropped.
+function subtotal(id: string, name: string, weightPercent: number, dropLowest: number, items: GradeItem[]): CategorySubtotal {
+  const droppable = items
+    .filter((i) => i.possible > 0)
+    .sort((a, b) => a.score / a.possible - b.score / b.possible || a.gradeId.localeCompare(b.gradeId));
+  const dropCount = Math.min(dropLowest, Math.max(0, droppable.length - 1));
+  const dropped = new Set(droppable.slice(0, dropCount).map((i) => i.gradeId));
+
+  let score = 0;
+  let possible = 0;
+  for (const i of items) {
+    if (dropped.has(i.gradeId)) continue;
+    score += i.score;
+    possible += i.possible;
+  }
+  return {
+    id,
+    name,
+    weightPercent,
+    score,
+    possible,
+    percent: possible > 0 ? round2((score / possible) * 100) : null,
+    droppedGradeIds: [...dropped],
+    itemCount: items.length,
+  };
+}
+
+// Categories with nothing graded yet are left out of the weighted percentage (weights renormalize).
+export function summarizeGradebook(scheme: GradingScheme | null, items: GradeItem[]): GradebookSummary {
+  if (!scheme) return { categories: [], weightedPercent: null };
+
+  const byCategory = new Map<string, GradeItem[]>();
+  for (const i of items) byCategory.set(i.category, [...(byCategory.get(i.category) ?? []), i]);
+
+  const categories = scheme.categories.map((c) => subtotal(c.id, c.name, c.weightPercent, c.dropLowest, byCategory.get(c.id) ?? []));
+  const known = new Set(scheme.categories.map((c) => c.id));
+  for (const [id, list] of byCategory) {
+    if (!known.has(id)) categories.push(subtotal(id, id, 0, 0, list));
+  }
+
+  let weightSum = 0;
+  let weighted = 0;
+  for (const c of categories) {
+    if (c.weightPercent <= 0 || c.possible <= 0) continue;
+    weightSum += c.weightPercent;
+    weighted += c.weightPercent * (c.score / c.possible);
+  }
+  return { categories, weightedPercent: weightSum > 0 ? round2((weighted / weightSum) * 100) : null };
+}
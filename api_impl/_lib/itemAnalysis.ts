@@ -0,0 +1,188 @@
+import type { BreakdownEntry, TestQuestion } from './testQuestions';
+
+// Classical test theory item statistics over graded attempts.
+// Pure: callers load attempts + versions and decide what to do with the numbers.
+
+export type AttemptForAnalysis = {
+  score: number;
+  breakdown: BreakdownEntry[];
+  answersSnapshot: Record<string, unknown>;
+};
+
+export type ItemStats = {
+  questionId: string;
+  type: string;
+  prompt: string;
+  points: number;
+  served: number;
+  answered: number;
+  correctCount: number;
+  difficultyIndex: number | null; // share answering fully correct, 0..1
+  pointBiserial: number | null; // correlation of item correctness with rest-of-test score
+  meanPointsAwarded: number | null;
+  blankCount: number;
+  options: Array<{ optionId: string; text: string; isCorrect: boolean; count: number }>;
+  flags: string[];
+};
+
+const MIN_ATTEMPTS_FOR_FLAGS = 5;
+
+function round(n: number, dp = 4): number {
+  const f = 10 ** dp;
+  return Math.round(n * f) / f;
+}
+
+function correctOptionIdsOf(q: TestQuestion | undefined): Set<string> {
+  if (!q) return new Set();
+  if (q.type === 'mcq' || q.type === 'true_false') return new Set([String(q.correctOptionId)]);
+  if (q.type === 'multi_select') return new Set((q.correctOptionIds ?? []).map(String));
+  return new Set();
+}
+
+// Point-biserial against the corrected total (attempt score minus this item's points),
+// so an item is not correlated with itself. Null when undefined (no variance, or all/none correct).
+function pointBiserial(samples: Array<{ correct: boolean; rest: number }>): number | null {
+  const n = samples.length;
+  if (n < 2) return null;
+  const ones = samples.filter((s) => s.correct);
+  const zeros = samples.filter((s) => !s.correct);
+  if (ones.length === 0 || zeros.length === 0) return null;
+
+  const mean = samples.reduce((a, s) => a + s.rest, 0) / n;
+  const variance = samples.reduce((a, s) => a + (s.rest - mean) ** 2, 0) / n;
+  const sd = Math.sqrt(variance);
+  if (!(sd > 0)) return null;
+
+  const m1 = ones.reduce((a, s) => a + s.rest, 0) / ones.length;
+  const m0 = zeros.reduce((a, s) => a + s.rest, 0) / zeros.length;
+  const p = ones.length / n;
+  return round(((m1 - m0) / sd) * Math.sqrt(p * (1 - p)));
+}
+
+export function analyzeItems(attempts: AttemptForAnalysis[], questionById: Map<string, TestQuestion>): ItemStats[] {
+  type Acc = {
+    served: number;
+    answered: number;
+    correctCount: number;
+    pointsSum: number;
+    blankCount: number;
+    optionCounts: Map<string, number>;
+    samples: Array<{ correct: boolean; rest: number }>;
+  };
+  const accById = new Map<string, Acc>();
+
+  for (const attempt of attempts) {
+    const total = Number(attempt.score ?? 0);
+    for (const b of attempt.breakdown ?? []) {
+      const qid = String(b?.questionId ?? '');
+      if (!qid) continue;
+      const acc =
+        accById.get(qid) ??
+        ({ served: 0, answered: 0, correctCount: 0, pointsSum: 0, blankCount: 0, optionCounts: new Map(), samples: [] } as Acc);
+      accById.set(qid, acc);
+
+      const awarded = Number(b.pointsAwarded ?? 0);
+      acc.served++;
+      acc.pointsSum += Number.isFinite(awarded) ? awarded : 0;
+      if (b.correct) acc.correctCount++;
+      acc.samples.push({ correct: b.correct === true, rest: total - (Number.isFinite(awarded) ? awarded : 0) });
+
+      const answer = attempt.answersSnapshot?.[qid];
+      if (answer == null || answer === '' || (Array.isArray(answer) && answer.length === 0)) {
+        acc.blankCount++;
+        continue;
+      }
+      acc.answered++;
+      const picks = Array.isArray(answer) ? answer : [answer];
+      for (const pick of picks) {
+        const key = String(pick);
+        acc.optionCounts.set(key, (acc.optionCounts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  const out: ItemStats[] = [];
+  for (const [questionId, acc] of accById) {
+    const q = questionById.get(questionId);
+    const correctIds = correctOptionIdsOf(q);
+    const hasOptions = !!q && 'options' in q && Array.isArray(q.options);
+
+    const options = hasOptions
+      ? (q as { options: Array<{ id: string; text: string }> }).options.map((o) => ({
+          optionId: String(o.id),
+          text: String(o.text),
+          isCorrect: correctIds.has(String(o.id)),
+          count: acc.optionCounts.get(String(o.id)) ?? 0,
+        }))
+      : [];
+
+    const difficultyIndex = acc.served ? round(acc.correctCount / acc.served) : null;
+    const rpb = pointBiserial(acc.samples);
+
+    const flags: string[] = [];
+    if (acc.served >= MIN_ATTEMPTS_FOR_FLAGS) {
+      if (difficultyIndex != null && difficultyIndex >= 0.9) flags.push('too_easy');
+      if (difficultyIndex != null && difficultyIndex <= 0.2) flags.push('too_hard');
+      if (rpb != null && rpb < 0) flags.push('negative_discrimination');
+      else if (rpb != null && rpb < 0.2) flags.push('low_discrimination');
+      // A distractor nobody picks is not doing its job; a distractor out-drawing the key suggests a bad key.
+      const distractors = options.filter((o) => !o.isCorrect);
+      if (distractors.some((o) => o.count === 0) && q?.type !== 'true_false') flags.push('non_functional_distractor');
+      const maxKeyCount = Math.max(0, ...options.filter((o) => o.isCorrect).map((o) => o.count));
+      if (q?.type === 'mcq' && distractors.some((o) => o.count > maxKeyCount)) flags.push('distractor_beats_key');
+    }
+
+    out.push({
+      questionId,
+      type: q ? String(q.type) : 'unknown',
+      prompt: q ? String(q.prompt ?? '').slice(0, 200) : '',
+      points: q ? Number(q.points ?? 1) : 0,
+      served: acc.served,
+      answered: acc.answered,
+      correctCount: acc.correctCount,
+      difficultyIndex,
+      pointBiserial: rpb,
+      meanPointsAwarded: acc.served ? round(acc.pointsSum / acc.served) : null,
+      blankCount: acc.blankCount,
+      options,
+      flags,
+    });
+  }
+
+  return out;
+}
+
+// One row per item; distractor counts flattened as "optionId:count" (key marked with *).
+export function itemStatsCsvRows(items: ItemStats[]) {
+  const header = [
+    'questionId',
+    'type',
+    'prompt',
+    'points',
+    'served',
+    'answered',
+    'blank',
+    'correct',
+    'difficultyIndex',
+    'pointBiserial',
+    'meanPointsAwarded',
+    'optionCounts',
+    'flags',
+  ];
+  const rows = items.map((i) => [
+    i.questionId,
+    i.type,
+    i.prompt,
+    i.points,
+    i.served,
+    i.answered,
+    i.blankCount,
+    i.correctCount,
+    i.difficultyIndex,
+    i.pointBiserial,
+    i.meanPointsAwarded,
+    i.options.map((o) => `${o.isCorrect ? '*' : ''}${o.optionId}:${o.count}`).join(' '),
+    i.flags.join(' '),
+  ]);
+  return [header, ...rows];
+}
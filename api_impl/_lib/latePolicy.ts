@@ -0,0 +1,83 @@
+// Assignment late-penalty policy. submissions/submit records how late a submission was (against the
+// accommodation-extended deadline); submissions/grade turns the raw score into the final score here.
+
+export type LatePolicy =
+  | { type: 'none' }
+  | {
+      type: 'accept_with_penalty';
+      // Flat deduction applied to any late submission.
+      penaltyPercent: number;
+      // Extra deduction per started day late (decay); 0 for a flat-only policy.
+      perDayPercent: number;
+      // Upper bound on the total deduction; 100 means a very late submission can reach zero.
+      maxPenaltyPercent: number;
+    };
+
+export type LatePenalty = { lateByHours: number; daysLate: number; penaltyPercent: number };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function percent(v: unknown, fallback: number): number | null {
+  const n = v == null ? fallback : Number(v);
+  return Number.isFinite(n) && n >= 0 && n <= 100 ? n : null;
+}
+
+export function normalizeLatePolicy(input: unknown): { ok: true; policy: LatePolicy } | { ok: false; error: string } {
+  const raw = (input ?? {}) as any;
+  if (!raw.type || raw.type === 'none') return { ok: true, policy: { type: 'none' } };
+  if (raw.type !== 'accept_with_penalty') return { ok: false, error: 'Invalid latePolicy' };
+
+  const penaltyPercent = percent(raw.penaltyPercent, 0);
+  if (penaltyPercent == null) return { ok: false, error: 'Invalid penaltyPercent' };
+  const perDayPercent = percent(raw.perDayPercent, 0);
+  if (perDayPercent == null) return { ok: false, error: 'Invalid perDayPercent' };
+  const maxPenaltyPercent = percent(raw.maxPenaltyPercent, 100);
+  if (maxPenaltyPercent == null) return { ok: false, error: 'Invalid maxPenaltyPercent' };
+
+  return { ok: true, policy: { type: 'accept_with_penalty', penaltyPercent, perDayPercent, maxPenaltyPercent } };
+}
+
+// Assignments created before per-day decay existed only carry penaltyPercent; treat that as flat.
+export function latePolicyFrom(assignment: any): LatePolicy {
+  const result = normalizeLatePolicy(assignment?.latePolicy);
+  return result.ok ? result.policy : { type: 'none' };
+}
+
+export function lateByHoursOf(submittedAtMillis: number, effectiveDueMillis: number | null | undefined): number {
+  if (effectiveDueMillis == null || !Number.isFinite(effectiveDueMillis)) return 0;
+  const diff = submittedAtMillis - effectiveDueMillis;
+  return diff > 0 ? Math.round((diff / HOUR_MS) * 100) / 100 : 0;
+}
+
+// Submissions made before lateByHours was recorded fall back to submittedAt vs the stored deadline,
+// and those that stored no deadline either to the assignment's dueMillis plus the student's (or, for a
+// group, the largest member's) due extension.
+export function lateByHoursFromSubmission(submission: any, assignment: any, dueExtensionHours: number): number {
+  if (submission?.late !== true) return 0;
+  const recorded = Number(submission?.lateByHours);
+  if (Number.isFinite(recorded) && recorded > 0) return recorded;
+  const submittedAtMillis =
+    typeof submission?.submittedAt?.toMillis === 'function' ? Number(submission.submittedAt.toMillis()) : Number(submission?.submittedAtMillis);
+  if (!Number.isFinite(submittedAtMillis)) return 0;
+  const dueMillis =
+    typeof submission?.effectiveDueMillis === 'number'
+      ? submission.effectiveDueMillis
+      : typeof assignment?.dueMillis === 'number'
+        ? assignment.dueMillis + dueExtensionHours * HOUR_MS
+        : null;
+  return lateByHoursOf(submittedAtMillis, dueMillis);
+}
+
+// Null when nothing is deducted (on time, or the policy has no penalty).
+export function latePenaltyFor(policy: LatePolicy, lateByHours: number): LatePenalty | null {
+  if (policy.type === 'none' || !(lateByHours > 0)) return null;
+  const daysLate = Math.ceil(lateByHours / 24);
+  const penaltyPercent = Math.min(policy.maxPenaltyPercent, policy.penaltyPercent + policy.perDayPercent * daysLate);
+  return penaltyPercent > 0 ? { lateByHours, daysLate, penaltyPercent } : null;
+}
+
+export function applyLatePenalty(rawScore: number, penalty: LatePenalty | null): number {
+  if (!penalty) return rawScore;
+  const finalScore = rawScore * (1 - penalty.penaltyPercent / 100);
+  return Math.max(0, Math.round(finalScore * 100) / 100);
+}
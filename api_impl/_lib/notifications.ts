@@ -0,0 +1,49 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { ensureFirebaseAdminApp } from './firebaseAdmin';
+import { makeDeterministicEventId } from './calendarFanout';
+
+const MAX_NOTIFY_USERS = 1000;
+
+// Per-user notification feed (userNotifications/{uid}/items), read directly by the client.
+// IDs are derived from the key, so re-sending the same notification refreshes it instead of duplicating.
+export async function notifyUsers(params: {
+  uids: string[];
+  key: string;
+  type: 'grade_released';
+  title: string;
+  courseId: string;
+  data?: Record<string, unknown>;
+}) {
+  const uids = [...new Set(params.uids)];
+  if (uids.length > MAX_NOTIFY_USERS) {
+    const err = new Error(`Too many recipients for one notification (>${MAX_NOTIFY_USERS}).`);
+    (err as any).status = 413;
+    throw err;
+  }
+
+  const admin = ensureFirebaseAdminApp();
+  const db = admin.firestore();
+
+  const chunkSize = 450;
+  for (let i = 0; i < uids.length; i += chunkSize) {
+    const batch = db.batch();
+    for (const uid of uids.slice(i, i + chunkSize)) {
+      const ref = db.collection('userNotifications').doc(uid).collection('items').doc(makeDeterministicEventId(`${params.key}:${uid}`));
+      batch.set(
+        ref,
+        {
+          type: params.type,
+          title: params.title,
+          courseId: params.courseId,
+          ...(params.data ? { data: params.data } : {}),
+          read: false,
+          createdAt: FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+    }
+    await batch.commit();
+  }
+
+  return { notifiedCount: uids.length };
+}
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { mulberry32, seedFromString, shuffleInPlace } from './seededRandom';
+
+// Peer review for rubric-graded assignments. After the due date, assignments/assignPeerReviews gives
+// every submission to N other submitters; reviews live in assignments/{a}/peerReviews (server-only),
+// so reviewer identities never reach the author. The instructor's grade is then blended with the
+// aggregated peer score by the assignment's peerWeightPercent (see combinePeerScore).
+
+export const MAX_REVIEWERS_PER_SUBMISSION = 5;
+
+export type PeerReviewAggregate = 'mean' | 'median';
+
+export type PeerReviewConfig = {
+  enabled: true;
+  reviewersPerSubmission: number;
+  // Share of the combined grade taken from the aggregated peer score; the rest is the instructor's.
+  peerWeightPercent: number;
+  aggregate: PeerReviewAggregate;
+  // Reviews are accepted until then; omitted = until the instructor grades the submission (held or released).
+  reviewDueMillis?: number;
+};
+
+// Stored on the author's submission doc; counts and score only, never reviewer ids.
+export type PeerReviewSummary = { completed: number; score: number | null; aggregate: PeerReviewAggregate };
+
+export type PeerGradeInfo = {
+  instructorScore: number;
+  peerScore: number;
+  peerCount: number;
+  peerWeightPercent: number;
+  aggregate: PeerReviewAggregate;
+};
+
+export function normalizePeerReviewConfig(
+  input: unknown
+): { ok: true; config: PeerReviewConfig | null } | { ok: false; error: string } {
+  if (input == null) return { ok: true, config: null };
+  const raw = input as any;
+  if (raw.enabled === false) return { ok: true, config: null };
+  if (raw.enabled !== true) return { ok: false, error: 'Invalid peerReview' };
+
+  const reviewersPerSubmission = Number(raw.reviewersPerSubmission ?? 3);
+  if (!Number.isInteger(reviewersPerSubmission) || reviewersPerSubmission < 1 || reviewersPerSubmission > MAX_REVIEWERS_PER_SUBMISSION) {
+    return { ok: false, error: 'Invalid reviewersPerSubmission' };
+  }
+  const peerWeightPercent = Number(raw.peerWeightPercent ?? 0);
+  if (!Number.isFinite(peerWeightPercent) || peerWeightPercent < 0 || peerWeightPercent > 100) {
+    return { ok: false, error: 'Invalid peerWeightPercent' };
+  }
+  const aggregate = raw.aggregate ?? 'mean';
+  if (aggregate !== 'mean' && aggregate !== 'median') return { ok: false, error: 'Invalid peerReview aggregate' };
+  const reviewDueMillis = raw.reviewDueMillis == null ? undefined : Number(raw.reviewDueMillis);
+  if (reviewDueMillis !== undefined && !Number.isFinite(reviewDueMillis)) {
+    return { ok: false, error: 'Invalid reviewDueMillis' };
+  }
+
+  return { ok: true, config: { enabled: true, reviewersPerSubmission, peerWeightPercent, aggregate, reviewDueMillis } };
+}
+
+export function peerReviewConfigFrom(assignment: any): PeerReviewConfig | null {
+  const result = normalizePeerReviewConfig(assignment?.peerReview);
+  return result.ok ? result.config : null;
+}
+
+// Deterministic id per (assignment, reviewer, author): re-running the assignment writes the same docs.
+// Reviewers are handed the id, so it is an HMAC under a server secret; a plain hash could be matched
+// against classmates' uids to unmask the author. Authors never see review ids, and submitPeerReview
+// answers 404 for anything not the caller's.
+export function peerReviewId(assignmentId: string, reviewerId: string, authorId: string): string {
+  const secret = process.env.PEER_REVIEW_ID_SECRET;
+  if (!secret) {
+    throw new Error('Peer review is not configured: missing PEER_REVIEW_ID_SECRET');
+  }
+  return crypto.createHmac('sha256', secret).update(`${assignmentId}:${reviewerId}:${authorId}`).digest('hex').slice(0, 32);
+}
+
+// Shuffles the submitters (seeded by the assignment) and has each one review the next N in the ring:
+// nobody reviews themselves, and everybody gives and receives exactly N reviews.
+export function planPeerReviews(
+  assignmentId: string,
+  authorIds: string[],
+  reviewersPerSubmission: number
+): Array<{ reviewerId: string; authorId: string }> {
+  const ring = Array.from(new Set(authorIds)).sort();
+  if (ring.length <= reviewersPerSubmission) {
+    const err = new Error(`Peer review needs more than ${reviewersPerSubmission} submissions`);
+    (err as any).status = 409;
+    throw err;
+  }
+  shuffleInPlace(ring, mulberry32(seedFromString(`peerReview:${assignmentId}`)));
+
+  const pairs: Array<{ reviewerId: string; authorId: string }> = [];
+  ring.forEach((reviewerId, i) => {
+    for (let k = 1; k <= reviewersPerSubmission; k++) {
+      pairs.push({ reviewerId, authorId: ring[(i + k) % ring.length] });
+    }
+  });
+  return pairs;
+}
+
+export function aggregatePeerScores(scores: number[], aggregate: PeerReviewAggregate): number | null {
+  const valid = scores.filter((s) => Number.isFinite(s));
+  if (valid.length === 0) return null;
+  let value: number;
+  if (aggregate === 'median') {
+    const sorted = [...valid].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    value = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  } else {
+    value = valid.reduce((sum, s) => sum + s, 0) / valid.length;
+  }
+  return Math.round(value * 100) / 100;
+}
+
+// combined = instructor * (1 - w) + peer * w. Without completed reviews the instructor's score stands.
+export function combinePeerScore(
+  config: PeerReviewConfig | null,
+  instructorScore: number,
+  summary: PeerReviewSummary | null | undefined
+): { rawScore: number; peer: PeerGradeInfo | null } {
+  if (!config || !summary || !(summary.completed > 0) || typeof summary.score !== 'number') {
+    return { rawScore: instructorScore, peer: null };
+  }
+  const w = config.peerWeightPercent / 100;
+  const rawScore = Math.round((instructorScore * (1 - w) + summary.score * w) * 100) / 100;
+  return {
+    rawScore,
+    peer: {
+      instructorScore,
+      peerScore: summary.score,
+      peerCount: summary.completed,
+      peerWeightPercent: config.peerWeightPercent,
+      aggregate: config.aggregate,
+    },
+  };
+}
@@ -0,0 +1,418 @@
+import { MAX_OPTIONS, validateQuestions, type TestQuestion } from './testQuestions';
+
+// Plain-text question bank formats (Moodle GIFT and Aiken) <-> the versions question schema.
+// Parsers only turn text into raw question objects; validation is validateQuestions, the same
+// rules tests/create applies, with rejections mapped back to the source line.
+//
+// GIFT extras understood on import and written on export, so a round-trip is lossless:
+//   ::<question id>::           title doubles as the question id
+//   // points: 2                comment directly above a question
+//   // scoring: all_or_nothing  multi-select (weighted ~%n% answers default to proportional)
+//   // caseSensitive: true      short answer
+//   {... ####text}              general feedback <-> question explanation
+
+export type QuestionFormat = 'gift' | 'aiken';
+
+export const QUESTION_FORMATS: readonly QuestionFormat[] = ['gift', 'aiken'];
+
+export type ImportRejection = { line: number; error: string; excerpt: string };
+
+export type ImportResult = { questions: TestQuestion[]; pointsPossible: number; rejected: ImportRejection[] };
+
+export type ExportWarning = { questionId: string; warning: string };
+
+export type ExportResult = { text: string; exported: number; warnings: ExportWarning[] };
+
+type Draft = { line: number; excerpt: string } & ({ raw: any } | { error: string });
+
+type Block = { line: number; lines: string[] };
+
+function excerptOf(s: string): string {
+  const oneLine = s.replace(/\s+/g, ' ').trim();
+  return oneLine.length > 80 ? `${oneLine.slice(0, 77)}...` : oneLine;
+}
+
+function optionIdAt(i: number): string {
+  return String.fromCharCode(97 + i); // a, b, c, ...
+}
+
+function splitLines(text: string): string[] {
+  return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+}
+
+// Questions are separated by one or more blank lines; line numbers are 1-based.
+function splitBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  lines.forEach((l, i) => {
+    if (!l.trim()) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { line: i + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(l);
+  });
+  return blocks;
+}
+
+function finishImport(drafts: Draft[]): ImportResult {
+  const rejected: ImportRejection[] = [];
+  const parsed: Draft[] = [];
+  for (const d of drafts) {
+    if ('error' in d) rejected.push({ line: d.line, error: d.error, excerpt: d.excerpt });
+    else parsed.push(d);
+  }
+
+  const { questions, pointsPossible, rejected: invalid } = validateQuestions(parsed.map((d) => (d as { raw: any }).raw));
+  for (const r of invalid) {
+    const d = parsed[r.index];
+    rejected.push({ line: d.line, error: r.error, excerpt: d.excerpt });
+  }
+  rejected.sort((a, b) => a.line - b.line);
+
+  return { questions, pointsPossible, rejected };
+}
+
+// --- GIFT ---
+
+const GIFT_SPECIAL = /[\\~=#{}:]/g;
+
+function escapeGift(s: string): string {
+  return s.replace(GIFT_SPECIAL, '\\$&').replace(/\n/g, '\\n');
+}
+
+function unescapeGift(s: string): string {
+  return s.replace(/\\(.)/g, (_m, c: string) => (c === 'n' ? '\n' : c));
+}
+
+function indexOfUnescaped(s: string, needle: string, from = 0): number {
+  for (let i = from; i < s.length; i++) {
+    if (s[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (s.startsWith(needle, i)) return i;
+  }
+  return -1;
+}
+
+function stripGiftFeedback(s: string): string {
+  const hash = indexOfUnescaped(s, '#');
+  return hash >= 0 ? s.slice(0, hash) : s;
+}
+
+type GiftAnswer = { mark: '=' | '~'; weight: number | null; text: string };
+
+function giftAnswers(body: string): { ok: true; answers: GiftAnswer[] } | { ok: false; error: string } {
+  const rawTokens: Array<{ mark: '=' | '~'; raw: string }> = [];
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    const cur = rawTokens[rawTokens.length - 1];
+    if (c === '\\') {
+      if (cur) cur.raw += body.slice(i, i + 2);
+      i++;
+      continue;
+    }
+    if (c === '=' || c === '~') {
+      rawTokens.push({ mark: c, raw: '' });
+      continue;
+    }
+    if (cur) cur.raw += c;
+    else if (c.trim()) return { ok: false, error: 'Answers must start with = or ~' };
+  }
+
+  const answers: GiftAnswer[] = [];
+  for (const t of rawTokens) {
+    if (indexOfUnescaped(t.raw, '->') >= 0) return { ok: false, error: 'Matching questions are not supported' };
+    let raw = stripGiftFeedback(t.raw).trim();
+    let weight: number | null = null;
+    const m = /^%(-?\d+(?:\.\d+)?)%/.exec(raw);
+    if (m) {
+      weight = Number(m[1]);
+      raw = raw.slice(m[0].length).trim();
+    }
+    answers.push({ mark: t.mark, weight, text: unescapeGift(raw).trim() });
+  }
+  return { ok: true, answers };
+}
+
+// `{#value:tolerance}`, `{#min..max}` or several `=`-prefixed alternatives (first full-credit one wins).
+function giftNumeric(spec: string): { ok: true; correctValue: number; absolute: number } | { ok: false; error: string } {
+  let chosen = spec;
+  if (indexOfUnescaped(spec, '=') >= 0) {
+    const parsed = giftAnswers(spec);
+    if (!parsed.ok) return parsed;
+    const full = parsed.answers.find((a) => a.mark === '=' && (a.weight == null || a.weight === 100));
+    if (!full) return { ok: false, error: 'Numeric question has no full-credit answer' };
+    chosen = full.text;
+  } else {
+    chosen = unescapeGift(stripGiftFeedback(spec)).trim();
+  }
+
+  const range = /^(-?[\d.eE+-]+)\s*\.\.\s*(-?[\d.eE+-]+)$/.exec(chosen);
+  if (range) {
+    const lo = Number(range[1]);
+    const hi = Number(range[2]);
+    if (!Number.isFinite(lo) || !Number.isFinite(hi) || hi < lo) return { ok: false, error: 'Invalid numeric range' };
+    return { ok: true, correctValue: (lo + hi) / 2, absolute: (hi - lo) / 2 };
+  }
+
+  const [valueRaw, tolRaw] = chosen.split(':');
+  const correctValue = Number(valueRaw);
+  const absolute = tolRaw == null ? 0 : Number(tolRaw);
+  if (!valueRaw?.trim() || !Number.isFinite(correctValue)) return { ok: false, error: 'Invalid numeric answer' };
+  if (!Number.isFinite(absolute) || absolute < 0) return { ok: false, error: 'Invalid numeric tolerance' };
+  return { ok: true, correctValue, absolute };
+}
+
+function parseGiftBlock(block: Block, ordinal: number, defaultPoints: number): Draft | null {
+  const meta: Record<string, string> = {};
+  const body: string[] = [];
+  for (const l of block.lines) {
+    const t = l.trim();
+    if (t.startsWith('//')) {
+      const m = /^\/\/\s*(points|scoring|caseSensitive)\s*:\s*(\S+)\s*$/i.exec(t);
+      if (m) meta[m[1].toLowerCase()] = m[2];
+      continue;
+    }
+    if (/^\$CATEGORY:/i.test(t)) continue;
+    body.push(l);
+  }
+  if (body.length === 0) return null;
+
+  let text = body.join('\n').trim();
+  const excerpt = excerptOf(text);
+  const fail = (error: string): Draft => ({ line: block.line, excerpt, error });
+
+  let title = '';
+  if (text.startsWith('::')) {
+    const end = indexOfUnescaped(text, '::', 2);
+    if (end < 0) return fail('Unterminated ::title::');
+    title = unescapeGift(text.slice(2, end)).replace(/\s+/g, ' ').trim();
+    text = text.slice(end + 2).trim();
+  }
+
+  const open = indexOfUnescaped(text, '{');
+  if (open < 0) return fail('Missing answer block {...}');
+  const close = indexOfUnescaped(text, '}', open + 1);
+  if (close < 0) return fail('Unclosed answer block');
+  if (indexOfUnescaped(text, '{', close + 1) >= 0) return fail('More than one answer block; separate questions with a blank line');
+
+  const before = unescapeGift(text.slice(0, open).replace(/^\[(plain|html|markdown|moodle)\]\s*/i, '')).trim();
+  const after = unescapeGift(text.slice(close + 1)).trim();
+  // Missing-word questions put the answer block mid-sentence.
+  const prompt = after ? `${before} _____ ${after}` : before;
+  let answerBody = text.slice(open + 1, close).trim();
+  let explanation = '';
+  const generalFeedback = indexOfUnescaped(answerBody, '####');
+  if (generalFeedback >= 0) {
+    explanation = unescapeGift(answerBody.slice(generalFeedback + 4)).trim();
+    answerBody = answerBody.slice(0, generalFeedback).trim();
+  }
+
+  const points = meta.points != null ? Number(meta.points) : defaultPoints;
+  const base = { id: title || `q${ordinal}`, prompt, points, ...(explanation ? { explanation } : {}) };
+  const ok = (raw: any): Draft => ({ line: block.line, excerpt, raw: { ...base, ...raw } });
+
+  const tf = /^(T|TRUE|F|FALSE)\s*(#.*)?$/is.exec(answerBody);
+  if (tf) return ok({ type: 'true_false', correctOptionId: tf[1].toUpperCase().startsWith('T') ? 'true' : 'false' });
+
+  if (answerBody.startsWith('#')) {
+    const n = giftNumeric(answerBody.slice(1).trim());
+    if (!n.ok) return fail(n.error);
+    return ok({ type: 'numeric', correctValue: n.correctValue, tolerance: { absolute: n.absolute, relative: 0 } });
+  }
+
+  if (!answerBody) return fail('Essay questions are not supported');
+
+  const parsed = giftAnswers(answerBody);
+  if (!parsed.ok) return fail(parsed.error);
+  const answers = parsed.answers;
+
+  if (!answers.some((a) => a.mark === '~')) {
+    const acceptedAnswers = answers.filter((a) => a.weight == null || a.weight === 100).map((a) => a.text);
+    return ok({ type: 'short_answer', acceptedAnswers, caseSensitive: meta.casesensitive === 'true' });
+  }
+
+  if (answers.length > MAX_OPTIONS) return fail(`More than ${MAX_OPTIONS} options`);
+  const options = answers.map((a, i) => ({ id: optionIdAt(i), text: a.text }));
+  const weighted = answers.some((a) => a.weight != null);
+  const correctIds = answers
+    .map((a, i) => ((a.mark === '=' || (a.weight ?? 0) > 0) ? optionIdAt(i) : null))
+    .filter((x): x is string => !!x);
+  if (correctIds.length === 0) return fail('No correct answer marked');
+
+  if (!weighted && correctIds.length === 1) {
+    return ok({ type: 'mcq', options, correctOptionId: correctIds[0] });
+  }
+  return ok({
+    type: 'multi_select',
+    options,
+    correctOptionIds: correctIds,
+    scoring: meta.scoring === 'all_or_nothing' ? 'all_or_nothing' : 'proportional',
+  });
+}
+
+export function parseGift(text: string, opts: { defaultPoints?: number } = {}): ImportResult {
+  const defaultPoints = opts.defaultPoints ?? 1;
+  const drafts: Draft[] = [];
+  for (const block of splitBlocks(splitLines(text))) {
+    const d = parseGiftBlock(block, drafts.length + 1, defaultPoints);
+    if (d) drafts.push(d);
+  }
+  return finishImport(drafts);
+}
+
+function formatWeight(w: number): string {
+  return String(Math.round(w * 100000) / 100000);
+}
+
+export function toGift(questions: TestQuestion[], opts: { header?: string[] } = {}): ExportResult {
+  const out: string[] = (opts.header ?? []).map((h) => `// ${h.replace(/\n/g, ' ')}`);
+  if (out.length) out.push('');
+
+  for (const q of questions) {
+    out.push(`// points: ${q.points}`);
+    const head = `::${escapeGift(q.id)}::${escapeGift(q.prompt)}`;
+    const general = q.explanation ? `####${escapeGift(q.explanation)}` : '';
+    const close = general ? [general, '}'] : ['}'];
+
+    if (q.type === 'true_false') {
+      out.push(`${head} {${q.correctOptionId === 'true' ? 'TRUE' : 'FALSE'}${general}}`);
+    } else if (q.type === 'numeric') {
+      const tol = Math.max(q.tolerance.absolute, q.tolerance.relative * Math.abs(q.correctValue));
+      out.push(`${head} {#${q.correctValue}${tol > 0 ? `:${tol}` : ''}${general}}`);
+    } else if (q.type === 'short_answer') {
+      if (q.caseSensitive) out.push('// caseSensitive: true');
+      out.push(`${head} {`, ...q.acceptedAnswers.map((a) => `=${escapeGift(a)}`), ...close);
+    } else if (q.type === 'mcq') {
+      out.push(
+        `${head} {`,
+        ...q.options.map((o) => `${o.id === q.correctOptionId ? '=' : '~'}${escapeGift(o.text)}`),
+        ...close
+      );
+    } else {
+      // Each correct pick is worth 100/k; each wrong pick cancels one, matching proportional scoring.
+      if (q.scoring === 'all_or_nothing') out.push('// scoring: all_or_nothing');
+      const w = formatWeight(100 / Math.max(1, q.correctOptionIds.length));
+      const key = new Set(q.correctOptionIds);
+      out.push(
+        `${head} {`,
+        ...q.options.map((o) => `~%${key.has(o.id) ? '' : '-'}${w}%${escapeGift(o.text)}`),
+        ...close
+      );
+    }
+    out.push('');
+  }
+
+  return { text: out.join('\n'), exported: questions.length, warnings: [] };
+}
+
+// --- Aiken ---
+// Single-answer multiple choice only:
+//   Question text
+//   A. option
+//   B) option
+//   ANSWER: B
+
+const AIKEN_OPTION = /^([A-Za-z])\s*[.)]\s+(.+)$/;
+const AIKEN_ANSWER = /^ANSWER\s*:\s*([A-Za-z])\s*$/i;
+
+export function parseAiken(text: string, opts: { defaultPoints?: number } = {}): ImportResult {
+  const defaultPoints = opts.defaultPoints ?? 1;
+  const drafts: Draft[] = [];
+
+  type Pending = { line: number; prompt: string[]; options: Array<{ id: string; text: string }> };
+  let pending: Pending | null = null;
+
+  const excerptFor = (p: Pending) => excerptOf(p.prompt.join(' '));
+  const failPending = (p: Pending, error: string) => drafts.push({ line: p.line, excerpt: excerptFor(p), error });
+
+  splitLines(text).forEach((l, i) => {
+    const t = l.trim();
+    if (!t) return;
+    const lineNo = i + 1;
+
+    const answer = AIKEN_ANSWER.exec(t);
+    if (answer) {
+      if (!pending) {
+        drafts.push({ line: lineNo, excerpt: excerptOf(t), error: 'ANSWER line without a question' });
+        return;
+      }
+      const p: Pending = pending;
+      pending = null;
+      if (p.options.length === 0) return failPending(p, 'Question has no options');
+      if (p.options.length > MAX_OPTIONS) return failPending(p, `More than ${MAX_OPTIONS} options`);
+      drafts.push({
+        line: p.line,
+        excerpt: excerptFor(p),
+        raw: {
+          id: `q${drafts.length + 1}`,
+          type: 'mcq',
+          prompt: p.prompt.join('\n'),
+          options: p.options,
+          correctOptionId: answer[1].toLowerCase(),
+          points: defaultPoints,
+        },
+      });
+      return;
+    }
+
+    const option = pending && pending.prompt.length ? AIKEN_OPTION.exec(t) : null;
+    if (pending && option) {
+      const id = option[1].toLowerCase();
+      if (pending.options.some((o) => o.id === id)) {
+        failPending(pending, `Duplicate option ${option[1].toUpperCase()} on line ${lineNo}`);
+        pending = null;
+        return;
+      }
+      pending.options.push({ id, text: option[2].trim() });
+      return;
+    }
+
+    // Plain text after options means the previous question never got its ANSWER line.
+    if (pending && pending.options.length > 0) {
+      failPending(pending, 'Missing ANSWER line');
+      pending = null;
+    }
+    if (!pending) pending = { line: lineNo, prompt: [], options: [] };
+    pending.prompt.push(t);
+  });
+
+  if (pending) failPending(pending, 'Missing ANSWER line');
+
+  return finishImport(drafts);
+}
+
+export function toAiken(questions: TestQuestion[]): ExportResult {
+  const out: string[] = [];
+  const warnings: ExportWarning[] = [];
+  let exported = 0;
+
+  for (const q of questions) {
+    if (q.type !== 'mcq' && q.type !== 'true_false') {
+      warnings.push({ questionId: q.id, warning: `Aiken cannot represent ${q.type} questions; skipped` });
+      continue;
+    }
+    if (q.options.length > 26) {
+      warnings.push({ questionId: q.id, warning: 'Too many options for Aiken letters; skipped' });
+      continue;
+    }
+    if (q.points !== 1) {
+      warnings.push({ questionId: q.id, warning: `Aiken has no points; ${q.points} points will import as the default` });
+    }
+    if (q.explanation) warnings.push({ questionId: q.id, warning: 'Aiken has no explanations; explanation dropped' });
+
+    const letters = q.options.map((_o, i) => String.fromCharCode(65 + i));
+    const correctIndex = q.options.findIndex((o) => o.id === q.correctOptionId);
+    out.push(q.prompt.replace(/\s*\n\s*/g, ' '));
+    q.options.forEach((o, i) => out.push(`${letters[i]}. ${o.text.replace(/\s*\n\s*/g, ' ')}`));
+    out.push(`ANSWER: ${letters[correctIndex]}`, '');
+    exported++;
+  }
+
+  return { text: out.join('\n'), exported, warnings };
+}
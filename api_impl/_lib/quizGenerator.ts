@@ -0,0 +1,167 @@
+import { GoogleGenAI } from '@google/genai';
+import { aiGatewayGenerateText, getAiGatewayConfig, type AiTextProvider } from './aiGateway';
+
+// Shared by /api/generateQuiz (ephemeral practice quiz) and tests/generateDraft (saved draft test).
+
+export type QuizOptionId = 'A' | 'B' | 'C' | 'D';
+export type QuizOption = { id: QuizOptionId; text: string };
+export type QuizQuestion = { question: string; options: QuizOption[]; correctAnswer: QuizOptionId; explanation: string };
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export const MAX_QUIZ_QUESTIONS = 20;
+
+export type QuizCourseContext = {
+  name?: string;
+  code?: string;
+  term?: string;
+  description?: string;
+};
+
+function isValidOption(o: any): o is QuizOption {
+  return (
+    o &&
+    (o.id === 'A' || o.id === 'B' || o.id === 'C' || o.id === 'D') &&
+    typeof o.text === 'string' &&
+    o.text.trim().length > 0 &&
+    o.text.length <= 300
+  );
+}
+
+export function isValidQuestion(q: any): q is QuizQuestion {
+  if (!q || typeof q.question !== 'string' || q.question.trim().length === 0 || q.question.length > 800) return false;
+  if (!Array.isArray(q.options) || q.options.length !== 4) return false;
+  if (!q.options.every(isValidOption)) return false;
+  const ids = q.options.map((o: any) => o.id);
+  const uniqueIds = new Set(ids);
+  if (uniqueIds.size !== 4) return false;
+  if (!(q.correctAnswer === 'A' || q.correctAnswer === 'B' || q.correctAnswer === 'C' || q.correctAnswer === 'D')) return false;
+  if (typeof q.explanation !== 'string' || q.explanation.trim().length === 0 || q.explanation.length > 3000) return false;
+  return true;
+}
+
+function courseContextLines(course: QuizCourseContext | undefined): string {
+  if (!course) return '';
+  const clip = (v: unknown, max: number) => (typeof v === 'string' ? v.trim().slice(0, max) : '');
+  const lines = [
+    clip(course.name, 200) && `Course: ${clip(course.name, 200)}`,
+    clip(course.code, 50) && `Course code: ${clip(course.code, 50)}`,
+    clip(course.term, 50) && `Term: ${clip(course.term, 50)}`,
+    clip(course.description, 1500) && `Course description: ${clip(course.description, 1500)}`,
+  ].filter(Boolean);
+  if (lines.length === 0) return '';
+  return `\n\nThe questions are for a graded test in this course; keep them within its scope and level:\n${lines.join('\n')}`;
+}
+
+export function buildQuizPrompt(params: {
+  subject: string;
+  topic: string;
+  difficulty: QuizDifficulty;
+  count: number;
+  course?: QuizCourseContext;
+}): string {
+  return `Generate ${params.count} multiple-choice questions about "${params.topic.trim()}" in the subject "${params.subject.trim()}" at ${params.difficulty} difficulty level.${courseContextLines(params.course)}
+
+Requirements:
+1. Each question should have exactly 4 options (A, B, C, D)
+2. Provide the correct answer and a brief explanation
+3. Questions should be educational and accurate
+4. Format the response as a valid JSON array with this exact structure:
+
+[
+  {
+    "question": "The question text here?",
+    "options": [
+      {"id": "A", "text": "Option A text"},
+      {"id": "B", "text": "Option B text"},
+      {"id": "C", "text": "Option C text"},
+      {"id": "D", "text": "Option D text"}
+    ],
+    "correctAnswer": "A",
+    "explanation": "Brief explanation of why this is correct"
+  }
+]
+
+Return ONLY the JSON array, no additional text or markdown formatting.`;
+}
+
+// Prefers AI Gateway when configured, falls back to Gemini.
+export const defaultQuizTextProvider: AiTextProvider = async ({ system, prompt, requestId }) => {
+  let aiText = '';
+
+  const gateway = getAiGatewayConfig();
+  if (gateway.enabled) {
+    try {
+      aiText = await aiGatewayGenerateText({ system, prompt, temperature: 0.2, maxTokens: 2200 });
+    } catch (e: any) {
+      console.error(`[${requestId}] AI Gateway Error:`, e?.message || e);
+    }
+  }
+
+  if (!aiText) {
+    const API_KEY = process.env.GEMINI_API_KEY;
+    if (!API_KEY) {
+      console.error(`[${requestId}] Server Misconfiguration: Missing AI keys (AI_GATEWAY_API_KEY or GEMINI_API_KEY)`);
+      const err = new Error('Internal Server Error');
+      (err as any).status = 500;
+      throw err;
+    }
+
+    const ai = new GoogleGenAI({ apiKey: API_KEY });
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: prompt,
+      });
+
+      // Extract response text defensively
+      aiText = (response as any)?.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+      if (!aiText) console.warn(`[${requestId}] Unexpected response structure`);
+    } catch (aiError: any) {
+      console.error(`[${requestId}] Gemini AI Service Error:`, aiError.message);
+      const err = new Error('AI Service Unavailable');
+      (err as any).status = 502;
+      throw err;
+    }
+  }
+
+  return aiText;
+};
+
+export function parseQuizQuestions(aiText: string): QuizQuestion[] {
+  // Clean up markdown code blocks if present
+  const cleanedText = aiText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+  let questions: any = JSON.parse(cleanedText);
+
+  if (!Array.isArray(questions) || questions.length === 0) throw new Error('Invalid question format');
+  if (questions.length > MAX_QUIZ_QUESTIONS) questions = questions.slice(0, MAX_QUIZ_QUESTIONS);
+  if (!questions.every(isValidQuestion)) throw new Error('Invalid question schema');
+  return questions as QuizQuestion[];
+}
+
+// Errors carry an HTTP status like the rest of _lib.
+export async function generateQuizQuestions(
+  params: { subject: string; topic: string; difficulty: QuizDifficulty; count: number; course?: QuizCourseContext },
+  opts: { provider: AiTextProvider; requestId: string }
+): Promise<QuizQuestion[]> {
+  const aiText = await opts.provider({
+    // Strongly bias for valid JSON output.
+    system: 'Return ONLY valid JSON. Do not wrap in markdown. Do not include commentary.',
+    prompt: buildQuizPrompt(params),
+    requestId: opts.requestId,
+  });
+
+  if (!aiText) {
+    const err = new Error('Empty response from AI');
+    (err as any).status = 500;
+    throw err;
+  }
+
+  try {
+    return parseQuizQuestions(aiText);
+  } catch (parseError: any) {
+    console.error(`[${opts.requestId}] Parse Error:`, parseError.message);
+    const err = new Error('Failed to parse quiz data');
+    (err as any).status = 500;
+    throw err;
+  }
+}
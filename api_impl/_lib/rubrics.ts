@@ -0,0 +1,192 @@
+// Assignment rubrics: criteria with performance levels worth fixed points.
+// Assignments hold a snapshot copy (editing a course template never changes an assignment that uses it),
+// and submissions/grade computes the score from one selected level per criterion.
+
+import { sanitizeFeedback } from './sanitize';
+
+export type RubricLevel = { id: string; label: string; points: number; description?: string };
+
+export type RubricCriterion = { id: string; title: string; description?: string; levels: RubricLevel[] };
+
+export type Rubric = { criteria: RubricCriterion[]; pointsPossible: number };
+
+export type RubricSelection = { criterionId: string; levelId: string; comment?: string };
+
+export type RubricBreakdownRow = {
+  criterionId: string;
+  title: string;
+  levelId: string;
+  levelLabel: string;
+  points: number;
+  maxPoints: number;
+  comment?: string;
+};
+
+const MAX_CRITERIA = 30;
+const MAX_LEVELS = 10;
+const MAX_CRITERION_POINTS = 100_000;
+export const MAX_RUBRIC_COMMENT_LENGTH = 5000;
+
+const ID_RE = /^[A-Za-z0-9_-]{1,40}$/;
+
+function optionalText(v: unknown, max: number): { ok: true; value: string } | { ok: false } {
+  if (v == null) return { ok: true, value: '' };
+  if (typeof v !== 'string' || v.length > max) return { ok: false };
+  return { ok: true, value: v.trim() };
+}
+
+function normalizeLevel(raw: any, index: number): { ok: true; level: RubricLevel } | { ok: false; error: string } {
+  const id = typeof raw?.id === 'string' && raw.id.trim() ? raw.id.trim() : `l${index + 1}`;
+  if (!ID_RE.test(id)) return { ok: false, error: 'Invalid level id' };
+  const label = typeof raw?.label === 'string' ? raw.label.trim() : '';
+  if (!label || label.length > 200) return { ok: false, error: 'Invalid level label' };
+  const points = Number(raw?.points);
+  if (!Number.isFinite(points) || points < 0 || points > MAX_CRITERION_POINTS) return { ok: false, error: 'Invalid level points' };
+  const description = optionalText(raw?.description, 2000);
+  if (!description.ok) return { ok: false, error: 'Invalid level description' };
+  return { ok: true, level: { id, label, points, ...(description.value ? { description: description.value } : {}) } };
+}
+
+function normalizeCriterion(raw: any, index: number): { ok: true; criterion: RubricCriterion } | { ok: false; error: string } {
+  const id = typeof raw?.id === 'string' && raw.id.trim() ? raw.id.trim() : `c${index + 1}`;
+  if (!ID_RE.test(id)) return { ok: false, error: 'Invalid criterion id' };
+  const title = typeof raw?.title === 'string' ? raw.title.trim() : '';
+  if (!title || title.length > 200) return { ok: false, error: 'Invalid criterion title' };
+  const description = optionalText(raw?.description, 2000);
+  if (!description.ok) return { ok: false, error: 'Invalid criterion description' };
+
+  if (!Array.isArray(raw?.levels) || raw.levels.length < 1 || raw.levels.length > MAX_LEVELS) {
+    return { ok: false, error: `Each criterion needs 1-${MAX_LEVELS} levels` };
+  }
+  const levels: RubricLevel[] = [];
+  for (let i = 0; i < raw.levels.length; i++) {
+    const r = normalizeLevel(raw.levels[i], i);
+    if (!r.ok) return r;
+    if (levels.some((l) => l.id === r.level.id)) return { ok: false, error: 'Duplicate level id' };
+    levels.push(r.level);
+  }
+  // Highest level first, which is how rubrics are usually read.
+  levels.sort((a, b) => b.points - a.points);
+
+  return { ok: true, criterion: { id, title, ...(description.value ? { description: description.value } : {}), levels } };
+}
+
+export function criterionMaxPoints(c: RubricCriterion): number {
+  return Math.max(0, ...c.levels.map((l) => l.points));
+}
+
+export function normalizeRubric(input: unknown): { ok: true; rubric: Rubric } | { ok: false; error: string } {
+  const list = (input as any)?.criteria;
+  if (!Array.isArray(list) || list.length === 0) return { ok: false, error: 'Rubric needs at least one criterion' };
+  if (list.length > MAX_CRITERIA) return { ok: false, error: `More than ${MAX_CRITERIA} criteria` };
+
+  const criteria: RubricCriterion[] = [];
+  for (let i = 0; i < list.length; i++) {
+    const r = normalizeCriterion(list[i], i);
+    if (!r.ok) return r;
+    if (criteria.some((c) => c.id === r.criterion.id)) return { ok: false, error: 'Duplicate criterion id' };
+    criteria.push(r.criterion);
+  }
+
+  const pointsPossible = criteria.reduce((sum, c) => sum + criterionMaxPoints(c), 0);
+  return { ok: true, rubric: { criteria, pointsPossible } };
+}
+
+// Stored rubrics were validated on write; this only guards against malformed docs.
+export function rubricFrom(data: any): Rubric | null {
+  if (!data || !Array.isArray(data.criteria) || data.criteria.length === 0) return null;
+  const result = normalizeRubric(data);
+  return result.ok ? result.rubric : null;
+}
+
+// Request-body shape shared by submissions/grade and submissions/submitPeerReview; comments are sanitized here.
+export function parseRubricSelections(input: unknown): { ok: true; selections: RubricSelection[] } | { ok: false; error: string } {
+  if (!Array.isArray(input) || input.length > 100) return { ok: false, error: 'Invalid rubricSelections' };
+  const selections: RubricSelection[] = [];
+  for (const raw of input as any[]) {
+    const criterionId = typeof raw?.criterionId === 'string' ? raw.criterionId.trim() : '';
+    const levelId = typeof raw?.levelId === 'string' ? raw.levelId.trim() : '';
+    const comment = sanitizeFeedback(raw?.comment);
+    if (!criterionId || !levelId) return { ok: false, error: 'Invalid rubricSelections' };
+    if (comment && comment.length > MAX_RUBRIC_COMMENT_LENGTH) return { ok: false, error: 'Invalid rubric comment' };
+    selections.push({ criterionId, levelId, ...(comment ? { comment } : {}) });
+  }
+  return { ok: true, selections };
+}
+
+// Every criterion must be scored exactly once; comments are expected to be sanitized by the caller.
+export function scoreRubric(
+  rubric: Rubric,
+  selections: RubricSelection[]
+): { ok: true; score: number; breakdown: RubricBreakdownRow[] } | { ok: false; error: string } {
+  const byCriterion = new Map<string, RubricSelection>();
+  for (const s of selections) {
+    if (!rubric.criteria.some((c) => c.id === s.criterionId)) return { ok: false, error: `Unknown criterion: ${s.criterionId}` };
+    if (byCriterion.has(s.criterionId)) return { ok: false, error: `Criterion selected twice: ${s.criterionId}` };
+    byCriterion.set(s.criterionId, s);
+  }
+
+  const breakdown: RubricBreakdownRow[] = [];
+  for (const c of rubric.criteria) {
+    const s = byCriterion.get(c.id);
+    if (!s) return { ok: false, error: `Missing selection for criterion: ${c.id}` };
+    const level = c.levels.find((l) => l.id === s.levelId);
+    if (!level) return { ok: false, error: `Unknown level for criterion ${c.id}: ${s.levelId}` };
+    breakdown.push({
+      criterionId: c.id,
+      title: c.title,
+      levelId: level.id,
+      levelLabel: level.label,
+      points: level.points,
+      maxPoints: criterionMaxPoints(c),
+      ...(s.comment ? { comment: s.comment } : {}),
+    });
+  }
+
+  const score = breakdown.reduce((sum, r) => sum + r.points, 0);
+  return { ok: true, score, breakdown };
+}
+
+// Course-level templates live in courses/{courseId}/rubricTemplates; assignments copy them by value.
+export async function loadRubricTemplate(
+  courseRef: FirebaseFirestore.DocumentReference,
+  templateId: string
+): Promise<{ rubric: Rubric; templateRevision: number }> {
+  const snap = await courseRef.collection('rubricTemplates').doc(templateId).get();
+  const data = snap.exists ? (snap.data() as any) : null;
+  const rubric = rubricFrom(data?.rubric);
+  if (!rubric || data?.archived === true) {
+    const err = new Error('Rubric template not found');
+    (err as any).status = 404;
+    throw err;
+  }
+  return { rubric, templateRevision: Number(data?.revision ?? 1) || 1 };
+}
+
+export type AssignmentRubricSource = { templateId: string; templateRevision: number } | null;
+
+// Shared by assignments/create and assignments/setRubric: an inline rubric or a template id, not both.
+export async function resolveAssignmentRubric(
+  courseRef: FirebaseFirestore.DocumentReference,
+  input: { rubric?: unknown; rubricTemplateId?: unknown }
+): Promise<{ rubric: Rubric; source: AssignmentRubricSource } | null> {
+  const templateId = typeof input.rubricTemplateId === 'string' ? input.rubricTemplateId.trim() : '';
+  if (input.rubric != null && templateId) {
+    const err = new Error('Provide either rubric or rubricTemplateId');
+    (err as any).status = 400;
+    throw err;
+  }
+  if (templateId) {
+    const { rubric, templateRevision } = await loadRubricTemplate(courseRef, templateId);
+    return { rubric, source: { templateId, templateRevision } };
+  }
+  if (input.rubric == null) return null;
+
+  const result = normalizeRubric(input.rubric);
+  if (!result.ok) {
+    const err = new Error(result.error);
+    (err as any).status = 400;
+    throw err;
+  }
+  return { rubric: result.rubric, source: null };
+}
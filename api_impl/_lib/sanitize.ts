@@ -12,3 +12,21 @@ export function sanitizeOptionalReason(reason: unknown): string | null {
   if (trimmed.length > 500) return null;
   return trimmed;
 }
+
+// Grader feedback and rubric comments: stored as plain text.
+export function sanitizeFeedback(input?: string): string | undefined {
+  if (typeof input !== 'string') return undefined;
+  let s = input.trim();
+  if (!s) return undefined;
+
+  // Strip common HTML/script payloads and tags; store plaintext only.
+  s = s.replace(/<script[\s\S]*?>[\s\S]*?<\/script>/gi, '');
+  s = s.replace(/<style[\s\S]*?>[\s\S]*?<\/style>/gi, '');
+  s = s.replace(/<[^>]+>/g, '');
+
+  // Remove control chars (except newlines/tabs) and normalize whitespace.
+  s = s.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '');
+  s = s.trim();
+
+  return s || undefined;
+}
@@ -0,0 +1,287 @@
+// Local similarity detection for submissions (submissions/similarity). Pure functions, no I/O.
+// Both modes fingerprint k-grams of tokens with winnowing (Schleimer et al., as used by MOSS):
+// - text: lowercased words, so reflowed or re-punctuated copies still match;
+// - c: C tokens with identifiers, literals and comments normalized away, so renamed variables and
+//   reformatting do not hide a copy.
+// Matched spans are reported as character offsets into the original text.
+
+export type SimilarityMode = 'text' | 'c';
+
+type Token = { value: string; start: number; end: number };
+
+export type Fingerprinted = { tokens: Token[]; positions: Map<number, number[]> };
+
+export type MatchedSpan = {
+  a: { start: number; end: number };
+  b: { start: number; end: number };
+  tokens: number;
+};
+
+export type SimilarityPair = {
+  a: number;
+  b: number;
+  score: number; // shared fingerprints / fingerprints of the smaller submission
+  sharedFingerprints: number;
+  coverageA: number; // share of A's tokens inside matched spans
+  coverageB: number;
+  spans: MatchedSpan[];
+};
+
+const PARAMS: Record<SimilarityMode, { k: number; w: number }> = {
+  text: { k: 5, w: 4 },
+  c: { k: 10, w: 5 },
+};
+
+const MAX_SPANS_PER_PAIR = 20;
+const MAX_POSITIONS_PER_HASH = 4;
+
+const C_KEYWORDS = new Set([
+  'auto', 'break', 'case', 'char', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extern',
+  'float', 'for', 'goto', 'if', 'inline', 'int', 'long', 'register', 'restrict', 'return', 'short', 'signed',
+  'sizeof', 'static', 'struct', 'switch', 'typedef', 'union', 'unsigned', 'void', 'volatile', 'while',
+  'include', 'define', 'NULL',
+]);
+
+// Library calls are rarely renamed, so keeping them makes code matches more specific.
+const C_LIBRARY_NAMES = new Set([
+  'printf', 'scanf', 'puts', 'gets', 'fgets', 'getchar', 'putchar', 'fprintf', 'fscanf', 'sprintf',
+  'fopen', 'fclose', 'malloc', 'calloc', 'realloc', 'free', 'strlen', 'strcpy', 'strcmp', 'strcat',
+  'memcpy', 'memset', 'exit', 'main',
+]);
+
+const C_OPERATORS = ['<<=', '>>=', '...', '->', '++', '--', '<=', '>=', '==', '!=', '&&', '||', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<', '>>'];
+
+function tokenizeText(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const m of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = m.index ?? 0;
+    tokens.push({ value: m[0].toLowerCase(), start, end: start + m[0].length });
+  }
+  return tokens;
+}
+
+function tokenizeC(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const push = (value: string, start: number, end: number) => tokens.push({ value, start, end });
+
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (src.startsWith('//', i)) {
+      const nl = src.indexOf('\n', i);
+      i = nl < 0 ? src.length : nl + 1;
+      continue;
+    }
+    if (src.startsWith('/*', i)) {
+      const close = src.indexOf('*/', i + 2);
+      i = close < 0 ? src.length : close + 2;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < src.length && src[j] !== ch && src[j] !== '\n') j += src[j] === '\\' ? 2 : 1;
+      const end = Math.min(src.length, j + 1);
+      push(ch === '"' ? 'STR' : 'CHR', i, end);
+      i = end;
+      continue;
+    }
+    const num = /^(?:0[xX][0-9a-fA-F]+|\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)[uUlLfF]*/.exec(src.slice(i, i + 64));
+    if (num) {
+      push('NUM', i, i + num[0].length);
+      i += num[0].length;
+      continue;
+    }
+    const ident = /^[A-Za-z_]\w*/.exec(src.slice(i, i + 256));
+    if (ident) {
+      const word = ident[0];
+      push(C_KEYWORDS.has(word) || C_LIBRARY_NAMES.has(word) ? word : 'ID', i, i + word.length);
+      i += word.length;
+      continue;
+    }
+    const op = C_OPERATORS.find((o) => src.startsWith(o, i)) ?? ch;
+    push(op, i, i + op.length);
+    i += op.length;
+  }
+  return tokens;
+}
+
+export function tokenize(text: string, mode: SimilarityMode): Token[] {
+  return mode === 'c' ? tokenizeC(text) : tokenizeText(text);
+}
+
+// Cheap per-submission guess; the caller decides the mode for the whole assignment.
+export function looksLikeC(text: string): boolean {
+  if (/#\s*include\s*[<"]/.test(text) || /\bint\s+main\s*\(/.test(text)) return true;
+  const semis = (text.match(/;/g) ?? []).length;
+  const braces = (text.match(/[{}]/g) ?? []).length;
+  const words = (text.match(/[A-Za-z]+/g) ?? []).length;
+  return words > 0 && semis + braces > words / 5;
+}
+
+// 32-bit FNV-1a over the k-gram's token values.
+function hashGram(tokens: Token[], from: number, k: number): number {
+  let h = 0x811c9dc5;
+  for (let t = from; t < from + k; t++) {
+    const v = tokens[t].value;
+    for (let c = 0; c < v.length; c++) {
+      h ^= v.charCodeAt(c);
+      h = Math.imul(h, 0x01000193);
+    }
+    h ^= 0x1f;
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function fingerprint(text: string, mode: SimilarityMode): Fingerprinted {
+  const { k, w } = PARAMS[mode];
+  const tokens = tokenize(text, mode);
+  const positions = new Map<number, number[]>();
+  const gramCount = tokens.length - k + 1;
+  if (gramCount <= 0) return { tokens, positions };
+
+  const hashes: number[] = [];
+  for (let i = 0; i < gramCount; i++) hashes.push(hashGram(tokens, i, k));
+
+  const record = (pos: number) => {
+    const list = positions.get(hashes[pos]) ?? [];
+    if (list[list.length - 1] !== pos) list.push(pos);
+    positions.set(hashes[pos], list);
+  };
+
+  // Winnowing: the minimum hash of every window of w consecutive grams (rightmost on ties).
+  const windows = Math.max(1, gramCount - w + 1);
+  let last = -1;
+  for (let start = 0; start < windows; start++) {
+    const end = Math.min(gramCount, start + w);
+    let min = start;
+    for (let i = start + 1; i < end; i++) if (hashes[i] <= hashes[min]) min = i;
+    if (min !== last) {
+      record(min);
+      last = min;
+    }
+  }
+  return { tokens, positions };
+}
+
+function gramsEqual(a: Token[], i: number, b: Token[], j: number, k: number): boolean {
+  for (let t = 0; t < k; t++) if (a[i + t]?.value !== b[j + t]?.value) return false;
+  return true;
+}
+
+function coverage(spans: Array<{ from: number; to: number }>, total: number): number {
+  if (total === 0) return 0;
+  const sorted = [...spans].sort((x, y) => x.from - y.from);
+  let covered = 0;
+  let reach = -1;
+  for (const s of sorted) {
+    const from = Math.max(s.from, reach);
+    if (s.to > from) covered += s.to - from;
+    reach = Math.max(reach, s.to);
+  }
+  return Math.round((covered / total) * 1000) / 1000;
+}
+
+// Extends every shared fingerprint into the longest identical token run and keeps the longest
+// non-overlapping runs.
+export function matchedSpans(A: Fingerprinted, B: Fingerprinted, shared: number[], mode: SimilarityMode) {
+  const { k } = PARAMS[mode];
+  const runs: Array<{ i: number; j: number; len: number }> = [];
+  const seen = new Set<string>();
+
+  for (const h of shared) {
+    for (const pa of (A.positions.get(h) ?? []).slice(0, MAX_POSITIONS_PER_HASH)) {
+      for (const pb of (B.positions.get(h) ?? []).slice(0, MAX_POSITIONS_PER_HASH)) {
+        if (!gramsEqual(A.tokens, pa, B.tokens, pb, k)) continue; // hash collision
+        let i = pa;
+        let j = pb;
+        while (i > 0 && j > 0 && A.tokens[i - 1].value === B.tokens[j - 1].value) {
+          i--;
+          j--;
+        }
+        const key = `${i}:${j}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        let len = 0;
+        while (i + len < A.tokens.length && j + len < B.tokens.length && A.tokens[i + len].value === B.tokens[j + len].value) len++;
+        runs.push({ i, j, len });
+      }
+    }
+  }
+
+  runs.sort((x, y) => y.len - x.len);
+  const kept: typeof runs = [];
+  for (const r of runs) {
+    const overlaps = kept.some((q) => r.i < q.i + q.len && q.i < r.i + r.len);
+    if (!overlaps) kept.push(r);
+  }
+
+  const coverageA = coverage(kept.map((r) => ({ from: r.i, to: r.i + r.len })), A.tokens.length);
+  const coverageB = coverage(kept.map((r) => ({ from: r.j, to: r.j + r.len })), B.tokens.length);
+  const spans: MatchedSpan[] = kept.slice(0, MAX_SPANS_PER_PAIR).map((r) => ({
+    a: { start: A.tokens[r.i].start, end: A.tokens[r.i + r.len - 1].end },
+    b: { start: B.tokens[r.j].start, end: B.tokens[r.j + r.len - 1].end },
+    tokens: r.len,
+  }));
+  return { spans, coverageA, coverageB };
+}
+
+// Ranks all pairs by shared fingerprints. Fingerprints found in too many submissions (starter code,
+// the question text) or in `ignore` carry no signal and are dropped before counting.
+export function rankSimilarPairs(
+  docs: Fingerprinted[],
+  mode: SimilarityMode,
+  opts: { minScore: number; limit: number; ignore?: Fingerprinted | null }
+): SimilarityPair[] {
+  const n = docs.length;
+  const maxDocFrequency = n < 4 ? n : Math.max(2, Math.floor(n / 2));
+  const ignored = new Set(opts.ignore ? opts.ignore.positions.keys() : []);
+
+  const docsByHash = new Map<number, number[]>();
+  docs.forEach((d, idx) => {
+    for (const h of d.positions.keys()) {
+      if (ignored.has(h)) continue;
+      const list = docsByHash.get(h) ?? [];
+      list.push(idx);
+      docsByHash.set(h, list);
+    }
+  });
+
+  const sharedByPair = new Map<number, number[]>();
+  for (const [h, list] of docsByHash) {
+    if (list.length < 2 || list.length > maxDocFrequency) continue;
+    for (let x = 0; x < list.length; x++) {
+      for (let y = x + 1; y < list.length; y++) {
+        const key = list[x] * n + list[y];
+        const shared = sharedByPair.get(key) ?? [];
+        shared.push(h);
+        sharedByPair.set(key, shared);
+      }
+    }
+  }
+
+  const usable = (d: Fingerprinted) => [...d.positions.keys()].filter((h) => !ignored.has(h)).length;
+  const sizes = docs.map(usable);
+
+  const candidates: Array<{ a: number; b: number; score: number; shared: number[] }> = [];
+  for (const [key, shared] of sharedByPair) {
+    const a = Math.floor(key / n);
+    const b = key % n;
+    const denom = Math.min(sizes[a], sizes[b]);
+    const score = denom > 0 ? Math.round((shared.length / denom) * 1000) / 1000 : 0;
+    if (score >= opts.minScore) candidates.push({ a, b, score, shared });
+  }
+  candidates.sort((x, y) => y.score - x.score || y.shared.length - x.shared.length);
+
+  return candidates.slice(0, opts.limit).map((c) => ({
+    a: c.a,
+    b: c.b,
+    score: c.score,
+    sharedFingerprints: c.shared.length,
+    ...matchedSpans(docs[c.a], docs[c.b], c.shared, mode),
+  }));
+}
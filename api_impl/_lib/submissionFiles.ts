@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { ensureFirebaseAdminApp } from './firebaseAdmin';
+
+// File submissions: the client asks submissions/requestUpload for a ticket, uploads straight to Storage
+// (storage.rules checks the ticket), then attaches the upload in submissions/submit, which re-checks
+// the stored object's size and type and records its checksum. Every upload gets its own path, so a
+// resubmission never overwrites an earlier file.
+
+// Hard ceiling, mirrored by storage.rules; an assignment's maxBytes can only go lower.
+export const MAX_SUBMISSION_FILE_BYTES = 25 * 1024 * 1024;
+export const MAX_FILES_PER_SUBMISSION = 10;
+export const UPLOAD_TICKET_TTL_MS = 60 * 60 * 1000;
+
+export const DEFAULT_ALLOWED_MIME_TYPES: readonly string[] = [
+  'application/pdf',
+  'application/zip',
+  'text/plain',
+  'image/png',
+  'image/jpeg',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+export type FileSubmissionSpec = { type: 'file'; maxBytes: number; allowedMimeTypes: string[]; maxFiles: number };
+
+export type SubmissionFile = {
+  uploadId: string;
+  path: string;
+  fileName: string; // original name, as the student chose it
+  contentType: string;
+  sizeBytes: number;
+  sha256: string;
+  md5Hash: string | null; // as reported by Storage
+};
+
+const MIME_RE = /^[a-z]+\/[a-z0-9.+-]{1,100}$/;
+
+export function normalizeFileSpec(input: any): { ok: true; spec: FileSubmissionSpec } | { ok: false; error: string } {
+  const maxBytes = Number(input?.maxBytes ?? MAX_SUBMISSION_FILE_BYTES);
+  if (!Number.isInteger(maxBytes) || maxBytes < 1 || maxBytes > MAX_SUBMISSION_FILE_BYTES) {
+    return { ok: false, error: 'Invalid maxBytes' };
+  }
+  const maxFiles = Number(input?.maxFiles ?? 1);
+  if (!Number.isInteger(maxFiles) || maxFiles < 1 || maxFiles > MAX_FILES_PER_SUBMISSION) {
+    return { ok: false, error: 'Invalid maxFiles' };
+  }
+
+  const rawTypes = input?.allowedMimeTypes == null ? DEFAULT_ALLOWED_MIME_TYPES : input.allowedMimeTypes;
+  if (!Array.isArray(rawTypes) || rawTypes.length === 0 || rawTypes.length > 30) {
+    return { ok: false, error: 'Invalid allowedMimeTypes' };
+  }
+  const allowedMimeTypes = Array.from(new Set(rawTypes.map((t: unknown) => (typeof t === 'string' ? t.trim().toLowerCase() : ''))));
+  if (!allowedMimeTypes.every((t) => MIME_RE.test(t))) return { ok: false, error: 'Invalid allowedMimeTypes' };
+
+  return { ok: true, spec: { type: 'file', maxBytes, allowedMimeTypes, maxFiles } };
+}
+
+export function fileSpecFrom(assignment: any): FileSubmissionSpec | null {
+  if (assignment?.submissionSpec?.type !== 'file') return null;
+  const result = normalizeFileSpec(assignment.submissionSpec);
+  return result.ok ? result.spec : null;
+}
+
+export function normalizeContentType(v: unknown): string {
+  // Drop parameters such as "; charset=utf-8".
+  return typeof v === 'string' ? v.split(';')[0].trim().toLowerCase() : '';
+}
+
+// Storage object names keep a sanitized copy of the name; the original is stored on the submission.
+export function safeStorageFileName(fileName: string): string {
+  const base = fileName.replace(/^.*[\\/]/, '');
+  const cleaned = base
+    .replace(/[^a-zA-Z0-9 ._()-]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(-120);
+  return cleaned && !/^\.+$/.test(cleaned) ? cleaned : 'file';
+}
+
+export function submissionFilePath(params: {
+  courseId: string;
+  assignmentId: string;
+  userId: string;
+  uploadId: string;
+  safeName: string;
+}): string {
+  return `courses/${params.courseId}/assignments/${params.assignmentId}/submissions/${params.userId}/${params.uploadId}/${params.safeName}`;
+}
+
+export function submissionBucket() {
+  const admin = ensureFirebaseAdminApp();
+  const isProd = process.env.NODE_ENV === 'production';
+  const name = process.env.FIREBASE_STORAGE_BUCKET || (!isProd ? process.env.VITE_FIREBASE_STORAGE_BUCKET : undefined);
+  if (!name) {
+    throw new Error('Firebase Admin Init Error: Missing FIREBASE_STORAGE_BUCKET');
+  }
+  return admin.storage().bucket(name);
+}
+
+// Checks the object that actually landed in Storage (not what the client declared) and hashes it.
+export async function verifyUploadedFile(
+  path: string,
+  spec: FileSubmissionSpec
+): Promise<{ contentType: string; sizeBytes: number; sha256: string; md5Hash: string | null }> {
+  const file = submissionBucket().file(path);
+  const [exists] = await file.exists();
+  if (!exists) {
+    const err = new Error('Uploaded file not found');
+    (err as any).status = 409;
+    throw err;
+  }
+
+  const [metadata] = await file.getMetadata();
+  const sizeBytes = Number(metadata?.size ?? NaN);
+  const contentType = normalizeContentType(metadata?.contentType);
+  if (!Number.isFinite(sizeBytes) || sizeBytes <= 0 || sizeBytes > spec.maxBytes) {
+    const err = new Error('File exceeds the assignment size limit');
+    (err as any).status = 413;
+    throw err;
+  }
+  if (!spec.allowedMimeTypes.includes(contentType)) {
+    const err = new Error('File type is not allowed for this assignment');
+    (err as any).status = 415;
+    throw err;
+  }
+
+  const hash = crypto.createHash('sha256');
+  await new Promise<void>((resolve, reject) => {
+    file
+      .createReadStream()
+      .on('data', (chunk: Buffer) => hash.update(chunk))
+      .on('end', () => resolve())
+      .on('error', reject);
+  });
+
+  return {
+    contentType,
+    sizeBytes,
+    sha256: hash.digest('hex'),
+    md5Hash: typeof metadata?.md5Hash === 'string' ? metadata.md5Hash : null,
+  };
+}
@@ -0,0 +1,236 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { emitDomainEvent } from './domainEvents';
+import { gradeForm, questionMapFrom, scoringPolicyFrom, testPointsPossible, type AnswerValue } from './testQuestions';
+import { integrityCountsFrom, type IntegrityCounts } from './attemptIntegrity';
+import { gradeReleaseFrom, readGradebookInTx, releaseAccounting } from './gradeRelease';
+import { gradeCategoryFor, readGradingSchemeInTx } from './gradingScheme';
+import { appendGradeHistoryInTx, gradeValueFrom } from './gradeHistory';
+
+// Shared by tests/submitAttempt (student submit) and tests/finalizeExpired (sweep of abandoned
+// attempts) so both write attempts, grades and gradebook totals exactly the same way.
+
+export type GradedAttempt = {
+  userId: string;
+  score: number;
+  pointsPossible: number;
+  isAssessed: boolean;
+  // Assessed tests with gradeRelease 'held': the student is not shown the score until release.
+  held: boolean;
+  gradeId: string | null;
+  gradeRevision: number | null;
+  testVersion: number;
+  autoSubmitted: boolean;
+  // Scheduled tests only: client-reported integrity signal totals (tests/reportIntegrity).
+  integrity: IntegrityCounts | null;
+};
+
+// Only assessed tests write grades, so only their grades can be held; practice tests ignore gradeRelease.
+export function testGradesHeld(test: any): boolean {
+  const isAssessed = test?.isAssessed === true || test?.mode === 'scheduled';
+  return isAssessed && gradeReleaseFrom(test) === 'held';
+}
+
+// Call after the transaction has read (and checked) the test + attempt docs; this does the
+// remaining reads and then all writes, so nothing else may be read in the transaction afterwards.
+export async function gradeAttemptInTx(
+  tx: FirebaseFirestore.Transaction,
+  args: {
+    courseRef: FirebaseFirestore.DocumentReference;
+    testRef: FirebaseFirestore.DocumentReference;
+    attemptRef: FirebaseFirestore.DocumentReference;
+    test: any;
+    attempt: any;
+    answers: Record<string, AnswerValue>;
+    autoSubmitted: boolean;
+  }
+): Promise<GradedAttempt> {
+  const { courseRef, testRef, attemptRef, test, attempt, answers, autoSubmitted } = args;
+  const testId = testRef.id;
+  const userId = String(attempt?.userId ?? '');
+
+  const testVersion = Number(attempt?.testVersion ?? 1);
+  const formSnapshot = Array.isArray(attempt?.formSnapshot) ? (attempt.formSnapshot as any[]) : [];
+  if (!userId || !Number.isFinite(testVersion) || formSnapshot.length === 0) {
+    const err = new Error('Invalid attempt state');
+    (err as any).status = 500;
+    throw err;
+  }
+
+  const versionRef = testRef.collection('versions').doc(String(testVersion));
+  const versionSnap = await tx.get(versionRef);
+  if (!versionSnap.exists) {
+    const err = new Error('Test version not found');
+    (err as any).status = 500;
+    throw err;
+  }
+
+  // Autosaved answers fill in anything the final POST omits (e.g. after a crash + resume).
+  const savedAnswers = attempt?.savedAnswers && typeof attempt.savedAnswers === 'object' ? attempt.savedAnswers : {};
+  const questionById = questionMapFrom(versionSnap.data());
+  const scoringPolicy = scoringPolicyFrom(test);
+  const { score, unclampedScore, breakdown, answersSnapshot } = gradeForm(
+    formSnapshot,
+    questionById,
+    { ...savedAnswers, ...answers },
+    scoringPolicy
+  );
+
+  const pointsPossible = testPointsPossible(test, versionSnap.data(), score);
+  const isAssessed = test?.isAssessed === true || test?.mode === 'scheduled';
+  const held = testGradesHeld(test);
+
+  const gradeId = `test_${testId}_${userId}`;
+  const gradeRef = courseRef.collection('grades').doc(gradeId);
+  const gradebookRef = courseRef.collection('gradebook').doc(userId);
+
+  const gradeSnapBefore = isAssessed ? await tx.get(gradeRef) : null;
+  const gb = isAssessed ? await readGradebookInTx(tx, courseRef, userId) : {};
+  const scheme = isAssessed ? await readGradingSchemeInTx(tx, courseRef) : null;
+
+  tx.set(
+    attemptRef,
+    {
+      status: 'graded',
+      submittedAt: FieldValue.serverTimestamp(),
+      answersSnapshot,
+      score,
+      unclampedScore,
+      breakdown,
+      scoringPolicy,
+      autoSubmitted,
+      gradedAt: FieldValue.serverTimestamp(),
+      gradedBy: 'system',
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  let gradeRevision = 0;
+  if (isAssessed) {
+    const existedBefore = !!gradeSnapBefore?.exists;
+    const priorRevision = existedBefore ? Number((gradeSnapBefore!.data() as any)?.gradeRevision ?? 0) : 0;
+    gradeRevision = Number.isFinite(priorRevision) ? priorRevision + 1 : 1;
+
+    const { gradeFields, gradebookFields } = releaseAccounting({
+      gradeId,
+      category: gradeCategoryFor(test, 'test'),
+      scheme,
+      gradeBefore: existedBefore ? gradeSnapBefore!.data() : null,
+      gradebook: gb,
+      score,
+      pointsPossible,
+      held,
+    });
+
+    tx.set(
+      gradeRef,
+      {
+        studentId: userId,
+        sourceType: 'test',
+        sourceId: testId,
+        sourceVersion: testVersion,
+        score,
+        pointsPossible,
+        ...gradeFields,
+        gradedAt: FieldValue.serverTimestamp(),
+        gradedBy: 'system',
+        gradeRevision,
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+
+    tx.set(
+      gradebookRef,
+      {
+        studentId: userId,
+        ...gradebookFields,
+        computedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+        updatedAtBy: 'system',
+      },
+      { merge: true }
+    );
+
+    appendGradeHistoryInTx(tx, gradeRef, {
+      studentId: userId,
+      sourceType: 'test',
+      sourceId: testId,
+      gradeRevision,
+      source: 'test_attempt',
+      actorUid: 'system',
+      from: gradeValueFrom(existedBefore ? gradeSnapBefore!.data() : null),
+      to: { score, pointsPossible, released: gradeFields.released },
+      reason: null,
+      details: { attemptId: attemptRef.id, testVersion, autoSubmitted },
+    });
+  }
+
+  return {
+    userId,
+    score,
+    pointsPossible,
+    isAssessed,
+    held,
+    gradeId: isAssessed ? gradeId : null,
+    gradeRevision: isAssessed ? gradeRevision : null,
+    testVersion,
+    autoSubmitted,
+    integrity: test?.mode === 'scheduled' ? integrityCountsFrom(attempt?.integrityCounts) : null,
+  };
+}
+
+// Idempotency keys are the same for student and sweep submissions, so an attempt is only ever
+// announced once no matter which path graded it.
+export async function emitAttemptGradedEvents(args: {
+  courseId: string;
+  testId: string;
+  attemptId: string;
+  result: GradedAttempt;
+  actorUid: string;
+  actorRole: string;
+  requestId: string;
+}) {
+  const { courseId, testId, attemptId, result, actorUid, actorRole, requestId } = args;
+
+  await emitDomainEvent({
+    type: 'test.attempt.submitted',
+    courseId,
+    actorUid,
+    actorRole,
+    aggregate: { kind: 'attempt', id: attemptId, version: result.testVersion },
+    payload: {
+      courseId,
+      testId,
+      attemptId,
+      studentId: result.userId,
+      testVersion: result.testVersion,
+      score: result.score,
+      autoSubmitted: result.autoSubmitted,
+      ...(result.integrity ? { integrity: result.integrity } : {}),
+    },
+    idempotencyKey: `test.attempt.submitted:${courseId}:${testId}:${attemptId}:v${result.testVersion}`,
+    requestId,
+  });
+
+  if (result.isAssessed && result.gradeId && result.gradeRevision != null) {
+    await emitDomainEvent({
+      type: 'grade.mutated',
+      courseId,
+      actorUid,
+      actorRole,
+      aggregate: { kind: 'grade', id: result.gradeId, version: result.gradeRevision },
+      payload: {
+        courseId,
+        sourceType: 'test',
+        sourceId: testId,
+        studentId: result.userId,
+        score: result.score,
+        pointsPossible: result.pointsPossible,
+        autoSubmitted: result.autoSubmitted,
+      },
+      idempotencyKey: `grade.mutated:test:${courseId}:${testId}:${result.userId}:r${result.gradeRevision}`,
+      requestId,
+    });
+  }
+}
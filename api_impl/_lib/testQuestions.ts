@@ -0,0 +1,559 @@
+// Server-side test question schema: validation (used by tests/create and friends)
+// and per-question scoring (used by tests/submitAttempt). Version docs hold answer keys,
+// so nothing in here may be sent to students verbatim.
+
+export type QuestionOption = { id: string; text: string };
+
+export type McqQuestion = {
+  id: string;
+  type: 'mcq';
+  prompt: string;
+  options: QuestionOption[];
+  correctOptionId: string;
+  points: number;
+  explanation?: string; // shown in tests/reviewAttempt once the review policy allows
+};
+
+export type MultiSelectQuestion = {
+  id: string;
+  type: 'multi_select';
+  prompt: string;
+  options: QuestionOption[];
+  correctOptionIds: string[];
+  scoring: 'all_or_nothing' | 'proportional';
+  points: number;
+  explanation?: string;
+};
+
+export type TrueFalseQuestion = {
+  id: string;
+  type: 'true_false';
+  prompt: string;
+  options: QuestionOption[]; // always [{ id: 'true' }, { id: 'false' }]
+  correctOptionId: 'true' | 'false';
+  points: number;
+  explanation?: string;
+};
+
+export type NumericQuestion = {
+  id: string;
+  type: 'numeric';
+  prompt: string;
+  correctValue: number;
+  tolerance: { absolute: number; relative: number };
+  points: number;
+  explanation?: string;
+};
+
+export type ShortAnswerQuestion = {
+  id: string;
+  type: 'short_answer';
+  prompt: string;
+  acceptedAnswers: string[];
+  caseSensitive: boolean;
+  points: number;
+  explanation?: string;
+};
+
+export type TestQuestion = McqQuestion | MultiSelectQuestion | TrueFalseQuestion | NumericQuestion | ShortAnswerQuestion;
+
+export type QuestionType = TestQuestion['type'];
+
+export const QUESTION_TYPES: readonly QuestionType[] = ['mcq', 'multi_select', 'true_false', 'numeric', 'short_answer'];
+
+// What a student may send for one question: an option id, a list of option ids, a number or free text.
+export type AnswerValue = string | string[] | number;
+
+export type QuestionScore = { correct: boolean; pointsAwarded: number };
+
+const MAX_QUESTIONS = 200;
+export const MAX_OPTIONS = 10;
+const MAX_ACCEPTED_ANSWERS = 20;
+const MAX_SHORT_ANSWER_LENGTH = 500;
+const MAX_EXPLANATION_LENGTH = 5000;
+
+const TRUE_FALSE_OPTIONS: QuestionOption[] = [
+  { id: 'true', text: 'True' },
+  { id: 'false', text: 'False' },
+];
+
+function questionOptionsFrom(raw: any): QuestionOption[] {
+  const optionsRaw: any[] = Array.isArray(raw?.options) ? raw.options : [];
+  return optionsRaw
+    .map((o: any) => ({
+      id: typeof o?.id === 'string' ? o.id.trim() : '',
+      text: typeof o?.text === 'string' ? o.text.trim() : '',
+    }))
+    .filter((o) => o.id && o.text)
+    .slice(0, MAX_OPTIONS);
+}
+
+export function normalizeShortAnswer(s: string, caseSensitive: boolean): string {
+  const collapsed = s.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+}
+
+export function validateQuestion(raw: any): { ok: true; question: TestQuestion } | { ok: false; error: string } {
+  const id = typeof raw?.id === 'string' ? raw.id.trim() : '';
+  const type = raw?.type;
+  const prompt = typeof raw?.prompt === 'string' ? raw.prompt.trim() : '';
+  const points = Number(raw?.points ?? 1);
+
+  if (!id || id.length > 80) return { ok: false, error: 'Invalid question id' };
+  if (!QUESTION_TYPES.includes(type)) return { ok: false, error: 'Unsupported question type' };
+  if (!prompt || prompt.length > 5000) return { ok: false, error: 'Invalid prompt' };
+  if (!Number.isFinite(points) || points <= 0 || points > 1000) return { ok: false, error: 'Invalid points' };
+  if (raw?.explanation != null && (typeof raw.explanation !== 'string' || raw.explanation.length > MAX_EXPLANATION_LENGTH)) {
+    return { ok: false, error: 'Invalid explanation' };
+  }
+  const explanation = typeof raw?.explanation === 'string' ? raw.explanation.trim() : '';
+  // Firestore rejects undefined fields, so only carry the key when there is text.
+  const extra = explanation ? { explanation } : {};
+
+  if (type === 'mcq') {
+    const options = questionOptionsFrom(raw);
+    const correctOptionId = typeof raw?.correctOptionId === 'string' ? raw.correctOptionId.trim() : '';
+    if (options.length < 2) return { ok: false, error: 'MCQ requires at least 2 options' };
+    if (!options.some((o) => o.id === correctOptionId)) return { ok: false, error: 'correctOptionId must match an option' };
+    return { ok: true, question: { id, type, prompt, options, correctOptionId, points, ...extra } };
+  }
+
+  if (type === 'multi_select') {
+    const options = questionOptionsFrom(raw);
+    const correctRaw: any[] = Array.isArray(raw?.correctOptionIds) ? raw.correctOptionIds : [];
+    const correctOptionIds = Array.from(
+      new Set(correctRaw.map((x) => (typeof x === 'string' ? x.trim() : '')).filter(Boolean))
+    );
+    const scoring = raw?.scoring === 'proportional' ? 'proportional' : 'all_or_nothing';
+    if (options.length < 2) return { ok: false, error: 'Multi-select requires at least 2 options' };
+    if (correctOptionIds.length === 0) return { ok: false, error: 'Multi-select requires at least 1 correct option' };
+    if (!correctOptionIds.every((cid) => options.some((o) => o.id === cid))) {
+      return { ok: false, error: 'correctOptionIds must match options' };
+    }
+    return { ok: true, question: { id, type, prompt, options, correctOptionIds, scoring, points, ...extra } };
+  }
+
+  if (type === 'true_false') {
+    const correct = raw?.correctOptionId ?? raw?.correctAnswer;
+    const correctOptionId = correct === true || correct === 'true' ? 'true' : correct === false || correct === 'false' ? 'false' : null;
+    if (!correctOptionId) return { ok: false, error: 'True/false requires correctOptionId of "true" or "false"' };
+    return {
+      ok: true,
+      question: { id, type, prompt, options: TRUE_FALSE_OPTIONS.map((o) => ({ ...o })), correctOptionId, points, ...extra },
+    };
+  }
+
+  if (type === 'numeric') {
+    const correctValue = Number(raw?.correctValue);
+    const absolute = Number(raw?.tolerance?.absolute ?? 0);
+    const relative = Number(raw?.tolerance?.relative ?? 0);
+    if (raw?.correctValue == null || !Number.isFinite(correctValue)) return { ok: false, error: 'Invalid correctValue' };
+    if (!Number.isFinite(absolute) || absolute < 0) return { ok: false, error: 'Invalid absolute tolerance' };
+    if (!Number.isFinite(relative) || relative < 0 || relative > 1) return { ok: false, error: 'Invalid relative tolerance' };
+    return { ok: true, question: { id, type, prompt, correctValue, tolerance: { absolute, relative }, points, ...extra } };
+  }
+
+  // short_answer
+  const caseSensitive = raw?.caseSensitive === true;
+  const acceptedRaw: any[] = Array.isArray(raw?.acceptedAnswers) ? raw.acceptedAnswers : [];
+  const acceptedAnswers = Array.from(
+    new Set(
+      acceptedRaw
+        .map((x) => (typeof x === 'string' ? x.trim() : ''))
+        .filter((x) => x && x.length <= MAX_SHORT_ANSWER_LENGTH)
+    )
+  ).slice(0, MAX_ACCEPTED_ANSWERS);
+  if (acceptedAnswers.length === 0) return { ok: false, error: 'Short answer requires at least 1 accepted answer' };
+  return { ok: true, question: { id, type: 'short_answer', prompt, acceptedAnswers, caseSensitive, points, ...extra } };
+}
+
+export type RejectedQuestion = { index: number; error: string };
+
+// Same rules as normalizeQuestions, but reports what was dropped (by input index) instead of
+// silently skipping it. Importers use this to point authors at the offending line.
+export function validateQuestions(input: unknown): {
+  questions: TestQuestion[];
+  pointsPossible: number;
+  rejected: RejectedQuestion[];
+} {
+  const list = Array.isArray(input) ? (input as any[]) : [];
+  const questions: TestQuestion[] = [];
+  const rejected: RejectedQuestion[] = [];
+  const seenIds = new Set<string>();
+
+  let total = 0;
+  for (let index = 0; index < list.length; index++) {
+    const result = validateQuestion(list[index]);
+    if (!result.ok) {
+      rejected.push({ index, error: result.error });
+      continue;
+    }
+    if (seenIds.has(result.question.id)) {
+      rejected.push({ index, error: 'Duplicate question id' });
+      continue;
+    }
+    if (questions.length >= MAX_QUESTIONS) {
+      rejected.push({ index, error: `More than ${MAX_QUESTIONS} questions` });
+      continue;
+    }
+
+    seenIds.add(result.question.id);
+    total += result.question.points;
+    questions.push(result.question);
+  }
+
+  return { questions, pointsPossible: total, rejected };
+}
+
+export function normalizeQuestions(input: unknown): { questions: TestQuestion[]; pointsPossible: number } {
+  const { questions, pointsPossible } = validateQuestions(input);
+  return { questions, pointsPossible };
+}
+
+export function questionOptionIds(q: TestQuestion): string[] {
+  return 'options' in q && Array.isArray(q.options) ? q.options.map((o) => String(o.id)) : [];
+}
+
+// Coerce a raw client answer into the shape the question type expects.
+// Option-based answers must be among `allowedOptionIds` (the attempt's formSnapshot); anything else is dropped.
+export function sanitizeAnswer(q: TestQuestion, raw: unknown, allowedOptionIds: string[]): AnswerValue | null {
+  if (q.type === 'mcq' || q.type === 'true_false') {
+    const selected = typeof raw === 'string' ? raw.trim() : '';
+    return selected && allowedOptionIds.includes(selected) ? selected : null;
+  }
+
+  if (q.type === 'multi_select') {
+    const list = Array.isArray(raw) ? raw : typeof raw === 'string' ? [raw] : [];
+    const selected = Array.from(
+      new Set(list.map((x) => (typeof x === 'string' ? x.trim() : '')).filter((x) => x && allowedOptionIds.includes(x)))
+    );
+    return selected.length ? selected : null;
+  }
+
+  if (q.type === 'numeric') {
+    if (typeof raw === 'string' && !raw.trim()) return null;
+    const n = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw.trim()) : NaN;
+    return Number.isFinite(n) ? n : null;
+  }
+
+  const text = typeof raw === 'string' ? raw.trim() : '';
+  return text && text.length <= MAX_SHORT_ANSWER_LENGTH ? text : null;
+}
+
+export function scoreQuestion(q: TestQuestion, answer: AnswerValue | null): QuestionScore {
+  const pts = Number(q.points ?? 1);
+  const full = Number.isFinite(pts) ? pts : 1;
+  if (answer == null) return { correct: false, pointsAwarded: 0 };
+
+  if (q.type === 'mcq' || q.type === 'true_false') {
+    const correct = answer === String(q.correctOptionId);
+    return { correct, pointsAwarded: correct ? full : 0 };
+  }
+
+  if (q.type === 'multi_select') {
+    const selected = new Set(Array.isArray(answer) ? answer.map(String) : [String(answer)]);
+    const key = new Set((q.correctOptionIds ?? []).map(String));
+    let hits = 0;
+    let misses = 0;
+    for (const s of selected) {
+      if (key.has(s)) hits++;
+      else misses++;
+    }
+    const correct = misses === 0 && hits === key.size;
+    if (q.scoring !== 'proportional') return { correct, pointsAwarded: correct ? full : 0 };
+
+    // Proportional: each correct pick earns 1/|key|, each wrong pick cancels one; never below zero.
+    const fraction = key.size ? Math.max(0, (hits - misses) / key.size) : 0;
+    const awarded = Math.round(full * fraction * 100) / 100;
+    return { correct, pointsAwarded: awarded };
+  }
+
+  if (q.type === 'numeric') {
+    const value = typeof answer === 'number' ? answer : Number(answer);
+    if (!Number.isFinite(value)) return { correct: false, pointsAwarded: 0 };
+    const expected = Number(q.correctValue);
+    const absTol = Number(q.tolerance?.absolute ?? 0);
+    const relTol = Number(q.tolerance?.relative ?? 0) * Math.abs(expected);
+    // Tiny epsilon so exact answers survive float representation (e.g. 0.1 + 0.2).
+    const allowed = Math.max(absTol, relTol) + 1e-9;
+    const correct = Math.abs(value - expected) <= allowed;
+    return { correct, pointsAwarded: correct ? full : 0 };
+  }
+
+  const given = normalizeShortAnswer(String(answer), q.caseSensitive === true);
+  const correct = (q.acceptedAnswers ?? []).some((a) => normalizeShortAnswer(String(a), q.caseSensitive === true) === given);
+  return { correct, pointsAwarded: correct ? full : 0 };
+}
+
+// --- Scoring policy ---
+// Stored on the test doc (tests/create) and applied on top of scoreQuestion when a form is graded.
+// Blanks always score zero; only answered-and-wrong questions are penalized.
+
+export type ScoringPolicy = {
+  // Deducted for a wrong answer: a fraction of the question's points, or a fixed number of points.
+  wrongAnswerPenalty: { kind: 'fraction' | 'points'; value: number } | null;
+  // false: questions that would earn partial credit (proportional multi-select) earn nothing.
+  partialCredit: boolean;
+  // Lowest total an attempt can score; null lets negative marking push totals below zero.
+  floor: number | null;
+};
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = { wrongAnswerPenalty: null, partialCredit: true, floor: 0 };
+
+export function normalizeScoringPolicy(input: unknown): { ok: true; policy: ScoringPolicy } | { ok: false; error: string } {
+  if (input == null) return { ok: true, policy: { ...DEFAULT_SCORING_POLICY } };
+  const raw = input as any;
+  if (typeof raw !== 'object') return { ok: false, error: 'Invalid scoringPolicy' };
+
+  let wrongAnswerPenalty: ScoringPolicy['wrongAnswerPenalty'] = null;
+  if (raw.wrongAnswerPenalty != null) {
+    const kind = raw.wrongAnswerPenalty?.kind;
+    const value = Number(raw.wrongAnswerPenalty?.value);
+    if (kind !== 'fraction' && kind !== 'points') return { ok: false, error: 'Invalid wrongAnswerPenalty.kind' };
+    const max = kind === 'fraction' ? 1 : 1000;
+    if (!Number.isFinite(value) || value <= 0 || value > max) return { ok: false, error: 'Invalid wrongAnswerPenalty.value' };
+    wrongAnswerPenalty = { kind, value };
+  }
+
+  const partialCredit = raw.partialCredit !== false;
+
+  let floor: number | null = DEFAULT_SCORING_POLICY.floor;
+  if (raw.floor === null) floor = null;
+  else if (raw.floor !== undefined) {
+    floor = Number(raw.floor);
+    if (!Number.isFinite(floor) || floor > 0 || floor < -100000) return { ok: false, error: 'Invalid scoringPolicy.floor' };
+  }
+
+  return { ok: true, policy: { wrongAnswerPenalty, partialCredit, floor } };
+}
+
+// Tolerant read of a stored test doc; tests created before policies existed get the default.
+export function scoringPolicyFrom(test: any): ScoringPolicy {
+  const result = normalizeScoringPolicy(test?.scoringPolicy);
+  return result.ok ? result.policy : { ...DEFAULT_SCORING_POLICY };
+}
+
+function applyScoringPolicy(q: TestQuestion, answer: AnswerValue | null, base: QuestionScore, policy: ScoringPolicy): QuestionScore {
+  if (answer == null || base.correct) return base;
+
+  let pointsAwarded = base.pointsAwarded;
+  if (!policy.partialCredit) pointsAwarded = 0;
+  if (pointsAwarded > 0 || !policy.wrongAnswerPenalty) return { correct: false, pointsAwarded };
+
+  const full = Number.isFinite(Number(q.points)) ? Number(q.points) : 1;
+  const penalty =
+    policy.wrongAnswerPenalty.kind === 'fraction' ? full * policy.wrongAnswerPenalty.value : policy.wrongAnswerPenalty.value;
+  return { correct: false, pointsAwarded: -Math.round(penalty * 100) / 100 };
+}
+
+// --- Question pools ---
+// A pool says "serve `draw` of these questions". Questions outside every pool are always served.
+// All questions in one pool must carry the same points, so every drawn form totals the same pointsPossible.
+
+export type QuestionPool = { id: string; draw: number; questionIds: string[] };
+
+const MAX_POOLS = 50;
+
+export function normalizePools(
+  input: unknown,
+  questions: TestQuestion[]
+): { ok: true; pools: QuestionPool[]; pointsPossible: number } | { ok: false; error: string } {
+  const list = Array.isArray(input) ? (input as any[]) : [];
+  if (list.length > MAX_POOLS) return { ok: false, error: `Too many pools (max ${MAX_POOLS})` };
+
+  const byId = new Map(questions.map((q) => [q.id, q] as const));
+  const pooled = new Set<string>();
+  const pools: QuestionPool[] = [];
+  let pointsPossible = 0;
+
+  for (const raw of list) {
+    const id = typeof raw?.id === 'string' ? raw.id.trim() : '';
+    const draw = Number(raw?.draw);
+    const idsRaw: any[] = Array.isArray(raw?.questionIds) ? raw.questionIds : [];
+    const questionIds = Array.from(new Set(idsRaw.map((x) => (typeof x === 'string' ? x.trim() : '')).filter(Boolean)));
+
+    if (!id || id.length > 80 || pools.some((p) => p.id === id)) return { ok: false, error: 'Invalid pool id' };
+    if (questionIds.length === 0) return { ok: false, error: `Pool ${id} has no questions` };
+    if (!Number.isInteger(draw) || draw < 1 || draw > questionIds.length) {
+      return { ok: false, error: `Pool ${id} must draw between 1 and ${questionIds.length} questions` };
+    }
+
+    let poolPoints: number | null = null;
+    for (const qid of questionIds) {
+      const q = byId.get(qid);
+      if (!q) return { ok: false, error: `Pool ${id} references unknown question ${qid}` };
+      if (pooled.has(qid)) return { ok: false, error: `Question ${qid} is in more than one pool` };
+      if (poolPoints != null && q.points !== poolPoints) {
+        return { ok: false, error: `Pool ${id} mixes point values; all questions in a pool must be worth the same` };
+      }
+      poolPoints = q.points;
+      pooled.add(qid);
+    }
+
+    pools.push({ id, draw, questionIds });
+    pointsPossible += draw * (poolPoints ?? 0);
+  }
+
+  for (const q of questions) {
+    if (!pooled.has(q.id)) pointsPossible += q.points;
+  }
+
+  return { ok: true, pools, pointsPossible };
+}
+
+// What every form drawn from a version totals. Stored on the version doc; versions written before that
+// are recomputed from their questions and pools. Null if the stored pools no longer validate.
+export function versionPointsPossible(version: any): number | null {
+  const stored = Number(version?.pointsPossible);
+  if (version?.pointsPossible != null && Number.isFinite(stored)) return stored;
+  const questions = (Array.isArray(version?.questions) ? version.questions : []) as TestQuestion[];
+  const result = normalizePools(version?.pools, questions);
+  return result.ok ? result.pointsPossible : null;
+}
+
+// The grade's denominator: the total of the version the attempt was served, so a later tests/update
+// that changes the total does not rescale it. Attempt grading and tests/regrade share it, so an
+// unchanged key leaves the grade untouched.
+export function testPointsPossible(test: any, version: any, score: number): number {
+  return versionPointsPossible(version) ?? Number(test?.pointsPossible ?? score);
+}
+
+// Deterministic subset for one attempt: same rng state => same draw. Preserves authored order.
+export function drawFromPools<T extends { id: string }>(questions: T[], pools: QuestionPool[], rng: () => number): T[] {
+  if (!pools.length) return questions.slice();
+
+  const keep = new Set<string>();
+  const pooled = new Set<string>();
+  for (const pool of pools) {
+    const ids = pool.questionIds.slice();
+    for (const qid of ids) pooled.add(qid);
+    // Partial Fisher–Yates: only the first `draw` slots need to be randomized.
+    for (let i = 0; i < Math.min(pool.draw, ids.length); i++) {
+      const j = i + Math.floor(rng() * (ids.length - i));
+      [ids[i], ids[j]] = [ids[j], ids[i]];
+      keep.add(ids[i]);
+    }
+  }
+
+  return questions.filter((q) => !pooled.has(q.id) || keep.has(q.id));
+}
+
+// --- Attempt grading ---
+
+export type BreakdownEntry = { questionId: string; correct: boolean; pointsAwarded: number };
+
+export function questionMapFrom(version: any): Map<string, TestQuestion> {
+  const questions = (Array.isArray(version?.questions) ? version.questions : []) as TestQuestion[];
+  const byId = new Map<string, TestQuestion>();
+  for (const q of questions) {
+    if (q && typeof q.id === 'string') byId.set(String(q.id), q);
+  }
+  return byId;
+}
+
+// Scores one served form (attempt.formSnapshot). Questions missing from `questionById` are skipped,
+// answers are re-checked against each entry's optionIds, so this is safe to re-run on stored answersSnapshot.
+export function gradeForm(
+  formSnapshot: any[],
+  questionById: Map<string, TestQuestion>,
+  answers: Record<string, unknown>,
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): {
+  score: number;
+  unclampedScore: number;
+  pointsPossible: number;
+  breakdown: BreakdownEntry[];
+  answersSnapshot: Record<string, AnswerValue>;
+} {
+  let score = 0;
+  let pointsPossible = 0;
+  const breakdown: BreakdownEntry[] = [];
+  const answersSnapshot: Record<string, AnswerValue> = {};
+
+  for (const entry of formSnapshot) {
+    const qid = String(entry?.questionId ?? '').trim();
+    if (!qid) continue;
+
+    const q = questionById.get(qid);
+    if (!q) continue;
+
+    const allowedOptionIds = Array.isArray(entry?.optionIds) ? entry.optionIds.map((x: any) => String(x)) : [];
+    const answer = sanitizeAnswer(q, answers[qid], allowedOptionIds);
+    if (answer != null) answersSnapshot[qid] = answer;
+
+    const { correct, pointsAwarded } = applyScoringPolicy(q, answer, scoreQuestion(q, answer), policy);
+    score += pointsAwarded;
+    pointsPossible += Number.isFinite(Number(q.points)) ? Number(q.points) : 1;
+    breakdown.push({ questionId: qid, correct, pointsAwarded });
+  }
+
+  // Proportional credit yields fractions; keep totals stable at 2dp.
+  const unclampedScore = Math.round(score * 100) / 100;
+  // Breakdown keeps the per-question penalties; only the total is clamped.
+  score = policy.floor != null ? Math.max(policy.floor, unclampedScore) : unclampedScore;
+
+  return { score, unclampedScore, pointsPossible, breakdown, answersSnapshot };
+}
+
+// --- Served form ---
+
+export type ServedQuestion = { id: string; type: string; prompt: string; points: number; options: QuestionOption[] };
+
+// Served form never includes answer keys (correctOptionId(s), correctValue, acceptedAnswers) or explanations.
+export function toServedQuestion(q: TestQuestion): ServedQuestion {
+  return {
+    id: String(q.id),
+    type: String(q.type ?? 'mcq'),
+    prompt: String(q.prompt ?? ''),
+    points: Number(q.points ?? 1),
+    options: 'options' in q && Array.isArray(q.options) ? q.options.map((o) => ({ id: String(o.id), text: String(o.text) })) : [],
+  };
+}
+
+// Rebuilds exactly what the student was served (question + option order) from attempt.formSnapshot.
+export function servedFormFromSnapshot(formSnapshot: any[], questionById: Map<string, TestQuestion>): ServedQuestion[] {
+  const out: ServedQuestion[] = [];
+  for (const entry of formSnapshot) {
+    const q = questionById.get(String(entry?.questionId ?? ''));
+    if (!q) continue;
+    const served = toServedQuestion(q);
+    const order: string[] = Array.isArray(entry?.optionIds) ? entry.optionIds.map((x: any) => String(x)) : [];
+    const byOptionId = new Map(served.options.map((o) => [o.id, o] as const));
+    served.options = order.map((id) => byOptionId.get(id)).filter((o): o is QuestionOption => !!o);
+    out.push(served);
+  }
+  return out;
+}
+
+// Partial answer sanitization for autosave: only keys present in `answers` are considered.
+// `null` clears a saved answer; values that fail validation are reported as rejected.
+export function sanitizeFormAnswers(
+  formSnapshot: any[],
+  questionById: Map<string, TestQuestion>,
+  answers: Record<string, unknown>
+): { accepted: Record<string, AnswerValue>; cleared: string[]; rejected: string[] } {
+  const accepted: Record<string, AnswerValue> = {};
+  const cleared: string[] = [];
+  const rejected: string[] = [];
+
+  for (const entry of formSnapshot) {
+    const qid = String(entry?.questionId ?? '').trim();
+    if (!qid || !Object.prototype.hasOwnProperty.call(answers, qid)) continue;
+
+    const q = questionById.get(qid);
+    if (!q) continue;
+
+    const raw = answers[qid];
+    if (raw === null) {
+      cleared.push(qid);
+      continue;
+    }
+
+    const allowedOptionIds = Array.isArray(entry?.optionIds) ? entry.optionIds.map((x: any) => String(x)) : [];
+    const answer = sanitizeAnswer(q, raw, allowedOptionIds);
+    if (answer == null) rejected.push(qid);
+    else accepted[qid] = answer;
+  }
+
+  return { accepted, cleared, rejected };
+}
@@ -0,0 +1,102 @@
+import type { BreakdownEntry, TestQuestion } from './testQuestions';
+
+// When students may see their graded attempt with the answer key (tests/reviewAttempt).
+//   never        - students never see the key (instructors always can)
+//   immediately  - as soon as the attempt is graded; scheduled tests still wait for the window to close
+//   after_window - only once a scheduled test's window has closed for everyone
+
+export type ReviewPolicy = 'never' | 'immediately' | 'after_window';
+
+export const REVIEW_POLICIES: readonly ReviewPolicy[] = ['never', 'immediately', 'after_window'];
+
+// Tests created before review policies existed never exposed answers, so that stays the default.
+export function reviewPolicyFrom(test: any): ReviewPolicy {
+  return REVIEW_POLICIES.includes(test?.reviewPolicy) ? test.reviewPolicy : 'never';
+}
+
+// Earliest moment no student can still be answering a scheduled test: the window end pushed out by
+// the largest window extension, plus the longest (accommodated) duration for a last-second start.
+// Null for practice tests, which have no shared window to protect.
+export function keyReleaseAtMillis(
+  test: any,
+  maxima: { timeMultiplier: number; windowExtensionMinutes: number }
+): number | null {
+  if (test?.mode !== 'scheduled') return null;
+  const windowEndMillis = Number(test?.windowEndMillis);
+  const durationMinutes = Number(test?.durationMinutes ?? 0);
+  if (!Number.isFinite(windowEndMillis)) return Number.POSITIVE_INFINITY;
+  return (
+    windowEndMillis +
+    maxima.windowExtensionMinutes * 60 * 1000 +
+    Math.ceil((Number.isFinite(durationMinutes) ? durationMinutes : 0) * maxima.timeMultiplier * 60 * 1000)
+  );
+}
+
+export type AnswerKey =
+  | { correctOptionId: string }
+  | { correctOptionIds: string[] }
+  | { correctValue: number; tolerance: { absolute: number; relative: number } }
+  | { acceptedAnswers: string[] };
+
+export function answerKeyOf(q: TestQuestion): AnswerKey {
+  if (q.type === 'mcq' || q.type === 'true_false') return { correctOptionId: q.correctOptionId };
+  if (q.type === 'multi_select') return { correctOptionIds: [...q.correctOptionIds] };
+  if (q.type === 'numeric') return { correctValue: q.correctValue, tolerance: { ...q.tolerance } };
+  return { acceptedAnswers: [...q.acceptedAnswers] };
+}
+
+export type ReviewItem = {
+  questionId: string;
+  type: string;
+  prompt: string;
+  points: number;
+  options: Array<{ id: string; text: string }>;
+  answer: unknown;
+  correct?: boolean;
+  pointsAwarded?: number;
+  key?: AnswerKey;
+  explanation?: string | null;
+};
+
+// Builds the review in the order the student was served. Without `includeKey` only the prompt,
+// options and the student's own answers are returned — nothing that reveals which option is right.
+export function buildAttemptReview(
+  attempt: any,
+  questionById: Map<string, TestQuestion>,
+  opts: { includeKey: boolean }
+): ReviewItem[] {
+  const formSnapshot = Array.isArray(attempt?.formSnapshot) ? (attempt.formSnapshot as any[]) : [];
+  const answers = attempt?.answersSnapshot && typeof attempt.answersSnapshot === 'object' ? attempt.answersSnapshot : {};
+  const breakdown = new Map<string, BreakdownEntry>();
+  for (const b of Array.isArray(attempt?.breakdown) ? (attempt.breakdown as BreakdownEntry[]) : []) {
+    if (b && typeof b.questionId === 'string') breakdown.set(b.questionId, b);
+  }
+
+  const items: ReviewItem[] = [];
+  for (const entry of formSnapshot) {
+    const qid = String(entry?.questionId ?? '');
+    const q = questionById.get(qid);
+    if (!q) continue;
+
+    const optionText = new Map('options' in q && Array.isArray(q.options) ? q.options.map((o) => [o.id, o.text] as const) : []);
+    const optionIds: string[] = Array.isArray(entry?.optionIds) ? entry.optionIds.map(String) : [];
+    const item: ReviewItem = {
+      questionId: qid,
+      type: q.type,
+      prompt: q.prompt,
+      points: q.points,
+      options: optionIds.filter((id) => optionText.has(id)).map((id) => ({ id, text: String(optionText.get(id)) })),
+      answer: answers[qid] ?? null,
+    };
+
+    if (opts.includeKey) {
+      const b = breakdown.get(qid);
+      item.correct = b?.correct === true;
+      item.pointsAwarded = Number(b?.pointsAwarded ?? 0);
+      item.key = answerKeyOf(q);
+      item.explanation = q.explanation ?? null;
+    }
+    items.push(item);
+  }
+  return items;
+}
@@ -0,0 +1,132 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { normalizeScoringPolicy, type ScoringPolicy } from './testQuestions';
+import { REVIEW_POLICIES, type ReviewPolicy } from './testReview';
+import { defaultGradeCategory, isValidCategoryId } from './gradingScheme';
+
+// Test-level settings shared by tests/create and tests/generateDraft (everything except questions).
+
+export type TestSettingsInput = {
+  title: string;
+  description?: string;
+  mode: 'scheduled' | 'practice';
+  windowStartMillis?: number;
+  windowEndMillis?: number;
+  durationMinutes?: number;
+  attemptsAllowed?: number;
+  shuffle?: boolean;
+  isAssessed?: boolean;
+  // Negative marking / partial credit / total floor; omitted means no penalties, floor 0.
+  scoringPolicy?: Partial<ScoringPolicy>;
+  // When students may see answers + key via tests/reviewAttempt; defaults to 'never'.
+  reviewPolicy?: ReviewPolicy;
+  // 'held' hides assessed scores from students until gradebook/setGradeRelease releases them.
+  gradeRelease?: 'held' | 'released';
+  // Grading scheme category (gradebook/setGradingScheme); defaults to 'tests'.
+  gradeCategory?: string;
+};
+
+export type TestSettings = {
+  title: string;
+  description: string | undefined;
+  mode: 'scheduled' | 'practice';
+  windowStartMillis: number | undefined;
+  windowEndMillis: number | undefined;
+  durationMinutes: number | undefined;
+  attemptsAllowed: number;
+  shuffle: boolean;
+  isAssessed: boolean;
+  scoringPolicy: ScoringPolicy;
+  reviewPolicy: ReviewPolicy;
+  gradeRelease: 'held' | 'released';
+  gradeCategory: string;
+};
+
+export function parseTestSettings(body: Partial<TestSettingsInput>): { ok: true; settings: TestSettings } | { ok: false; error: string } {
+  const title = (body.title ?? '').trim();
+  const description = typeof body.description === 'string' ? body.description.trim() : undefined;
+  const mode = body.mode;
+
+  if (!title || (mode !== 'scheduled' && mode !== 'practice')) return { ok: false, error: 'Invalid payload' };
+  if (title.length > 200) return { ok: false, error: 'Invalid title' };
+  if (description && description.length > 20000) return { ok: false, error: 'Invalid description' };
+
+  const windowStartMillis = body.windowStartMillis == null ? undefined : Number(body.windowStartMillis);
+  const windowEndMillis = body.windowEndMillis == null ? undefined : Number(body.windowEndMillis);
+  const durationMinutes = body.durationMinutes == null ? undefined : Number(body.durationMinutes);
+
+  if (mode === 'scheduled') {
+    if (!Number.isFinite(windowStartMillis) || !Number.isFinite(windowEndMillis) || !Number.isFinite(durationMinutes)) {
+      return { ok: false, error: 'Scheduled tests require windowStartMillis, windowEndMillis, durationMinutes' };
+    }
+    if ((windowEndMillis as number) <= (windowStartMillis as number)) return { ok: false, error: 'Invalid test window' };
+    if ((durationMinutes as number) <= 0 || (durationMinutes as number) > 24 * 60) {
+      return { ok: false, error: 'Invalid durationMinutes' };
+    }
+  }
+
+  const attemptsAllowed = Number(body.attemptsAllowed ?? 1);
+  if (!Number.isFinite(attemptsAllowed) || attemptsAllowed < 1 || attemptsAllowed > 10) {
+    return { ok: false, error: 'Invalid attemptsAllowed' };
+  }
+
+  const shuffle = body.shuffle !== false;
+  const isAssessed = mode === 'scheduled' ? true : body.isAssessed === true;
+
+  const policyResult = normalizeScoringPolicy(body.scoringPolicy);
+  if (!policyResult.ok) return { ok: false, error: policyResult.error };
+
+  const reviewPolicy = body.reviewPolicy ?? 'never';
+  if (!REVIEW_POLICIES.includes(reviewPolicy)) return { ok: false, error: 'Invalid reviewPolicy' };
+  if (reviewPolicy === 'after_window' && mode !== 'scheduled') {
+    return { ok: false, error: 'reviewPolicy after_window requires a scheduled test' };
+  }
+
+  const gradeRelease = body.gradeRelease ?? 'released';
+  if (gradeRelease !== 'held' && gradeRelease !== 'released') return { ok: false, error: 'Invalid gradeRelease' };
+
+  const gradeCategory = body.gradeCategory ?? defaultGradeCategory('test');
+  if (!isValidCategoryId(gradeCategory)) return { ok: false, error: 'Invalid gradeCategory' };
+
+  return {
+    ok: true,
+    settings: {
+      title,
+      description,
+      mode,
+      windowStartMillis,
+      windowEndMillis,
+      durationMinutes,
+      attemptsAllowed,
+      shuffle,
+      isAssessed,
+      scoringPolicy: policyResult.policy,
+      reviewPolicy,
+      gradeRelease,
+      gradeCategory,
+    },
+  };
+}
+
+// New tests always start as drafts on version 1; tests/publish makes them visible.
+export function newTestDoc(settings: TestSettings, extra: { pointsPossible: number; createdBy: string } & Record<string, unknown>) {
+  return {
+    title: settings.title,
+    description: settings.description || undefined,
+    mode: settings.mode,
+    status: 'draft',
+    windowStartMillis: settings.windowStartMillis ?? undefined,
+    windowEndMillis: settings.windowEndMillis ?? undefined,
+    durationMinutes: settings.durationMinutes ?? undefined,
+    attemptsAllowed: settings.attemptsAllowed,
+    shuffle: settings.shuffle,
+    isAssessed: settings.isAssessed,
+    scoringPolicy: settings.scoringPolicy,
+    reviewPolicy: settings.reviewPolicy,
+    gradeRelease: settings.gradeRelease,
+    gradeCategory: settings.gradeCategory,
+    activeVersion: 1,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+    ...extra,
+  };
+}
@@ -0,0 +1,172 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { rateLimitExceeded } from '../../lib/rateLimit';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import { peerReviewConfigFrom, peerReviewId, planPeerReviews } from '../_lib/peerReview';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+const MAX_SUBMISSIONS_SCAN = 300;
+const BATCH_SIZE = 400;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+};
+
+// One-shot: only submissions that exist when this runs take part in peer review.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    if (!courseId || !assignmentId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const limiterKey = `peerReview.assign:${caller.uid}:${courseId}:${assignmentId}`;
+    if (await rateLimitExceeded(limiterKey, { failClosed: true })) {
+      return res.status(429).json({ error: 'Too Many Requests', requestId: ctx.requestId });
+    }
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+    const assignmentSnap = await assignmentRef.get();
+    if (!assignmentSnap.exists) {
+      return res.status(404).json({ error: 'Assignment not found', requestId: ctx.requestId });
+    }
+    const assignment = assignmentSnap.data() as any;
+    const peerConfig = peerReviewConfigFrom(assignment);
+    if (!peerConfig) {
+      return res.status(409).json({ error: 'Peer review is not enabled for this assignment', requestId: ctx.requestId });
+    }
+    if (assignment?.peerReviewState?.status === 'assigned') {
+      return res.status(409).json({ error: 'Peer reviews are already assigned', requestId: ctx.requestId });
+    }
+    const dueMillis = typeof assignment?.dueMillis === 'number' ? assignment.dueMillis : null;
+    if (dueMillis == null || Date.now() < dueMillis) {
+      return res.status(409).json({ error: 'Peer reviews can be assigned after the due date', requestId: ctx.requestId });
+    }
+
+    const subsSnap = await assignmentRef.collection('submissions').limit(MAX_SUBMISSIONS_SCAN + 1).get();
+    if (subsSnap.size > MAX_SUBMISSIONS_SCAN) {
+      return res.status(413).json({ error: 'Too many submissions for peer review', requestId: ctx.requestId });
+    }
+    const revisionByAuthor = new Map(subsSnap.docs.map((d) => [d.id, Number((d.data() as any)?.submissionRevision ?? 1)]));
+    const pairs = planPeerReviews(assignmentId, [...revisionByAuthor.keys()], peerConfig.reviewersPerSubmission);
+    const rubricRevision = Number(assignment?.rubricRevision ?? 1);
+
+    // Deterministic ids and a deterministic plan: a retry after a partial failure rewrites the same docs.
+    for (let i = 0; i < pairs.length; i += BATCH_SIZE) {
+      const batch = db.batch();
+      for (const p of pairs.slice(i, i + BATCH_SIZE)) {
+        batch.set(assignmentRef.collection('peerReviews').doc(peerReviewId(assignmentId, p.reviewerId, p.authorId)), {
+          reviewerId: p.reviewerId,
+          authorId: p.authorId,
+          status: 'assigned',
+          submissionRevision: revisionByAuthor.get(p.authorId) ?? 1,
+          rubricRevision,
+          assignedAt: FieldValue.serverTimestamp(),
+          assignedBy: caller.uid,
+        });
+      }
+      await batch.commit();
+    }
+
+    const assignmentVersion = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(assignmentRef);
+      const data = snap.data() as any;
+      if (data?.peerReviewState?.status === 'assigned') {
+        const err = new Error('Peer reviews are already assigned');
+        (err as any).status = 409;
+        throw err;
+      }
+      tx.update(assignmentRef, {
+        peerReviewState: {
+          status: 'assigned',
+          submissions: revisionByAuthor.size,
+          reviews: pairs.length,
+          assignedAt: FieldValue.serverTimestamp(),
+          assignedBy: caller.uid,
+        },
+        updatedAt: FieldValue.serverTimestamp(),
+        updatedAtBy: caller.uid,
+      });
+      return Number(data?.version ?? 1);
+    });
+
+    await writeAuditLog({
+      action: 'peer_review.assign',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        assignmentId,
+        submissions: revisionByAuthor.size,
+        reviews: pairs.length,
+        reviewersPerSubmission: peerConfig.reviewersPerSubmission,
+      },
+    });
+
+    await emitDomainEvent({
+      type: 'peer_review.assigned',
+      courseId,
+      actorUid: caller.uid,
+      actorRole: caller.role,
+      aggregate: { kind: 'assignment', id: assignmentId, version: assignmentVersion },
+      payload: {
+        courseId,
+        assignmentId,
+        submissions: revisionByAuthor.size,
+        reviews: pairs.length,
+        reviewersPerSubmission: peerConfig.reviewersPerSubmission,
+        reviewDueMillis: peerConfig.reviewDueMillis ?? null,
+      },
+      idempotencyKey: `peer_review.assigned:${courseId}:${assignmentId}`,
+      requestId: ctx.requestId,
+    });
+
+    return res.status(200).json({
+      ok: true,
+      submissions: revisionByAuthor.size,
+      reviews: pairs.length,
+      reviewersPerSubmission: peerConfig.reviewersPerSubmission,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -6,6 +6,12 @@ import { getRequestContext, type VercelRequest, type VercelResponse } from '../_
 import { writeAuditLog } from '../_lib/auditLog';
 import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
 import { emitDomainEvent } from '../_lib/domainEvents';
+import { resolveAssignmentRubric } from '../_lib/rubrics';
+import { normalizeLatePolicy } from '../_lib/latePolicy';
+import { normalizeFileSpec, type FileSubmissionSpec } from '../_lib/submissionFiles';
+import { normalizePeerReviewConfig } from '../_lib/peerReview';
+import { normalizeGroupMode } from '../_lib/assignmentGroups';
+import { defaultGradeCategory, isValidCategoryId } from '../_lib/gradingScheme';
 
 export const config = { runtime: 'nodejs' };
 
@@ -18,8 +24,32 @@ type Body = {
   pointsPossible: number;
   dueMillis?: number;
   allowLate?: boolean;
-  latePolicy?: { type: 'none' | 'accept_with_penalty'; penaltyPercent?: number };
-  submissionSpec?: { type: 'text' | 'link' | 'file_link'; maxBytes?: number };
+  // Flat penaltyPercent, optional perDayPercent decay, capped at maxPenaltyPercent (default 100).
+  latePolicy?: { type: 'none' | 'accept_with_penalty'; penaltyPercent?: number; perDayPercent?: number; maxPenaltyPercent?: number };
+  // 'file' = uploads to Storage via submissions/requestUpload; allowedMimeTypes defaults to a document/image allowlist.
+  submissionSpec?: {
+    type: 'text' | 'link' | 'file_link' | 'file';
+    maxBytes?: number;
+    allowedMimeTypes?: string[];
+    maxFiles?: number;
+  };
+  // Optional rubric (inline, or copied from a course template); its total must equal pointsPossible.
+  rubric?: unknown;
+  rubricTemplateId?: string;
+  // Peer review after the due date; needs a rubric and a dueMillis, and text/link submissions.
+  peerReview?: {
+    enabled: boolean;
+    reviewersPerSubmission?: number;
+    peerWeightPercent?: number;
+    aggregate?: 'mean' | 'median';
+    reviewDueMillis?: number;
+  };
+  // Group submissions: groups set by the instructor (assignments/setGroups) or self-formed (joinGroup).
+  groupMode?: { type: 'none' | 'instructor' | 'self'; maxGroupSize?: number };
+  // 'held' keeps grades hidden from students until gradebook/setGradeRelease releases them.
+  gradeRelease?: 'held' | 'released';
+  // Grading scheme category (gradebook/setGradingScheme); defaults to 'assignments'.
+  gradeCategory?: string;
 };
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -60,19 +90,62 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     const allowLate = body.allowLate === true;
-    const latePolicy = body.latePolicy?.type ? body.latePolicy : { type: 'none' as const };
-    if (latePolicy.type !== 'none' && latePolicy.type !== 'accept_with_penalty') {
-      return res.status(400).json({ error: 'Invalid latePolicy', requestId: ctx.requestId });
-    }
-    const penaltyPercent = latePolicy.type === 'accept_with_penalty' ? Number(latePolicy.penaltyPercent ?? 0) : 0;
-    if (latePolicy.type === 'accept_with_penalty' && (!Number.isFinite(penaltyPercent) || penaltyPercent < 0 || penaltyPercent > 100)) {
-      return res.status(400).json({ error: 'Invalid penaltyPercent', requestId: ctx.requestId });
+    const latePolicyResult = normalizeLatePolicy(body.latePolicy);
+    if (!latePolicyResult.ok) {
+      return res.status(400).json({ error: latePolicyResult.error, requestId: ctx.requestId });
     }
 
     const submissionSpec = body.submissionSpec?.type ? body.submissionSpec : { type: 'text' as const };
-    if (submissionSpec.type !== 'text' && submissionSpec.type !== 'link' && submissionSpec.type !== 'file_link') {
+    if (
+      submissionSpec.type !== 'text' &&
+      submissionSpec.type !== 'link' &&
+      submissionSpec.type !== 'file_link' &&
+      submissionSpec.type !== 'file'
+    ) {
       return res.status(400).json({ error: 'Invalid submissionSpec', requestId: ctx.requestId });
     }
+    let fileSpec: FileSubmissionSpec | null = null;
+    if (submissionSpec.type === 'file') {
+      const fileSpecResult = normalizeFileSpec(submissionSpec);
+      if (!fileSpecResult.ok) {
+        return res.status(400).json({ error: fileSpecResult.error, requestId: ctx.requestId });
+      }
+      fileSpec = fileSpecResult.spec;
+    }
+
+    const peerReviewResult = normalizePeerReviewConfig(body.peerReview);
+    if (!peerReviewResult.ok) {
+      return res.status(400).json({ error: peerReviewResult.error, requestId: ctx.requestId });
+    }
+    const peerReview = peerReviewResult.config;
+    if (peerReview && dueMillis === undefined) {
+      return res.status(400).json({ error: 'Peer review requires dueMillis', requestId: ctx.requestId });
+    }
+    // Reviewers only get text and links; Storage paths would reveal the author.
+    if (peerReview && submissionSpec.type === 'file') {
+      return res.status(400).json({ error: 'Peer review is not available for file submissions', requestId: ctx.requestId });
+    }
+    if (peerReview?.reviewDueMillis !== undefined && dueMillis !== undefined && peerReview.reviewDueMillis <= dueMillis) {
+      return res.status(400).json({ error: 'reviewDueMillis must be after dueMillis', requestId: ctx.requestId });
+    }
+
+    const groupModeResult = normalizeGroupMode(body.groupMode);
+    if (!groupModeResult.ok) {
+      return res.status(400).json({ error: groupModeResult.error, requestId: ctx.requestId });
+    }
+    const groupMode = groupModeResult.mode;
+    if (peerReview && groupMode) {
+      return res.status(400).json({ error: 'Peer review is not available for group assignments', requestId: ctx.requestId });
+    }
+
+    if (body.gradeRelease != null && body.gradeRelease !== 'held' && body.gradeRelease !== 'released') {
+      return res.status(400).json({ error: 'Invalid gradeRelease', requestId: ctx.requestId });
+    }
+    const gradeRelease = body.gradeRelease ?? 'released';
+    if (body.gradeCategory != null && !isValidCategoryId(body.gradeCategory)) {
+      return res.status(400).json({ error: 'Invalid gradeCategory', requestId: ctx.requestId });
+    }
+    const gradeCategory = body.gradeCategory ?? defaultGradeCategory('assignment');
 
     await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
 
@@ -82,6 +155,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const { courseRef } = await requireCourseExists(courseId);
     const assignmentRef = courseRef.collection('assignments').doc();
 
+    const resolved = await resolveAssignmentRubric(courseRef, body);
+    if (resolved && resolved.rubric.pointsPossible !== pointsPossible) {
+      return res.status(400).json({ error: 'Rubric total must equal pointsPossible', requestId: ctx.requestId });
+    }
+    if (peerReview && !resolved) {
+      return res.status(400).json({ error: 'Peer review requires a rubric', requestId: ctx.requestId });
+    }
+
     await assignmentRef.create({
       title,
       description: description || undefined,
@@ -89,11 +170,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       dueMillis: dueMillis ?? undefined,
       pointsPossible,
       allowLate,
-      latePolicy: latePolicy.type === 'accept_with_penalty' ? { type: 'accept_with_penalty', penaltyPercent } : { type: 'none' },
-      submissionSpec: {
+      latePolicy: latePolicyResult.policy,
+      submissionSpec: fileSpec ?? {
         type: submissionSpec.type,
         maxBytes: submissionSpec.maxBytes ?? undefined,
       },
+      rubric: resolved?.rubric ?? undefined,
+      rubricSource: resolved?.source ?? undefined,
+      rubricRevision: resolved ? 1 : undefined,
+      peerReview: peerReview ?? undefined,
+      groupMode: groupMode ?? undefined,
+      gradeRelease,
+      gradeCategory,
       version: 1,
       createdBy: caller.uid,
       createdAt: FieldValue.serverTimestamp(),
@@ -108,7 +196,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       requestId: ctx.requestId,
       ip: ctx.ip,
       userAgent: ctx.userAgent,
-      metadata: { courseId, assignmentId: assignmentRef.id, title, pointsPossible },
+      metadata: {
+        courseId,
+        assignmentId: assignmentRef.id,
+        title,
+        pointsPossible,
+        rubricCriteria: resolved?.rubric.criteria.length ?? 0,
+        rubricTemplateId: resolved?.source?.templateId ?? null,
+        peerReview: peerReview ?? null,
+        groupMode: groupMode ?? null,
+        gradeRelease,
+        gradeCategory,
+      },
     });
 
     await emitDomainEvent({
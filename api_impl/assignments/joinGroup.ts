@@ -0,0 +1,142 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireActiveEnrollmentOrPlatform, requireCourseExists } from '../_lib/courseAccess';
+import {
+  assertGroupUnlockedInTx,
+  groupFrom,
+  groupMemberRef,
+  groupModeFrom,
+  groupRef,
+  sanitizeGroupName,
+} from '../_lib/assignmentGroups';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+  // Join an existing group, or create a new one by name (not both).
+  groupId?: string;
+  name?: string;
+};
+
+// Self-formed groups only; instructor-formed groups are managed with assignments/setGroups.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    const joinGroupId = (body.groupId ?? '').trim();
+    const name = body.name == null ? null : sanitizeGroupName(body.name);
+    if (!courseId || !assignmentId || !joinGroupId === !name) {
+      return res.status(400).json({ error: 'Provide either groupId or a valid name', requestId: ctx.requestId });
+    }
+
+    await requireActiveEnrollmentOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+
+    const txResult = await db.runTransaction(async (tx) => {
+      const assignmentSnap = await tx.get(assignmentRef);
+      if (!assignmentSnap.exists) {
+        const err = new Error('Assignment not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      const groupMode = groupModeFrom(assignmentSnap.data());
+      if (groupMode?.type !== 'self') {
+        const err = new Error('Groups for this assignment are set by the instructor');
+        (err as any).status = 403;
+        throw err;
+      }
+
+      const memberRef = groupMemberRef(assignmentRef, caller.uid);
+      const memberSnap = await tx.get(memberRef);
+      if (memberSnap.exists) {
+        const err = new Error('Already in a group; leave it first');
+        (err as any).status = 409;
+        throw err;
+      }
+
+      if (joinGroupId) {
+        const ref = groupRef(assignmentRef, joinGroupId);
+        const group = groupFrom(await tx.get(ref));
+        if (!group) {
+          const err = new Error('Group not found');
+          (err as any).status = 404;
+          throw err;
+        }
+        await assertGroupUnlockedInTx(tx, assignmentRef, joinGroupId);
+        if (group.memberIds.length + 1 > groupMode.maxGroupSize) {
+          const err = new Error('Group is full');
+          (err as any).status = 409;
+          throw err;
+        }
+        tx.update(ref, {
+          memberIds: [...group.memberIds, caller.uid],
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedAtBy: caller.uid,
+        });
+        tx.set(memberRef, { groupId: joinGroupId, updatedAt: FieldValue.serverTimestamp() });
+        return { groupId: joinGroupId, created: false, memberCount: group.memberIds.length + 1 };
+      }
+
+      const ref = assignmentRef.collection('groups').doc();
+      tx.create(ref, {
+        name,
+        memberIds: [caller.uid],
+        formation: 'self',
+        createdAt: FieldValue.serverTimestamp(),
+        createdBy: caller.uid,
+        updatedAt: FieldValue.serverTimestamp(),
+        updatedAtBy: caller.uid,
+      });
+      tx.set(memberRef, { groupId: ref.id, updatedAt: FieldValue.serverTimestamp() });
+      return { groupId: ref.id, created: true, memberCount: 1 };
+    });
+
+    await writeAuditLog({
+      action: 'assignment.group.join',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, assignmentId, ...txResult },
+    });
+
+    return res.status(200).json({ ok: true, ...txResult });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,112 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireActiveEnrollmentOrPlatform, requireCourseExists } from '../_lib/courseAccess';
+import {
+  assertGroupUnlockedInTx,
+  groupMemberRef,
+  groupModeFrom,
+  groupRef,
+  readMemberGroupInTx,
+} from '../_lib/assignmentGroups';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+};
+
+// The last member leaving deletes the group.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    if (!courseId || !assignmentId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    await requireActiveEnrollmentOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+
+    const txResult = await db.runTransaction(async (tx) => {
+      const assignmentSnap = await tx.get(assignmentRef);
+      if (!assignmentSnap.exists) {
+        const err = new Error('Assignment not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      if (groupModeFrom(assignmentSnap.data())?.type !== 'self') {
+        const err = new Error('Groups for this assignment are set by the instructor');
+        (err as any).status = 403;
+        throw err;
+      }
+
+      const group = await readMemberGroupInTx(tx, assignmentRef, caller.uid);
+      if (!group) {
+        const err = new Error('Not in a group');
+        (err as any).status = 404;
+        throw err;
+      }
+      await assertGroupUnlockedInTx(tx, assignmentRef, group.groupId);
+
+      const remaining = group.memberIds.filter((uid) => uid !== caller.uid);
+      tx.delete(groupMemberRef(assignmentRef, caller.uid));
+      if (remaining.length === 0) {
+        tx.delete(groupRef(assignmentRef, group.groupId));
+      } else {
+        tx.update(groupRef(assignmentRef, group.groupId), {
+          memberIds: remaining,
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedAtBy: caller.uid,
+        });
+      }
+      return { groupId: group.groupId, memberCount: remaining.length, deleted: remaining.length === 0 };
+    });
+
+    await writeAuditLog({
+      action: 'assignment.group.leave',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, assignmentId, ...txResult },
+    });
+
+    return res.status(200).json({ ok: true, ...txResult });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
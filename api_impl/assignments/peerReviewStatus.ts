@@ -0,0 +1,109 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { MAX_REVIEWERS_PER_SUBMISSION, peerReviewConfigFrom } from '../_lib/peerReview';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+const MAX_REVIEWS_SCAN = 300 * MAX_REVIEWERS_PER_SUBMISSION;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+};
+
+// Instructor completion tracking; the only place reviewer and author are shown together.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    if (!courseId || !assignmentId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+    const assignmentSnap = await assignmentRef.get();
+    if (!assignmentSnap.exists) {
+      return res.status(404).json({ error: 'Assignment not found', requestId: ctx.requestId });
+    }
+    const assignment = assignmentSnap.data() as any;
+    const peerConfig = peerReviewConfigFrom(assignment);
+    if (!peerConfig) {
+      return res.status(409).json({ error: 'Peer review is not enabled for this assignment', requestId: ctx.requestId });
+    }
+
+    const snap = await assignmentRef.collection('peerReviews').limit(MAX_REVIEWS_SCAN + 1).get();
+    if (snap.size > MAX_REVIEWS_SCAN) {
+      return res.status(413).json({ error: 'Too many peer reviews', requestId: ctx.requestId });
+    }
+
+    const reviews = snap.docs.map((d) => {
+      const data = d.data() as any;
+      return {
+        reviewId: d.id,
+        reviewerId: String(data?.reviewerId ?? ''),
+        authorId: String(data?.authorId ?? ''),
+        status: String(data?.status ?? 'assigned'),
+        score: typeof data?.score === 'number' ? data.score : null,
+        completedAtMillis: typeof data?.completedAt?.toMillis === 'function' ? Number(data.completedAt.toMillis()) : null,
+      };
+    });
+
+    const byReviewer = new Map<string, { reviewerId: string; assigned: number; completed: number }>();
+    for (const r of reviews) {
+      const row = byReviewer.get(r.reviewerId) ?? { reviewerId: r.reviewerId, assigned: 0, completed: 0 };
+      row.assigned++;
+      if (r.status === 'completed') row.completed++;
+      byReviewer.set(r.reviewerId, row);
+    }
+    const completed = reviews.filter((r) => r.status === 'completed').length;
+
+    await writeAuditLog({
+      action: 'peer_review.status.read',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, assignmentId, reviews: reviews.length, completed },
+    });
+
+    return res.status(200).json({
+      ok: true,
+      config: peerConfig,
+      state: assignment?.peerReviewState?.status ?? 'not_assigned',
+      summary: { reviews: reviews.length, completed, pending: reviews.length - completed },
+      reviewers: [...byReviewer.values()],
+      reviews,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
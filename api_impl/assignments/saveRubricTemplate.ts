@@ -0,0 +1,122 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { normalizeRubric } from '../_lib/rubrics';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 60 * 1024;
+
+type Body = {
+  courseId: string;
+  // Omit to create a new template.
+  templateId?: string;
+  name: string;
+  rubric: unknown;
+  archived?: boolean;
+};
+
+// Templates are instructor-side only: assignments copy the rubric when they attach it, so saving
+// here never changes an existing assignment or grade.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const templateId = typeof body.templateId === 'string' ? body.templateId.trim() : '';
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!courseId || !name) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (name.length > 200) return res.status(400).json({ error: 'Invalid name', requestId: ctx.requestId });
+
+    const rubricResult = normalizeRubric(body.rubric);
+    if (!rubricResult.ok) {
+      return res.status(400).json({ error: rubricResult.error, requestId: ctx.requestId });
+    }
+    const rubric = rubricResult.rubric;
+    const archived = body.archived === true;
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const templatesRef = courseRef.collection('rubricTemplates');
+    const templateRef = templateId ? templatesRef.doc(templateId) : templatesRef.doc();
+
+    const revision = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(templateRef);
+      if (templateId && !snap.exists) {
+        const err = new Error('Rubric template not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      const existing = snap.exists ? (snap.data() as any) : null;
+      const priorRevision = Number(existing?.revision ?? 0);
+      const nextRevision = Number.isFinite(priorRevision) ? priorRevision + 1 : 1;
+
+      tx.set(
+        templateRef,
+        {
+          name,
+          rubric,
+          archived,
+          revision: nextRevision,
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedAtBy: caller.uid,
+          createdAt: existing?.createdAt ?? FieldValue.serverTimestamp(),
+          createdBy: existing?.createdBy ?? caller.uid,
+        },
+        { merge: true }
+      );
+
+      return nextRevision;
+    });
+
+    await writeAuditLog({
+      action: 'rubric.template.save',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        templateId: templateRef.id,
+        revision,
+        criteria: rubric.criteria.length,
+        pointsPossible: rubric.pointsPossible,
+        archived,
+      },
+    });
+
+    return res.status(200).json({ ok: true, templateId: templateRef.id, revision, rubric });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,190 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import {
+  assertGroupUnlockedInTx,
+  groupFrom,
+  groupMemberRef,
+  groupModeFrom,
+  groupRef,
+  sanitizeGroupName,
+} from '../_lib/assignmentGroups';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 40 * 1024;
+// Keeps one call within Firestore's per-transaction write limit (groups + member index docs).
+const MAX_GROUPS_PER_CALL = 20;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+  // Upserts: omit groupId to create a group; an empty memberIds deletes the group.
+  groups: Array<{ groupId?: string; name: string; memberIds: string[] }>;
+};
+
+// Works for both group modes, so instructors can also fix up self-formed groups.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    if (!courseId || !assignmentId || !Array.isArray(body.groups) || body.groups.length === 0) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (body.groups.length > MAX_GROUPS_PER_CALL) {
+      return res.status(400).json({ error: `At most ${MAX_GROUPS_PER_CALL} groups per call`, requestId: ctx.requestId });
+    }
+
+    const groups: Array<{ groupId: string | null; name: string; memberIds: string[] }> = [];
+    const seenMembers = new Set<string>();
+    const seenGroups = new Set<string>();
+    for (const raw of body.groups) {
+      const groupId = typeof raw?.groupId === 'string' && raw.groupId.trim() ? raw.groupId.trim() : null;
+      const name = sanitizeGroupName(raw?.name);
+      const memberIds = Array.isArray(raw?.memberIds)
+        ? raw.memberIds.map((m) => (typeof m === 'string' ? m.trim() : '')).filter(Boolean)
+        : null;
+      if (!name || !memberIds || (groupId == null && memberIds.length === 0)) {
+        return res.status(400).json({ error: 'Invalid groups', requestId: ctx.requestId });
+      }
+      if (groupId) {
+        if (seenGroups.has(groupId)) return res.status(400).json({ error: `Group listed twice: ${groupId}`, requestId: ctx.requestId });
+        seenGroups.add(groupId);
+      }
+      for (const uid of memberIds) {
+        if (seenMembers.has(uid)) return res.status(400).json({ error: `Student in two groups: ${uid}`, requestId: ctx.requestId });
+        seenMembers.add(uid);
+      }
+      groups.push({ groupId, name, memberIds });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+
+    const allMembers = [...seenMembers];
+    const enrollSnaps = allMembers.length ? await db.getAll(...allMembers.map((uid) => courseRef.collection('enrollments').doc(uid))) : [];
+    const notStudents = enrollSnaps
+      .filter((snap) => !snap.exists || (snap.data() as any)?.status !== 'active' || (snap.data() as any)?.role === 'instructor')
+      .map((snap) => snap.id);
+    if (notStudents.length > 0) {
+      return res.status(400).json({ error: `Not enrolled students: ${notStudents.join(', ')}`, requestId: ctx.requestId });
+    }
+
+    const txResult = await db.runTransaction(async (tx) => {
+      const assignmentSnap = await tx.get(assignmentRef);
+      if (!assignmentSnap.exists) {
+        const err = new Error('Assignment not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      const groupMode = groupModeFrom(assignmentSnap.data());
+      if (!groupMode) {
+        const err = new Error('Assignment has no groups');
+        (err as any).status = 409;
+        throw err;
+      }
+      if (groups.some((g) => g.memberIds.length > groupMode.maxGroupSize)) {
+        const err = new Error(`Groups are limited to ${groupMode.maxGroupSize} members`);
+        (err as any).status = 400;
+        throw err;
+      }
+
+      const existing = new Map<string, string[]>();
+      for (const g of groups) {
+        if (!g.groupId) continue;
+        const current = groupFrom(await tx.get(groupRef(assignmentRef, g.groupId)));
+        if (!current) {
+          const err = new Error(`Group not found: ${g.groupId}`);
+          (err as any).status = 404;
+          throw err;
+        }
+        await assertGroupUnlockedInTx(tx, assignmentRef, g.groupId);
+        existing.set(g.groupId, current.memberIds);
+      }
+
+      // A student may only move between groups that are part of this call.
+      const memberSnaps = await Promise.all(allMembers.map((uid) => tx.get(groupMemberRef(assignmentRef, uid))));
+      for (const snap of memberSnaps) {
+        const currentGroupId = snap.exists ? String((snap.data() as any)?.groupId ?? '') : '';
+        if (currentGroupId && !existing.has(currentGroupId)) {
+          const err = new Error(`Student is already in another group: ${snap.id}`);
+          (err as any).status = 409;
+          throw err;
+        }
+      }
+
+      const saved: Array<{ groupId: string; name: string; memberIds: string[]; deleted: boolean }> = [];
+      for (const g of groups) {
+        const ref = g.groupId ? groupRef(assignmentRef, g.groupId) : assignmentRef.collection('groups').doc();
+        for (const uid of existing.get(ref.id) ?? []) {
+          if (!seenMembers.has(uid)) tx.delete(groupMemberRef(assignmentRef, uid));
+        }
+        for (const uid of g.memberIds) {
+          tx.set(groupMemberRef(assignmentRef, uid), { groupId: ref.id, updatedAt: FieldValue.serverTimestamp() });
+        }
+        if (g.memberIds.length === 0) {
+          tx.delete(ref);
+        } else {
+          tx.set(
+            ref,
+            {
+              name: g.name,
+              memberIds: g.memberIds,
+              formation: 'instructor',
+              updatedAt: FieldValue.serverTimestamp(),
+              updatedAtBy: caller.uid,
+              ...(g.groupId ? {} : { createdAt: FieldValue.serverTimestamp(), createdBy: caller.uid }),
+            },
+            { merge: true }
+          );
+        }
+        saved.push({ groupId: ref.id, name: g.name, memberIds: g.memberIds, deleted: g.memberIds.length === 0 });
+      }
+      return saved;
+    });
+
+    await writeAuditLog({
+      action: 'assignment.groups.set',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, assignmentId, groups: txResult },
+    });
+
+    return res.status(200).json({ ok: true, groups: txResult });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,150 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import { resolveAssignmentRubric } from '../_lib/rubrics';
+import { peerReviewConfigFrom } from '../_lib/peerReview';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 60 * 1024;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+  // Exactly one of: an inline rubric, a course template to copy, or remove: true.
+  rubric?: unknown;
+  rubricTemplateId?: string;
+  remove?: boolean;
+};
+
+// Grades already given keep the breakdown they were computed from; the new rubric applies to
+// the next submissions/grade call.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    const remove = body.remove === true;
+    if (!courseId || !assignmentId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (remove && (body.rubric != null || body.rubricTemplateId != null)) {
+      return res.status(400).json({ error: 'remove cannot be combined with a rubric', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+
+    const resolved = remove ? null : await resolveAssignmentRubric(courseRef, body);
+    if (!remove && !resolved) {
+      return res.status(400).json({ error: 'Provide rubric, rubricTemplateId or remove', requestId: ctx.requestId });
+    }
+
+    const txResult = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(assignmentRef);
+      if (!snap.exists) {
+        const err = new Error('Assignment not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      const assignment = snap.data() as any;
+      if (remove && peerReviewConfigFrom(assignment)) {
+        const err = new Error('Peer-reviewed assignments need a rubric');
+        (err as any).status = 409;
+        throw err;
+      }
+      const pointsPossible = Number(assignment?.pointsPossible ?? 0);
+      if (resolved && resolved.rubric.pointsPossible !== pointsPossible) {
+        const err = new Error('Rubric total must equal pointsPossible');
+        (err as any).status = 400;
+        throw err;
+      }
+
+      const priorRevision = Number(assignment?.rubricRevision ?? 0);
+      const rubricRevision = Number.isFinite(priorRevision) ? priorRevision + 1 : 1;
+
+      tx.update(assignmentRef, {
+        rubric: resolved ? resolved.rubric : FieldValue.delete(),
+        rubricSource: resolved?.source ?? FieldValue.delete(),
+        rubricRevision,
+        updatedAt: FieldValue.serverTimestamp(),
+        updatedAtBy: caller.uid,
+      });
+
+      return {
+        rubricRevision,
+        assignmentVersion: Number(assignment?.version ?? 1),
+        hadRubric: Array.isArray(assignment?.rubric?.criteria),
+      };
+    });
+
+    await writeAuditLog({
+      action: 'assignment.rubric.set',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        assignmentId,
+        rubricRevision: txResult.rubricRevision,
+        hadRubric: txResult.hadRubric,
+        removed: remove,
+        criteria: resolved?.rubric.criteria.length ?? 0,
+        rubricTemplateId: resolved?.source?.templateId ?? null,
+      },
+    });
+
+    await emitDomainEvent({
+      type: 'assignment.rubric.set',
+      courseId,
+      actorUid: caller.uid,
+      actorRole: caller.role,
+      aggregate: { kind: 'assignment', id: assignmentId, version: txResult.assignmentVersion },
+      payload: {
+        courseId,
+        assignmentId,
+        rubricRevision: txResult.rubricRevision,
+        removed: remove,
+        pointsPossible: resolved?.rubric.pointsPossible ?? null,
+      },
+      idempotencyKey: `assignment.rubric.set:${courseId}:${assignmentId}:r${txResult.rubricRevision}`,
+      requestId: ctx.requestId,
+    });
+
+    return res.status(200).json({ ok: true, rubricRevision: txResult.rubricRevision, rubric: resolved?.rubric ?? null });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
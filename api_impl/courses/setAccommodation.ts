@@ -0,0 +1,140 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import { sanitizeOptionalReason } from '../_lib/sanitize';
+import { ACCOMMODATION_LIMITS, accommodationFrom, accommodationRef, hasAccommodation } from '../_lib/accommodations';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+
+type Body = {
+  courseId: string;
+  studentId: string;
+  timeMultiplier?: number;
+  windowExtensionMinutes?: number;
+  dueExtensionHours?: number;
+  reason?: string;
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const studentId = (body.studentId ?? '').trim();
+    const reason = sanitizeOptionalReason(body.reason);
+    const timeMultiplier = Number(body.timeMultiplier ?? 1);
+    const windowExtensionMinutes = Number(body.windowExtensionMinutes ?? 0);
+    const dueExtensionHours = Number(body.dueExtensionHours ?? 0);
+
+    if (!courseId || !studentId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (!Number.isFinite(timeMultiplier) || timeMultiplier < 1 || timeMultiplier > ACCOMMODATION_LIMITS.maxTimeMultiplier) {
+      return res.status(400).json({ error: 'Invalid timeMultiplier', requestId: ctx.requestId });
+    }
+    if (
+      !Number.isFinite(windowExtensionMinutes) ||
+      windowExtensionMinutes < 0 ||
+      windowExtensionMinutes > ACCOMMODATION_LIMITS.maxWindowExtensionMinutes
+    ) {
+      return res.status(400).json({ error: 'Invalid windowExtensionMinutes', requestId: ctx.requestId });
+    }
+    if (!Number.isFinite(dueExtensionHours) || dueExtensionHours < 0 || dueExtensionHours > ACCOMMODATION_LIMITS.maxDueExtensionHours) {
+      return res.status(400).json({ error: 'Invalid dueExtensionHours', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const enrollRef = courseRef.collection('enrollments').doc(studentId);
+    const ref = accommodationRef(courseRef, studentId);
+
+    const after = { timeMultiplier, windowExtensionMinutes, dueExtensionHours };
+
+    const txResult = await db.runTransaction(async (tx) => {
+      const [enrollSnap, existingSnap] = await Promise.all([tx.get(enrollRef), tx.get(ref)]);
+      if (!enrollSnap.exists) {
+        const err = new Error('Student is not enrolled in this course');
+        (err as any).status = 404;
+        throw err;
+      }
+
+      const existing = existingSnap.exists ? (existingSnap.data() as any) : null;
+      const before = accommodationFrom(existing);
+      const priorRevision = Number(existing?.revision ?? 0);
+      const revision = Number.isFinite(priorRevision) ? priorRevision + 1 : 1;
+
+      tx.set(
+        ref,
+        {
+          studentId,
+          ...after,
+          reason,
+          revision,
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedAtBy: caller.uid,
+          createdAt: existing?.createdAt ?? FieldValue.serverTimestamp(),
+          createdBy: existing?.createdBy ?? caller.uid,
+        },
+        { merge: true }
+      );
+
+      return { before, revision };
+    });
+
+    await writeAuditLog({
+      action: 'accommodation.set',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      targetUid: studentId,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, studentId, before: txResult.before, after, revision: txResult.revision, reason },
+    });
+
+    await emitDomainEvent({
+      type: 'accommodation.set',
+      courseId,
+      actorUid: caller.uid,
+      actorRole: caller.role,
+      aggregate: { kind: 'accommodation', id: studentId, version: txResult.revision },
+      payload: { courseId, studentId, ...after, active: hasAccommodation(after) },
+      idempotencyKey: `accommodation.set:${courseId}:${studentId}:r${txResult.revision}`,
+      requestId: ctx.requestId,
+    });
+
+    return res.status(200).json({ ok: true, revision: txResult.revision, accommodation: after });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,183 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import { gradingSchemeFrom } from '../_lib/gradingScheme';
+import { computeFinalGrade, courseGradePercent, finalGradeSchemeFrom } from '../_lib/finalGrades';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 200 * 1024;
+const MAX_ENROLLMENTS_SCAN = 2000;
+const BATCH_SIZE = 400;
+
+type Body = {
+  courseId: string;
+  // External (university) marks out of the scheme's externalMax; null clears a student's entry.
+  // Students not listed keep the external marks already stored on their final grade.
+  externalMarks?: Array<{ studentId: string; marks: number | null }>;
+};
+
+// Recomputes finalGrades/{uid} for every actively enrolled student from the current gradebook (released
+// grades only). Run it again after grades change; final grades are a snapshot, not kept in sync.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    if (!courseId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (body.externalMarks != null && (!Array.isArray(body.externalMarks) || body.externalMarks.length > MAX_ENROLLMENTS_SCAN)) {
+      return res.status(400).json({ error: 'Invalid externalMarks', requestId: ctx.requestId });
+    }
+    const externalUpdates = new Map<string, number | null>();
+    for (const entry of body.externalMarks ?? []) {
+      const studentId = typeof entry?.studentId === 'string' ? entry.studentId.trim() : '';
+      const marks = entry?.marks == null ? null : Number(entry.marks);
+      if (!studentId || externalUpdates.has(studentId) || (marks != null && (!Number.isFinite(marks) || marks < 0))) {
+        return res.status(400).json({ error: 'Invalid externalMarks', requestId: ctx.requestId });
+      }
+      externalUpdates.set(studentId, marks);
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+
+    const enrollSnap = await courseRef.collection('enrollments').where('status', '==', 'active').limit(MAX_ENROLLMENTS_SCAN + 1).get();
+    if (enrollSnap.size > MAX_ENROLLMENTS_SCAN) {
+      return res.status(413).json({ error: 'Too many enrollments', requestId: ctx.requestId });
+    }
+    const studentIds = enrollSnap.docs.filter((d) => (d.data() as any)?.role !== 'instructor').map((d) => d.id);
+    const enrolled = new Set(studentIds);
+    for (const studentId of externalUpdates.keys()) {
+      if (!enrolled.has(studentId)) {
+        return res.status(400).json({ error: `Not an enrolled student: ${studentId}`, requestId: ctx.requestId });
+      }
+    }
+
+    // Bumping the revision first gives the run a stable id for the event and for the docs it writes.
+    const run = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(courseRef);
+      const course = snap.data() as any;
+      const scheme = finalGradeSchemeFrom(course);
+      if (!scheme) {
+        const err = new Error('Set a final grade scheme first');
+        (err as any).status = 409;
+        throw err;
+      }
+      for (const marks of externalUpdates.values()) {
+        if (marks != null && marks > scheme.externalMax) {
+          const err = new Error(`External marks must be at most ${scheme.externalMax}`);
+          (err as any).status = 400;
+          throw err;
+        }
+      }
+      const revision = Number(course?.finalGradesRevision ?? 0) + 1;
+      tx.update(courseRef, { finalGradesRevision: revision, updatedAt: FieldValue.serverTimestamp() });
+      return { scheme, gradingScheme: gradingSchemeFrom(course), revision };
+    });
+    const { scheme, gradingScheme, revision } = run;
+
+    const [gradebookSnaps, finalSnaps] = studentIds.length
+      ? await Promise.all([
+          db.getAll(...studentIds.map((uid) => courseRef.collection('gradebook').doc(uid))),
+          db.getAll(...studentIds.map((uid) => courseRef.collection('finalGrades').doc(uid))),
+        ])
+      : [[], []];
+
+    const results = studentIds.map((studentId, i) => {
+      const gradebook = gradebookSnaps[i]?.exists ? gradebookSnaps[i].data() : null;
+      const previous = finalSnaps[i]?.exists ? (finalSnaps[i].data() as any) : null;
+      const storedExternal = previous?.externalMarks == null ? null : Number(previous.externalMarks);
+      const externalMarks = externalUpdates.has(studentId) ? externalUpdates.get(studentId) ?? null : storedExternal;
+      const internalPercent = courseGradePercent(gradingScheme, gradebook);
+      return { studentId, internalPercent, ...computeFinalGrade(scheme, internalPercent, externalMarks) };
+    });
+
+    for (let i = 0; i < results.length; i += BATCH_SIZE) {
+      const batch = db.batch();
+      for (const r of results.slice(i, i + BATCH_SIZE)) {
+        batch.set(courseRef.collection('finalGrades').doc(r.studentId), {
+          ...r,
+          credits: scheme.credits,
+          internalMax: scheme.internalMax,
+          externalMax: scheme.externalMax,
+          schemeRevision: scheme.revision,
+          gradingSchemeRevision: gradingScheme?.revision ?? null,
+          finalGradesRevision: revision,
+          computedAt: FieldValue.serverTimestamp(),
+          computedBy: caller.uid,
+        });
+      }
+      await batch.commit();
+    }
+
+    const completeCount = results.filter((r) => r.status === 'complete').length;
+
+    await writeAuditLog({
+      action: 'gradebook.finalGrades.compute',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        revision,
+        schemeRevision: scheme.revision,
+        students: results.length,
+        complete: completeCount,
+        externalMarksUpdated: externalUpdates.size,
+      },
+    });
+
+    await emitDomainEvent({
+      type: 'gradebook.final_grades.computed',
+      courseId,
+      actorUid: caller.uid,
+      actorRole: caller.role,
+      aggregate: { kind: 'course', id: courseId, version: revision },
+      payload: { courseId, revision, schemeRevision: scheme.revision, students: results.length, complete: completeCount },
+      idempotencyKey: `gradebook.final_grades.computed:${courseId}:r${revision}`,
+      requestId: ctx.requestId,
+    });
+
+    return res.status(200).json({
+      ok: true,
+      revision,
+      complete: completeCount,
+      awaitingExternal: results.length - completeCount,
+      finalGrades: results,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
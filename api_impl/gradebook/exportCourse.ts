@@ -0,0 +1,293 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { toCsv, type CsvCell } from '../_lib/csv';
+import { toXlsx } from '../_lib/xlsx';
+import { assignmentGradeId } from '../_lib/assignmentGrades';
+import { gradeItemsFrom, gradingSchemeFrom, summarizeGradebook } from '../_lib/gradingScheme';
+import { courseGradePercent } from '../_lib/finalGrades';
+import { inferRollNumberFromCollegeEmail, normalizeCollegeEmail } from '../../lib/collegeEmail';
+import { getGradeInfo } from '../../lib/calculatorUtils';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+const MAX_ENROLLMENTS_SCAN = 2000;
+const MAX_SOURCES_SCAN = 300;
+const MAX_COLUMNS = 500;
+
+type Body = {
+  courseId: string;
+  format: 'csv' | 'xlsx';
+  // Column tokens in output order (see parseColumns); defaults to DEFAULT_COLUMNS.
+  columns?: string[];
+};
+
+// 'items' and 'categories' expand to every assignment/test and every scheme category, in course order;
+// single ones are 'item:assignment:<id>', 'item:test:<id>' and 'category:<id>'.
+const DEFAULT_COLUMNS = ['rollNumber', 'name', 'items', 'categories', 'percent', 'letter'];
+// The final* columns come from finalGrades (gradebook/computeFinalGrades) and are blank until it has run.
+const STUDENT_COLUMNS = [
+  'rollNumber',
+  'name',
+  'email',
+  'studentId',
+  'totalScore',
+  'totalPossible',
+  'percent',
+  'letter',
+  'finalInternal',
+  'finalExternal',
+  'finalTotal',
+  'finalGrade',
+  'gradePoints',
+] as const;
+
+type StudentColumn = (typeof STUDENT_COLUMNS)[number];
+type ItemSource = { sourceType: 'assignment' | 'test'; sourceId: string; title: string; pointsPossible: number };
+type Column =
+  | { kind: 'student'; key: StudentColumn }
+  | { kind: 'item'; source: ItemSource }
+  | { kind: 'category'; id: string; name: string; weightPercent: number };
+
+function parseColumns(
+  tokens: string[],
+  sources: ItemSource[],
+  categories: Array<{ id: string; name: string; weightPercent: number }>
+): { ok: true; columns: Column[] } | { ok: false; error: string } {
+  const columns: Column[] = [];
+  for (const raw of tokens) {
+    const token = typeof raw === 'string' ? raw.trim() : '';
+    if ((STUDENT_COLUMNS as readonly string[]).includes(token)) {
+      columns.push({ kind: 'student', key: token as StudentColumn });
+    } else if (token === 'items') {
+      for (const source of sources) columns.push({ kind: 'item', source });
+    } else if (token === 'categories') {
+      for (const c of categories) columns.push({ kind: 'category', ...c });
+    } else if (token.startsWith('item:')) {
+      const [, sourceType, sourceId] = token.split(':');
+      const source = sources.find((s) => s.sourceType === sourceType && s.sourceId === sourceId);
+      if (!source) return { ok: false, error: `Unknown column: ${token}` };
+      columns.push({ kind: 'item', source });
+    } else if (token.startsWith('category:')) {
+      const c = categories.find((x) => x.id === token.slice('category:'.length));
+      if (!c) return { ok: false, error: `Unknown column: ${token}` };
+      columns.push({ kind: 'category', ...c });
+    } else {
+      return { ok: false, error: `Unknown column: ${token}` };
+    }
+  }
+  if (columns.length === 0 || columns.length > MAX_COLUMNS) return { ok: false, error: 'Invalid columns' };
+  return { ok: true, columns };
+}
+
+function columnHeader(c: Column): string {
+  if (c.kind === 'item') return `${c.source.title} (/${c.source.pointsPossible})`;
+  if (c.kind === 'category') return `${c.name} % (weight ${c.weightPercent})`;
+  const labels: Record<StudentColumn, string> = {
+    rollNumber: 'Roll Number',
+    name: 'Name',
+    email: 'College Email',
+    studentId: 'Student ID',
+    totalScore: 'Total Score',
+    totalPossible: 'Total Possible',
+    percent: 'Percentage',
+    letter: 'Grade',
+    finalInternal: 'Internal Marks',
+    finalExternal: 'External Marks',
+    finalTotal: 'Final Marks',
+    finalGrade: 'Final Grade',
+    gradePoints: 'Grade Points',
+  };
+  return labels[c.key];
+}
+
+function sortKey(d: any): number {
+  const millis = Number(d?.dueMillis ?? d?.windowStartMillis);
+  return Number.isFinite(millis) ? millis : Number.MAX_SAFE_INTEGER;
+}
+
+// One row per actively enrolled student, from their gradebook doc: only released grades appear, and
+// percent is the scheme's weighted percentage when the course has one, else total score over possible.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const format = body.format;
+    if (!courseId || (format !== 'csv' && format !== 'xlsx')) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (body.columns != null && (!Array.isArray(body.columns) || body.columns.length === 0 || body.columns.length > MAX_COLUMNS)) {
+      return res.status(400).json({ error: 'Invalid columns', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef, course } = await requireCourseExists(courseId);
+    const scheme = gradingSchemeFrom(course);
+
+    const [assignmentsSnap, testsSnap, enrollSnap] = await Promise.all([
+      courseRef.collection('assignments').limit(MAX_SOURCES_SCAN + 1).get(),
+      courseRef.collection('tests').limit(MAX_SOURCES_SCAN + 1).get(),
+      courseRef.collection('enrollments').where('status', '==', 'active').limit(MAX_ENROLLMENTS_SCAN + 1).get(),
+    ]);
+    if (assignmentsSnap.size > MAX_SOURCES_SCAN || testsSnap.size > MAX_SOURCES_SCAN || enrollSnap.size > MAX_ENROLLMENTS_SCAN) {
+      return res.status(413).json({ error: 'Course is too large to export', requestId: ctx.requestId });
+    }
+
+    const sources: ItemSource[] = [
+      ...assignmentsSnap.docs.map((d) => ({ d, sourceType: 'assignment' as const })),
+      // Only assessed tests produce grades.
+      ...testsSnap.docs
+        .filter((d) => (d.data() as any)?.isAssessed === true || (d.data() as any)?.mode === 'scheduled')
+        .map((d) => ({ d, sourceType: 'test' as const })),
+    ]
+      .filter(({ d }) => (d.data() as any)?.status !== 'draft')
+      .sort((a, b) => sortKey(a.d.data()) - sortKey(b.d.data()) || a.d.id.localeCompare(b.d.id))
+      .map(({ d, sourceType }) => {
+        const data = d.data() as any;
+        return {
+          sourceType,
+          sourceId: d.id,
+          title: String(data?.title ?? d.id),
+          pointsPossible: Number(data?.pointsPossible ?? 0),
+        };
+      });
+
+    const parsed = parseColumns(body.columns ?? DEFAULT_COLUMNS, sources, scheme?.categories ?? []);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error, requestId: ctx.requestId });
+    }
+    const columns = parsed.columns;
+
+    const studentIds = enrollSnap.docs.filter((d) => (d.data() as any)?.role !== 'instructor').map((d) => d.id);
+    const [userSnaps, gradebookSnaps, finalSnaps] = studentIds.length
+      ? await Promise.all([
+          db.getAll(...studentIds.map((uid) => db.collection('users').doc(uid))),
+          db.getAll(...studentIds.map((uid) => courseRef.collection('gradebook').doc(uid))),
+          db.getAll(...studentIds.map((uid) => courseRef.collection('finalGrades').doc(uid))),
+        ])
+      : [[], [], []];
+
+    const students = studentIds.map((uid, i) => {
+      const u = userSnaps[i]?.exists ? (userSnaps[i].data() as any) : {};
+      const gradebook = gradebookSnaps[i]?.exists ? (gradebookSnaps[i].data() as any) : {};
+      const finalGrade = finalSnaps[i]?.exists ? (finalSnaps[i].data() as any) : null;
+      const email = typeof u?.collegeEmail === 'string' ? normalizeCollegeEmail(u.collegeEmail) : '';
+      const rollNumber =
+        typeof u?.rollNumber === 'string' && u.rollNumber.trim() ? u.rollNumber.trim().toUpperCase() : inferRollNumberFromCollegeEmail(email) ?? '';
+      const items = gradeItemsFrom(gradebook);
+      const summary = summarizeGradebook(scheme, items);
+      const totalScore = Number(gradebook?.totalScore ?? 0);
+      const totalPossible = Number(gradebook?.totalPossible ?? 0);
+      const percent = courseGradePercent(scheme, gradebook);
+      return {
+        uid,
+        rollNumber,
+        name: typeof u?.displayName === 'string' ? u.displayName.trim() : '',
+        email,
+        totalScore,
+        totalPossible,
+        percent,
+        itemScores: new Map(items.map((item) => [item.gradeId, item.score])),
+        categoryPercents: new Map(summary.categories.map((c) => [c.id, c.percent])),
+        finalGrade,
+      };
+    });
+    // Roll number order, as the portal lists students; profiles without one go last.
+    students.sort(
+      (a, b) => Number(!a.rollNumber) - Number(!b.rollNumber) || a.rollNumber.localeCompare(b.rollNumber) || a.name.localeCompare(b.name)
+    );
+
+    const cell = (s: (typeof students)[number], c: Column): CsvCell => {
+      if (c.kind === 'item') {
+        const gradeId =
+          c.source.sourceType === 'assignment' ? assignmentGradeId(c.source.sourceId, s.uid) : `test_${c.source.sourceId}_${s.uid}`;
+        return s.itemScores.get(gradeId) ?? null;
+      }
+      if (c.kind === 'category') return s.categoryPercents.get(c.id) ?? null;
+      switch (c.key) {
+        case 'rollNumber':
+          return s.rollNumber;
+        case 'name':
+          return s.name;
+        case 'email':
+          return s.email;
+        case 'studentId':
+          return s.uid;
+        case 'totalScore':
+          return s.totalScore;
+        case 'totalPossible':
+          return s.totalPossible;
+        case 'percent':
+          return s.percent;
+        case 'letter':
+          return s.percent == null ? null : getGradeInfo(s.percent).label;
+        case 'finalInternal':
+          return s.finalGrade?.internalMarks ?? null;
+        case 'finalExternal':
+          return s.finalGrade?.externalMarks ?? null;
+        case 'finalTotal':
+          return s.finalGrade?.totalMarks ?? null;
+        case 'finalGrade':
+          return s.finalGrade?.letter ?? null;
+        case 'gradePoints':
+          return s.finalGrade?.gradePoints ?? null;
+      }
+    };
+
+    const rows: CsvCell[][] = [columns.map(columnHeader), ...students.map((s) => columns.map((c) => cell(s, c)))];
+
+    const baseName = `${String(course?.code || courseId).replace(/[^A-Za-z0-9_-]+/g, '_')}_gradebook`;
+    const exported =
+      format === 'csv'
+        ? { filename: `${baseName}.csv`, contentType: 'text/csv; charset=utf-8', encoding: 'utf8', content: toCsv(rows) }
+        : {
+            filename: `${baseName}.xlsx`,
+            contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            encoding: 'base64',
+            content: toXlsx(rows, { sheetName: String(course?.code || 'Gradebook') }).toString('base64'),
+          };
+
+    // Same audit action as the JSON gradebook read: it exposes every student's marks.
+    await writeAuditLog({
+      action: 'gradebook.read',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, export: format, rows: students.length, columns: columns.length, schemeRevision: scheme?.revision ?? null },
+    });
+
+    return res.status(200).json({ ok: true, ...exported, rows: students.length });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,143 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireActiveEnrollmentOrPlatform, requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+const MAX_GRADES_SCAN = 500;
+const MAX_HISTORY_PER_GRADE = 200;
+
+type Body = {
+  courseId: string;
+  // Defaults to the caller; anyone else's timeline needs an instructor.
+  studentId?: string;
+};
+
+// Every recorded change to a student's grades in one course, oldest first, from the append-only
+// grades/{gradeId}/history entries. Students see their own timeline without changes made while held.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const studentId = (body.studentId ?? '').trim() || caller.uid;
+    if (!courseId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    const isOwner = studentId === caller.uid;
+    if (isOwner) {
+      await requireActiveEnrollmentOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+    } else {
+      await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+    }
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+
+    const gradesSnap = await courseRef.collection('grades').where('studentId', '==', studentId).limit(MAX_GRADES_SCAN + 1).get();
+    if (gradesSnap.size > MAX_GRADES_SCAN) {
+      return res.status(413).json({ error: 'Too many grades', requestId: ctx.requestId });
+    }
+
+    const historySnaps = await Promise.all(
+      gradesSnap.docs.map((d) => d.ref.collection('history').orderBy('at', 'asc').limit(MAX_HISTORY_PER_GRADE).get())
+    );
+
+    const entries = historySnaps
+      .flatMap((snap) => snap.docs)
+      .map((d) => {
+        const data = d.data() as any;
+        return {
+          id: d.id,
+          gradeId: String(data?.gradeId ?? ''),
+          sourceType: data?.sourceType === 'test' ? 'test' : 'assignment',
+          sourceId: String(data?.sourceId ?? ''),
+          gradeRevision: Number(data?.gradeRevision ?? 0),
+          source: String(data?.source ?? ''),
+          actorUid: String(data?.actorUid ?? ''),
+          from: data?.from ?? null,
+          to: data?.to ?? null,
+          reason: typeof data?.reason === 'string' ? data.reason : null,
+          details: data?.details ?? null,
+          atMillis: typeof data?.at?.toMillis === 'function' ? Number(data.at.toMillis()) : null,
+        };
+      })
+      .filter((e) => !isOwner || e.to?.released !== false)
+      // A score that was held and never released is not shown as the "from" value either.
+      .map((e) => (isOwner && e.from?.released === false ? { ...e, from: null } : e))
+      .sort(
+        (a, b) =>
+          (a.atMillis ?? 0) - (b.atMillis ?? 0) || a.gradeId.localeCompare(b.gradeId) || a.gradeRevision - b.gradeRevision
+      );
+
+    // Titles and actor names so a dispute can be read without cross-referencing ids.
+    const sourceKeys = Array.from(new Set(entries.map((e) => `${e.sourceType}:${e.sourceId}`)));
+    const actorUids = Array.from(new Set(entries.map((e) => e.actorUid).filter((uid) => uid && uid !== 'system')));
+    const [sourceSnaps, actorSnaps] = await Promise.all([
+      sourceKeys.length
+        ? db.getAll(
+            ...sourceKeys.map((key) => {
+              const [sourceType, sourceId] = key.split(':');
+              return courseRef.collection(sourceType === 'test' ? 'tests' : 'assignments').doc(sourceId);
+            })
+          )
+        : Promise.resolve([] as FirebaseFirestore.DocumentSnapshot[]),
+      actorUids.length
+        ? db.getAll(...actorUids.map((uid) => db.collection('users').doc(uid)))
+        : Promise.resolve([] as FirebaseFirestore.DocumentSnapshot[]),
+    ]);
+    const titleByKey = new Map(
+      sourceKeys.map((key, i) => [key, sourceSnaps[i]?.exists ? String((sourceSnaps[i].data() as any)?.title ?? '') : null])
+    );
+    const nameByUid = new Map(
+      actorUids.map((uid, i) => [uid, actorSnaps[i]?.exists ? String((actorSnaps[i].data() as any)?.displayName ?? '') : null])
+    );
+
+    const timeline = entries.map((e) => ({
+      ...e,
+      sourceTitle: titleByKey.get(`${e.sourceType}:${e.sourceId}`) ?? null,
+      actorName: e.actorUid === 'system' ? null : nameByUid.get(e.actorUid) ?? null,
+    }));
+
+    await writeAuditLog({
+      action: 'grade.history.read',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      targetUid: studentId,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, entries: timeline.length, grades: gradesSnap.size },
+    });
+
+    return res.status(200).json({ ok: true, studentId, timeline });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,112 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+
+type MyFinalGradesBody = {
+  term?: string;
+  limit?: number;
+};
+
+type MyFinalGradeResult = {
+  courseId: string;
+  name: string;
+  code: string;
+  term: string;
+  credits: number;
+  internal: number;
+  external: number | null;
+  // External pass mark; below it the grade is F whatever the total.
+  minExternal: number;
+  total: number | null;
+  letter: string | null;
+  gradePoints: number | null;
+  status: 'complete' | 'awaiting_external';
+};
+
+// The caller's own final grades across their active student enrollments. Rows carry the SGPA
+// calculator's fields (credits/internal/external) so they can be loaded into it directly.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    const body = (req.body || {}) as MyFinalGradesBody;
+
+    const term = typeof body.term === 'string' ? body.term.trim() : '';
+    const limit = Math.max(1, Math.min(100, Number(body.limit ?? 50)));
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const enrollmentsSnap = await db
+      .collectionGroup('enrollments')
+      .where('userId', '==', caller.uid)
+      .where('status', '==', 'active')
+      .limit(limit)
+      .get();
+
+    const courseIds = Array.from(
+      new Set(
+        enrollmentsSnap.docs
+          .map((d) => d.data() as any)
+          .filter((e) => e?.role !== 'instructor')
+          .map((e) => String(e?.courseId || '').trim())
+          .filter(Boolean)
+      )
+    );
+    if (!courseIds.length) return res.status(200).json({ finalGrades: [] as MyFinalGradeResult[] });
+
+    const [courseSnaps, finalSnaps] = await Promise.all([
+      db.getAll(...courseIds.map((id) => db.collection('courses').doc(id))),
+      db.getAll(...courseIds.map((id) => db.collection('courses').doc(id).collection('finalGrades').doc(caller.uid))),
+    ]);
+
+    const results: MyFinalGradeResult[] = [];
+    courseIds.forEach((courseId, i) => {
+      const course = courseSnaps[i]?.exists ? (courseSnaps[i].data() as any) : null;
+      const finalGrade = finalSnaps[i]?.exists ? (finalSnaps[i].data() as any) : null;
+      if (!course || !finalGrade) return;
+      if (term && String(course.term ?? '') !== term) return;
+
+      results.push({
+        courseId,
+        name: String(course.name ?? ''),
+        code: String(course.code ?? ''),
+        term: String(course.term ?? ''),
+        credits: Number(finalGrade.credits ?? 0),
+        internal: Number(finalGrade.internalMarks ?? 0),
+        external: finalGrade.externalMarks == null ? null : Number(finalGrade.externalMarks),
+        minExternal: Number(finalGrade.minExternalMarks ?? 0),
+        total: finalGrade.totalMarks == null ? null : Number(finalGrade.totalMarks),
+        letter: typeof finalGrade.letter === 'string' ? finalGrade.letter : null,
+        gradePoints: finalGrade.gradePoints == null ? null : Number(finalGrade.gradePoints),
+        status: finalGrade.status === 'complete' ? 'complete' : 'awaiting_external',
+      });
+    });
+
+    results.sort((a, b) => String(b.term).localeCompare(String(a.term)) || a.code.localeCompare(b.code));
+
+    return res.status(200).json({ finalGrades: results });
+  } catch (e: any) {
+    const statusCode = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(statusCode).json({ error: message, requestId: ctx.requestId });
+  }
+}
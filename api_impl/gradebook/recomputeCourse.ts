@@ -0,0 +1,87 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import { sanitizeOptionalReason } from '../_lib/sanitize';
+import { gradingSchemeFrom } from '../_lib/gradingScheme';
+import { recomputeCourseGradebooks } from '../_lib/gradebookRecompute';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+
+type Body = {
+  courseId: string;
+  reason?: string;
+};
+
+// Course-wide gradebook/recomputeStudent: rebuilds every gradebook from its grade docs. Also the
+// backfill for gradebooks written before gradeItems and category summaries existed.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const reason = sanitizeOptionalReason(body.reason);
+    if (!courseId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef, course } = await requireCourseExists(courseId);
+    const schemeRevision = gradingSchemeFrom(course)?.revision ?? null;
+
+    const result = await recomputeCourseGradebooks({ db, courseRef, actorUid: caller.uid });
+
+    await writeAuditLog({
+      action: 'gradebook.recompute',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, scope: 'course', schemeRevision, ...result, reason },
+    });
+
+    await emitDomainEvent({
+      type: 'gradebook.course.recomputed',
+      courseId,
+      actorUid: caller.uid,
+      actorRole: caller.role,
+      aggregate: { kind: 'course', id: courseId },
+      payload: { courseId, schemeRevision, ...result, reason },
+      idempotencyKey: `gradebook.course.recomputed:${courseId}:${ctx.requestId}`,
+      requestId: ctx.requestId,
+    });
+
+    return res.status(200).json({ ok: true, ...result });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -1,4 +1,3 @@
-import { FieldValue } from 'firebase-admin/firestore';
 import { applyCors, isOriginAllowed } from '../_lib/cors';
 import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
 import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
@@ -7,12 +6,14 @@ import { writeAuditLog } from '../_lib/auditLog';
 import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
 import { emitDomainEvent } from '../_lib/domainEvents';
 import { sanitizeOptionalReason } from '../_lib/sanitize';
+import { recomputeStudentGradebook } from '../_lib/gradebookRecompute';
+import { gradeItemsFrom, summarizeGradebook, type CategorySubtotal } from '../_lib/gradingScheme';
 
 export const config = { runtime: 'nodejs' };
 
 const MAX_BODY_SIZE = 10 * 1024;
-const MAX_GRADES_SCAN = 1000;
 const DRIFT_WARN_POINTS = 1; // log flag when delta is meaningfully large
+const DRIFT_WARN_PERCENT = 0.5;
 
 type Body = {
   courseId: string;
@@ -55,49 +56,42 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const { courseRef } = await requireCourseExists(courseId);
 
-    const gradesSnap = await courseRef
-      .collection('grades')
-      .where('studentId', '==', studentId)
-      .limit(MAX_GRADES_SCAN + 1)
-      .get();
-
-    if (gradesSnap.size > MAX_GRADES_SCAN) {
-      return res.status(413).json({ error: 'Too many grades to recompute', requestId: ctx.requestId });
-    }
-
-    let totalScore = 0;
-    let totalPossible = 0;
-    for (const d of gradesSnap.docs) {
-      const g = d.data() as any;
-      const s = Number(g?.score ?? 0);
-      const p = Number(g?.pointsPossible ?? 0);
-      if (Number.isFinite(s)) totalScore += s;
-      if (Number.isFinite(p)) totalPossible += p;
-    }
-
-    const gradebookRef = courseRef.collection('gradebook').doc(studentId);
+    // Read and rebuilt in one transaction; the drift is measured against the gradebook it replaced.
+    const { scheme, before: gradebookBefore, totals, summary } = await recomputeStudentGradebook({
+      db,
+      courseRef,
+      studentId,
+      actorUid: caller.uid,
+    });
+    const { totalScore, totalPossible } = totals;
 
-    const gradebookBeforeSnap = await gradebookRef.get();
-    const beforeTotalScore = gradebookBeforeSnap.exists ? Number((gradebookBeforeSnap.data() as any)?.totalScore ?? 0) : 0;
-    const beforeTotalPossible = gradebookBeforeSnap.exists ? Number((gradebookBeforeSnap.data() as any)?.totalPossible ?? 0) : 0;
+    const beforeTotalScore = Number(gradebookBefore.totalScore ?? 0);
+    const beforeTotalPossible = Number(gradebookBefore.totalPossible ?? 0);
     const safeBeforeScore = Number.isFinite(beforeTotalScore) ? beforeTotalScore : 0;
     const safeBeforePossible = Number.isFinite(beforeTotalPossible) ? beforeTotalPossible : 0;
     const deltaTotalScore = totalScore - safeBeforeScore;
     const deltaTotalPossible = totalPossible - safeBeforePossible;
-    const driftFlagged =
-      Math.abs(deltaTotalScore) >= DRIFT_WARN_POINTS || Math.abs(deltaTotalPossible) >= DRIFT_WARN_POINTS;
 
-    await gradebookRef.set(
-      {
-        studentId,
-        totalScore,
-        totalPossible,
-        computedAt: FieldValue.serverTimestamp(),
-        updatedAt: FieldValue.serverTimestamp(),
-        updatedAtBy: caller.uid,
-      },
-      { merge: true }
+    // Category drift: subtotals rebuilt from the stored gradeItems under the current scheme, compared
+    // with the ones rebuilt from the grade docs (a scheme edit alone is not drift).
+    const beforeCategories = new Map<string, CategorySubtotal>(
+      summarizeGradebook(scheme, gradeItemsFrom(gradebookBefore)).categories.map((c) => [c.id, c])
     );
+    const driftCategories = summary.categories
+      .filter((c) => {
+        const b = beforeCategories.get(c.id);
+        return Math.abs(c.score - (b?.score ?? 0)) >= DRIFT_WARN_POINTS || Math.abs(c.possible - (b?.possible ?? 0)) >= DRIFT_WARN_POINTS;
+      })
+      .map((c) => c.id);
+    const beforeWeighted = typeof gradebookBefore.weightedPercent === 'number' ? gradebookBefore.weightedPercent : null;
+    const weightedDrift =
+      beforeWeighted != null && summary.weightedPercent != null ? summary.weightedPercent - beforeWeighted : null;
+
+    const driftFlagged =
+      Math.abs(deltaTotalScore) >= DRIFT_WARN_POINTS ||
+      Math.abs(deltaTotalPossible) >= DRIFT_WARN_POINTS ||
+      driftCategories.length > 0 ||
+      (weightedDrift != null && Math.abs(weightedDrift) >= DRIFT_WARN_PERCENT);
 
     await writeAuditLog({
       action: 'gradebook.recompute',
@@ -114,6 +108,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         before: { totalScore: safeBeforeScore, totalPossible: safeBeforePossible },
         after: { totalScore, totalPossible },
         delta: { totalScore: deltaTotalScore, totalPossible: deltaTotalPossible },
+        weightedPercent: { before: beforeWeighted, after: summary.weightedPercent },
+        schemeRevision: scheme?.revision ?? null,
+        driftCategories,
         driftFlagged,
         reason,
       },
@@ -125,12 +122,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       actorUid: caller.uid,
       actorRole: caller.role,
       aggregate: { kind: 'gradebook', id: studentId },
-      payload: { courseId, studentId, totalScore, totalPossible, reason, deltaTotalScore, deltaTotalPossible, driftFlagged },
+      payload: {
+        courseId,
+        studentId,
+        totalScore,
+        totalPossible,
+        weightedPercent: summary.weightedPercent,
+        reason,
+        deltaTotalScore,
+        deltaTotalPossible,
+        driftCategories,
+        driftFlagged,
+      },
       idempotencyKey: `gradebook.student.recomputed:${courseId}:${studentId}:${totalScore}:${totalPossible}`,
       requestId: ctx.requestId,
     });
 
-    return res.status(200).json({ ok: true, totalScore, totalPossible });
+    return res.status(200).json({ ok: true, totalScore, totalPossible, ...summary, driftCategories });
   } catch (e: any) {
     const status = typeof e?.status === 'number' ? e.status : 500;
     const message = e?.message || 'Internal Server Error';
@@ -0,0 +1,101 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import { finalGradeSchemeFrom, normalizeFinalGradeScheme } from '../_lib/finalGrades';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+
+type Body = {
+  courseId: string;
+  // Component split on 100 marks, e.g. 40 internal + 60 external.
+  internalMax: number;
+  externalMax: number;
+  credits: number;
+  minExternalPercent?: number;
+};
+
+// Existing final grades pick the new scheme up on the next gradebook/computeFinalGrades.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    if (!courseId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    const parsed = normalizeFinalGradeScheme(body);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error, requestId: ctx.requestId });
+    }
+    const scheme = parsed.scheme;
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+
+    const txResult = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(courseRef);
+      const before = finalGradeSchemeFrom(snap.data());
+      const revision = (before?.revision ?? 0) + 1;
+      tx.update(courseRef, {
+        finalGradeScheme: { ...scheme, revision, updatedAt: FieldValue.serverTimestamp(), updatedBy: caller.uid },
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return { before, revision };
+    });
+
+    await writeAuditLog({
+      action: 'gradebook.finalScheme.set',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, revision: txResult.revision, before: txResult.before, after: scheme },
+    });
+
+    await emitDomainEvent({
+      type: 'gradebook.final_scheme.updated',
+      courseId,
+      actorUid: caller.uid,
+      actorRole: caller.role,
+      aggregate: { kind: 'course', id: courseId, version: txResult.revision },
+      payload: { courseId, revision: txResult.revision, ...scheme },
+      idempotencyKey: `gradebook.final_scheme.updated:${courseId}:r${txResult.revision}`,
+      requestId: ctx.requestId,
+    });
+
+    return res.status(200).json({ ok: true, revision: txResult.revision, ...scheme });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,188 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { rateLimitExceeded } from '../../lib/rateLimit';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import {
+  emitGradeReleased,
+  gradeReleaseFrom,
+  releaseGradeInTx,
+  type GradeReleaseState,
+  type GradeSourceType,
+  type ReleasedGrade,
+} from '../_lib/gradeRelease';
+import { notifyUsers } from '../_lib/notifications';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+const MAX_GRADES_RELEASE = 1000;
+
+type Body = {
+  courseId: string;
+  sourceType: GradeSourceType;
+  sourceId: string;
+  state: GradeReleaseState;
+  // Release only: also drop a notification into each affected student's feed.
+  notify?: boolean;
+};
+
+// Switching to 'held' only affects grades written from then on; switching to 'released' releases
+// every held grade for the source, one transaction per grade, so a retry picks up where it stopped.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const sourceId = (body.sourceId ?? '').trim();
+    const sourceType = body.sourceType;
+    const state = body.state;
+    if (
+      !courseId ||
+      !sourceId ||
+      (sourceType !== 'assignment' && sourceType !== 'test') ||
+      (state !== 'held' && state !== 'released')
+    ) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    const notify = state === 'released' && body.notify === true;
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const limiterKey = `grades.release:${caller.uid}:${courseId}`;
+    if (await rateLimitExceeded(limiterKey, { failClosed: true })) {
+      return res.status(429).json({ error: 'Too Many Requests', requestId: ctx.requestId });
+    }
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const sourceRef = courseRef.collection(sourceType === 'assignment' ? 'assignments' : 'tests').doc(sourceId);
+
+    // Flip the source before looking for held grades: a grade written after the flip is released on
+    // write, and one written before it is already held when the query below runs.
+    const source = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(sourceRef);
+      if (!snap.exists) {
+        const err = new Error(sourceType === 'assignment' ? 'Assignment not found' : 'Test not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      const data = snap.data() as any;
+      const previous = gradeReleaseFrom(data);
+      const priorRevision = Number(data?.gradeReleaseRevision ?? 0);
+      const releaseRevision = (Number.isFinite(priorRevision) ? priorRevision : 0) + (state === 'released' ? 1 : 0);
+      tx.update(sourceRef, {
+        gradeRelease: state,
+        gradeReleaseRevision: releaseRevision,
+        updatedAt: FieldValue.serverTimestamp(),
+        updatedAtBy: caller.uid,
+      });
+      return { title: String(data?.title ?? ''), previous, releaseRevision };
+    });
+
+    const heldSnap =
+      state === 'released'
+        ? await courseRef
+            .collection('grades')
+            .where('sourceType', '==', sourceType)
+            .where('sourceId', '==', sourceId)
+            .where('released', '==', false)
+            .limit(MAX_GRADES_RELEASE + 1)
+            .get()
+        : null;
+    // Past the cap the rest stay held; releasing again picks them up.
+    const truncated = !!heldSnap && heldSnap.size > MAX_GRADES_RELEASE;
+
+    const released: ReleasedGrade[] = [];
+    for (const d of (heldSnap?.docs ?? []).slice(0, MAX_GRADES_RELEASE)) {
+      const result = await db.runTransaction((tx) => releaseGradeInTx(tx, { courseRef, gradeRef: d.ref, actorUid: caller.uid }));
+      if (result) released.push(result);
+    }
+
+    await writeAuditLog({
+      action: state === 'released' ? 'grades.release' : 'grades.hold',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        sourceType,
+        sourceId,
+        previous: source.previous,
+        state,
+        releasedCount: released.length,
+        truncated,
+        notify,
+      },
+    });
+
+    if (state === 'released') {
+      for (const r of released) {
+        await emitGradeReleased({
+          courseId,
+          sourceType,
+          sourceId,
+          released: r,
+          actorUid: caller.uid,
+          actorRole: caller.role,
+          requestId: ctx.requestId,
+        });
+      }
+
+      await emitDomainEvent({
+        type: 'grades.released',
+        courseId,
+        actorUid: caller.uid,
+        actorRole: caller.role,
+        aggregate: { kind: sourceType, id: sourceId, version: source.releaseRevision },
+        payload: { courseId, sourceType, sourceId, releasedCount: released.length, studentIds: released.map((r) => r.studentId) },
+        idempotencyKey: `grades.released:${courseId}:${sourceType}:${sourceId}:r${source.releaseRevision}`,
+        requestId: ctx.requestId,
+      });
+    }
+
+    let notifiedCount = 0;
+    if (notify && released.length > 0) {
+      const result = await notifyUsers({
+        uids: released.map((r) => r.studentId),
+        key: `grade_released:${courseId}:${sourceType}:${sourceId}:r${source.releaseRevision}`,
+        type: 'grade_released',
+        title: source.title ? `Grades released: ${source.title}` : 'Grades released',
+        courseId,
+        data: { sourceType, sourceId },
+      });
+      notifiedCount = result.notifiedCount;
+    }
+
+    return res.status(200).json({ ok: true, state, releasedCount: released.length, truncated, notifiedCount });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,127 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import { gradingSchemeFrom, normalizeGradeCategories } from '../_lib/gradingScheme';
+import { listCourseGradebookIds, recomputeCourseGradebooks } from '../_lib/gradebookRecompute';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 20 * 1024;
+
+type Body = {
+  courseId: string;
+  // Weights must add up to 100; dropLowest drops that many of the lowest-percentage items per student.
+  categories: Array<{ id: string; name: string; weightPercent: number; dropLowest?: number }>;
+};
+
+// Students read the stored summaries, so every gradebook in the course is recomputed under the new scheme.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    if (!courseId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    const parsed = normalizeGradeCategories(body.categories);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error, requestId: ctx.requestId });
+    }
+    const categories = parsed.categories;
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+
+    // Refuse up front if the course has more gradebooks than one request can recompute, rather than
+    // committing a scheme whose summaries would then be left stale.
+    await listCourseGradebookIds(courseRef);
+
+    const txResult = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(courseRef);
+      const before = gradingSchemeFrom(snap.data());
+      const revision = (before?.revision ?? 0) + 1;
+      tx.update(courseRef, {
+        gradingScheme: { categories, revision, updatedAt: FieldValue.serverTimestamp(), updatedBy: caller.uid },
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return { before: before?.categories ?? null, revision };
+    });
+
+    // The scheme is committed at this point, so a failed recompute is reported rather than thrown;
+    // gradebook/recomputeCourse finishes the job.
+    let recompute: { ok: true; recomputed: number; changed: number } | { ok: false; error: string };
+    try {
+      recompute = { ok: true, ...(await recomputeCourseGradebooks({ db, courseRef, actorUid: caller.uid })) };
+    } catch (e: any) {
+      recompute = { ok: false, error: e?.message || 'Gradebook recompute failed' };
+    }
+
+    await writeAuditLog({
+      action: 'gradebook.scheme.set',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        revision: txResult.revision,
+        before: txResult.before,
+        after: categories,
+        recompute,
+      },
+    });
+
+    await emitDomainEvent({
+      type: 'gradebook.scheme.updated',
+      courseId,
+      actorUid: caller.uid,
+      actorRole: caller.role,
+      aggregate: { kind: 'course', id: courseId, version: txResult.revision },
+      payload: {
+        courseId,
+        revision: txResult.revision,
+        categories: categories.map((c) => ({ id: c.id, weightPercent: c.weightPercent, dropLowest: c.dropLowest })),
+      },
+      idempotencyKey: `gradebook.scheme.updated:${courseId}:r${txResult.revision}`,
+      requestId: ctx.requestId,
+    });
+
+    return res.status(200).json({
+      ok: true,
+      revision: txResult.revision,
+      categories,
+      recompute,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
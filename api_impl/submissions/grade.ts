@@ -3,37 +3,42 @@ import { applyCors, isOriginAllowed } from '../_lib/cors';
 import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
 import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
 import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { sanitizeFeedback, sanitizeOptionalReason } from '../_lib/sanitize';
 import { writeAuditLog } from '../_lib/auditLog';
 import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
-import { emitDomainEvent } from '../_lib/domainEvents';
+import {
+  assignmentPointsPossible,
+  emitAssignmentGradeMutated,
+  gradeGroupSubmissionInTx,
+  gradeSubmissionInTx,
+  type AssignmentGradeResult,
+  type GroupGradeResult,
+  type RubricGrade,
+} from '../_lib/assignmentGrades';
+import { MAX_GROUP_SIZE, groupModeFrom } from '../_lib/assignmentGroups';
+import { parseRubricSelections, rubricFrom, scoreRubric, type RubricSelection } from '../_lib/rubrics';
+import { gradeSuggestionRef, suggestionOutcome, type GradeSuggestion } from '../_lib/gradeSuggestions';
 
 export const config = { runtime: 'nodejs' };
 
-const MAX_BODY_SIZE = 20 * 1024;
-
-function sanitizeFeedback(input?: string): string | undefined {
-  if (typeof input !== 'string') return undefined;
-  let s = input.trim();
-  if (!s) return undefined;
-
-  // Strip common HTML/script payloads and tags; store plaintext only.
-  s = s.replace(/<script[\s\S]*?>[\s\S]*?<\/script>/gi, '');
-  s = s.replace(/<style[\s\S]*?>[\s\S]*?<\/style>/gi, '');
-  s = s.replace(/<[^>]+>/g, '');
-
-  // Remove control chars (except newlines/tabs) and normalize whitespace.
-  s = s.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '');
-  s = s.trim();
-
-  return s || undefined;
-}
+const MAX_BODY_SIZE = 100 * 1024;
 
 type Body = {
   courseId: string;
   assignmentId: string;
-  studentId: string;
-  score: number;
+  // studentId for individual assignments, groupId for group assignments.
+  studentId?: string;
+  groupId?: string;
+  // Group only: members whose raw score differs from the group's.
+  memberOverrides?: Array<{ studentId: string; score: number }>;
+  // Either a raw score, or one level per rubric criterion (required when the assignment has a rubric).
+  score?: number;
+  rubricSelections?: Array<{ criterionId: string; levelId: string; comment?: string }>;
   feedback?: string;
+  // Individual only: this grade is the pending submissions/suggestGrade suggestion, accepted or edited.
+  fromSuggestion?: boolean;
+  // Why the grade changed (e.g. a regrade request); kept in the grade's history.
+  reason?: string;
 };
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -59,16 +64,48 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const courseId = (body.courseId ?? '').trim();
     const assignmentId = (body.assignmentId ?? '').trim();
     const studentId = (body.studentId ?? '').trim();
-    const score = Number(body.score);
+    const groupId = (body.groupId ?? '').trim();
     const feedback = sanitizeFeedback(body.feedback);
+    const byRubric = Array.isArray(body.rubricSelections);
+    const inputScore = byRubric ? null : Number(body.score);
+
+    const fromSuggestion = body.fromSuggestion === true;
+    const reason = sanitizeOptionalReason(body.reason);
 
-    if (!courseId || !assignmentId || !studentId || !Number.isFinite(score) || score < 0 || score > 1_000_000) {
+    if (!courseId || !assignmentId || !studentId === !groupId || (fromSuggestion && !studentId)) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (byRubric && body.score != null) {
+      return res.status(400).json({ error: 'Provide either score or rubricSelections', requestId: ctx.requestId });
+    }
+    if (inputScore != null && (!Number.isFinite(inputScore) || inputScore < 0 || inputScore > 1_000_000)) {
       return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
     }
     if (feedback && feedback.length > 20000) {
       return res.status(400).json({ error: 'Invalid feedback', requestId: ctx.requestId });
     }
 
+    const memberOverrides = new Map<string, number>();
+    const rawOverrides = body.memberOverrides ?? [];
+    if (!Array.isArray(rawOverrides) || rawOverrides.length > MAX_GROUP_SIZE || (rawOverrides.length > 0 && !groupId)) {
+      return res.status(400).json({ error: 'Invalid memberOverrides', requestId: ctx.requestId });
+    }
+    for (const o of rawOverrides) {
+      const uid = typeof o?.studentId === 'string' ? o.studentId.trim() : '';
+      const score = Number(o?.score);
+      if (!uid || memberOverrides.has(uid) || !Number.isFinite(score) || score < 0 || score > 1_000_000) {
+        return res.status(400).json({ error: 'Invalid memberOverrides', requestId: ctx.requestId });
+      }
+      memberOverrides.set(uid, score);
+    }
+
+    let selections: RubricSelection[] = [];
+    if (byRubric) {
+      const parsed = parseRubricSelections(body.rubricSelections);
+      if (!parsed.ok) return res.status(400).json({ error: parsed.error, requestId: ctx.requestId });
+      selections = parsed.selections;
+    }
+
     await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
 
     const admin = ensureFirebaseAdminApp();
@@ -76,11 +113,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const { courseRef } = await requireCourseExists(courseId);
     const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
-    const submissionRef = assignmentRef.collection('submissions').doc(studentId);
-
-    const gradeId = `assignment_${assignmentId}_${studentId}`;
-    const gradeRef = courseRef.collection('grades').doc(gradeId);
-    const gradebookRef = courseRef.collection('gradebook').doc(studentId);
 
     const txResult = await db.runTransaction(async (tx) => {
       // Reads first (Firestore transaction constraint)
@@ -91,140 +123,165 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         throw err;
       }
       const assignment = assignmentSnap.data() as any;
-      const pointsPossible = Number(assignment?.pointsPossible ?? 0);
-      if (!Number.isFinite(pointsPossible) || pointsPossible < 0) {
-        const err = new Error('Invalid assignment pointsPossible');
-        (err as any).status = 500;
+      const pointsPossible = assignmentPointsPossible(assignment);
+      const isGroupAssignment = groupModeFrom(assignment) != null;
+      if (isGroupAssignment !== !!groupId) {
+        const err = new Error(isGroupAssignment ? 'This is a group assignment; grade it by groupId' : 'Assignment has no groups');
+        (err as any).status = 400;
         throw err;
       }
-      if (score > pointsPossible) {
-        const err = new Error('Score exceeds pointsPossible');
+
+      const rubric = rubricFrom(assignment?.rubric);
+      if (rubric && !byRubric) {
+        const err = new Error('This assignment is graded with a rubric; provide rubricSelections');
+        (err as any).status = 400;
+        throw err;
+      }
+      if (!rubric && byRubric) {
+        const err = new Error('Assignment has no rubric');
         (err as any).status = 400;
         throw err;
       }
 
-      const submissionSnap = await tx.get(submissionRef);
-      if (!submissionSnap.exists) {
-        const err = new Error('Submission not found');
-        (err as any).status = 404;
+      let rawScore = inputScore ?? 0;
+      let rubricGrade: RubricGrade | null = null;
+      if (rubric) {
+        const scored = scoreRubric(rubric, selections);
+        if (!scored.ok) {
+          const err = new Error(scored.error);
+          (err as any).status = 400;
+          throw err;
+        }
+        rawScore = scored.score;
+        rubricGrade = { rubricRevision: Number(assignment?.rubricRevision ?? 1), breakdown: scored.breakdown };
+      }
+
+      if (rawScore > pointsPossible || [...memberOverrides.values()].some((v) => v > pointsPossible)) {
+        const err = new Error('Score exceeds pointsPossible');
+        (err as any).status = 400;
         throw err;
       }
-      const submission = submissionSnap.data() as any;
-
-      const gradeSnapBefore = await tx.get(gradeRef);
-      const existedBefore = gradeSnapBefore.exists;
-
-      const gradebookSnap = await tx.get(gradebookRef);
-      const gb = gradebookSnap.exists ? (gradebookSnap.data() as any) : {};
-
-      const priorGrade = submission?.grade ?? null;
-      const priorScore = priorGrade && typeof priorGrade.score === 'number' ? priorGrade.score : null;
-      const priorRevision = Number(submission?.gradeRevision ?? 0);
-      const nextRevision = Number.isFinite(priorRevision) ? priorRevision + 1 : 1;
-
-      const prevScoreNum = priorScore == null ? 0 : Number(priorScore);
-      const deltaScore = score - (Number.isFinite(prevScoreNum) ? prevScoreNum : 0);
-
-      const prevTotalScore = Number(gb?.totalScore ?? 0);
-      const nextTotalScore = (Number.isFinite(prevTotalScore) ? prevTotalScore : 0) + deltaScore;
-
-      const prevTotalPossible = Number(gb?.totalPossible ?? 0);
-      const nextTotalPossible = (Number.isFinite(prevTotalPossible) ? prevTotalPossible : 0) + (existedBefore ? 0 : pointsPossible);
-
-      // Update submission grade (server-authoritative)
-      tx.set(
-        submissionRef,
-        {
-          grade: {
-            score,
-            feedback,
-            gradedAt: FieldValue.serverTimestamp(),
-            gradedBy: caller.uid,
-          },
-          gradeRevision: nextRevision,
-          updatedAt: FieldValue.serverTimestamp(),
-          updatedAtBy: caller.uid,
-        },
-        { merge: true }
-      );
-
-      // Canonical grade record (deterministic ID)
-      tx.set(
-        gradeRef,
-        {
-          studentId,
-          sourceType: 'assignment',
-          sourceId: assignmentId,
-          sourceVersion: Number(submission?.assignmentVersionAtSubmission ?? assignment?.version ?? 1),
-          score,
-          pointsPossible,
-          gradedAt: FieldValue.serverTimestamp(),
-          gradedBy: caller.uid,
-          gradeRevision: nextRevision,
-          updatedAt: FieldValue.serverTimestamp(),
-        },
-        { merge: true }
-      );
-
-      tx.set(
-        gradebookRef,
-        {
-          studentId,
-          totalScore: nextTotalScore,
-          totalPossible: nextTotalPossible,
-          computedAt: FieldValue.serverTimestamp(),
-          updatedAt: FieldValue.serverTimestamp(),
-          updatedAtBy: caller.uid,
-        },
-        { merge: true }
-      );
-
-      return {
-        pointsPossible,
-        before: { score: priorScore, gradeRevision: priorRevision },
-        after: { score, gradeRevision: nextRevision },
-        gradeId,
-      };
-    });
 
-    await writeAuditLog({
-      action: 'submission.grade.set',
-      actorUid: caller.uid,
-      actorEmail: caller.email,
-      actorRole: caller.role,
-      targetUid: studentId,
-      requestId: ctx.requestId,
-      ip: ctx.ip,
-      userAgent: ctx.userAgent,
-      metadata: {
-        courseId,
-        assignmentId,
-        gradeId: txResult.gradeId,
-        pointsPossible: txResult.pointsPossible,
-        before: txResult.before,
-        after: txResult.after,
-      },
-    });
+      if (groupId) {
+        const group = await gradeGroupSubmissionInTx(tx, {
+          courseRef,
+          assignmentRef,
+          assignment,
+          groupId,
+          rawScore,
+          memberOverrides,
+          feedback,
+          rubricGrade,
+          actorUid: caller.uid,
+          reason,
+        });
+        return { results: group.members, group, outcome: null };
+      }
 
-    await emitDomainEvent({
-      type: 'grade.mutated',
-      courseId,
-      actorUid: caller.uid,
-      actorRole: caller.role,
-      aggregate: { kind: 'grade', id: txResult.gradeId, version: txResult.after.gradeRevision },
-      payload: {
-        courseId,
-        sourceType: 'assignment',
-        sourceId: assignmentId,
+      let suggestion: { ref: FirebaseFirestore.DocumentReference; suggestion: GradeSuggestion } | null = null;
+      if (fromSuggestion) {
+        const ref = gradeSuggestionRef(assignmentRef, studentId);
+        const [suggestionSnap, submissionSnap] = await Promise.all([
+          tx.get(ref),
+          tx.get(assignmentRef.collection('submissions').doc(studentId)),
+        ]);
+        const stored = suggestionSnap.exists ? (suggestionSnap.data() as any) : null;
+        if (!stored || stored.status !== 'pending') {
+          const err = new Error('No pending suggestion for this submission');
+          (err as any).status = 404;
+          throw err;
+        }
+        const currentRevision = Number((submissionSnap.data() as any)?.submissionRevision ?? 1);
+        if (Number(stored.submissionRevision) !== currentRevision) {
+          const err = new Error('The submission changed after the suggestion was made');
+          (err as any).status = 409;
+          throw err;
+        }
+        suggestion = { ref, suggestion: stored.suggestion as GradeSuggestion };
+      }
+
+      const single = await gradeSubmissionInTx(tx, {
+        courseRef,
+        assignmentRef,
+        assignment,
         studentId,
-        before: txResult.before,
-        after: txResult.after,
-      },
-      idempotencyKey: `grade.mutated:assignment:${courseId}:${assignmentId}:${studentId}:r${txResult.after.gradeRevision}`,
-      requestId: ctx.requestId,
+        rawScore,
+        feedback,
+        rubricGrade,
+        actorUid: caller.uid,
+        historySource: 'grade',
+        reason,
+      });
+
+      let outcome: 'accepted' | 'edited' | null = null;
+      if (suggestion) {
+        outcome = suggestionOutcome(suggestion.suggestion, { rawScore, feedback, selections });
+        tx.update(suggestion.ref, {
+          status: outcome,
+          gradeRevision: single.after.gradeRevision,
+          resolvedAt: FieldValue.serverTimestamp(),
+          resolvedBy: caller.uid,
+        });
+      }
+      return { results: [single], group: null as GroupGradeResult | null, outcome };
     });
 
-    return res.status(200).json({ ok: true, ...txResult.after });
+    for (const result of txResult.results) {
+      await writeAuditLog({
+        action: 'submission.grade.set',
+        actorUid: caller.uid,
+        actorEmail: caller.email,
+        actorRole: caller.role,
+        targetUid: result.studentId,
+        requestId: ctx.requestId,
+        ip: ctx.ip,
+        userAgent: ctx.userAgent,
+        metadata: {
+          courseId,
+          assignmentId,
+          gradeId: result.gradeId,
+          pointsPossible: result.pointsPossible,
+          before: result.before,
+          after: result.after,
+          rubricRevision: result.rubric?.rubricRevision ?? null,
+          latePenalty: result.latePenalty,
+          peer: result.peer,
+          groupId: groupId || null,
+          groupOverride: memberOverrides.has(result.studentId),
+          held: result.held,
+          reason,
+          ...(txResult.outcome ? { aiAssisted: true, suggestionOutcome: txResult.outcome } : {}),
+        },
+      });
+
+      await emitAssignmentGradeMutated({
+        courseId,
+        assignmentId,
+        result,
+        actorUid: caller.uid,
+        actorRole: caller.role,
+        requestId: ctx.requestId,
+        groupId: groupId || undefined,
+      });
+    }
+
+    const group = txResult.group;
+    if (group) {
+      return res.status(200).json({
+        ok: true,
+        groupId: group.groupId,
+        gradeRevision: group.submissionGradeRevision,
+        members: group.members.map((m: AssignmentGradeResult) => ({
+          studentId: m.studentId,
+          ...m.after,
+          override: group.overridden.includes(m.studentId),
+        })),
+        latePenalty: group.members[0]?.latePenalty ?? null,
+        held: group.members[0]?.held ?? false,
+      });
+    }
+    const single = txResult.results[0];
+    return res.status(200).json({ ok: true, ...single.after, rubric: single.rubric, latePenalty: single.latePenalty, peer: single.peer, held: single.held, suggestionOutcome: txResult.outcome });
   } catch (e: any) {
     const status = typeof e?.status === 'number' ? e.status : 500;
     const message = e?.message || 'Internal Server Error';
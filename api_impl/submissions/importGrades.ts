@@ -0,0 +1,311 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { sanitizeFeedback, sanitizeOptionalReason } from '../_lib/sanitize';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { parseCsvRows, type CsvRow } from '../_lib/csv';
+import { applyLatePenalty, lateByHoursFromSubmission, latePenaltyFor, latePolicyFrom } from '../_lib/latePolicy';
+import { rubricFrom } from '../_lib/rubrics';
+import { groupModeFrom } from '../_lib/assignmentGroups';
+import { accommodationFrom, accommodationRef } from '../_lib/accommodations';
+import {
+  assignmentGradeId,
+  assignmentPointsPossible,
+  emitAssignmentGradeMutated,
+  gradeSubmissionInTx,
+  type AssignmentGradeResult,
+} from '../_lib/assignmentGrades';
+import { inferRollNumberFromCollegeEmail, normalizeCollegeEmail } from '../../lib/collegeEmail';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 512 * 1024;
+const MAX_ROWS = 500;
+const MAX_ENROLLMENTS_SCAN = 2000;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+  // Header row required. Key column: roll number or college email; score column; optional feedback.
+  csv: string;
+  dryRun?: boolean;
+  // Recorded in the history of every grade the import changes.
+  reason?: string;
+};
+
+type RowStatus = 'new' | 'update' | 'unchanged' | 'skipped' | 'error';
+
+type RowDiff = {
+  line: number;
+  key: string;
+  studentId: string | null;
+  status: RowStatus;
+  error?: string;
+  before?: { score: number | null; rawScore: number | null };
+  after?: { rawScore: number; score: number; latePenaltyPercent: number };
+};
+
+const KEY_HEADERS = ['rollnumber', 'roll', 'rollno', 'hallticket', 'htno', 'email', 'collegeemail'];
+const SCORE_HEADERS = ['score', 'marks', 'points', 'grade'];
+const FEEDBACK_HEADERS = ['feedback', 'comment', 'comments', 'remarks'];
+
+function headerKey(h: string): string {
+  return h.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function findColumn(headers: string[], names: string[]): number {
+  return headers.findIndex((h) => names.includes(headerKey(h)));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    const dryRun = body.dryRun === true;
+    const reason = sanitizeOptionalReason(body.reason);
+    if (!courseId || !assignmentId || typeof body.csv !== 'string' || !body.csv.trim()) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    let table: CsvRow[];
+    try {
+      table = parseCsvRows(body.csv);
+    } catch (e: any) {
+      return res.status(400).json({ error: `Invalid CSV: ${e?.message || 'parse error'}`, requestId: ctx.requestId });
+    }
+    const [header, ...dataRows] = table;
+    const headers = header?.cells ?? [];
+    const keyCol = findColumn(headers, KEY_HEADERS);
+    const scoreCol = findColumn(headers, SCORE_HEADERS);
+    const feedbackCol = findColumn(headers, FEEDBACK_HEADERS);
+    if (keyCol < 0 || scoreCol < 0) {
+      return res.status(400).json({ error: 'CSV needs a roll number or college email column and a score column', requestId: ctx.requestId });
+    }
+    if (dataRows.length === 0 || dataRows.length > MAX_ROWS) {
+      return res.status(400).json({ error: `CSV must have 1-${MAX_ROWS} data rows`, requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+    const assignmentSnap = await assignmentRef.get();
+    if (!assignmentSnap.exists) {
+      return res.status(404).json({ error: 'Assignment not found', requestId: ctx.requestId });
+    }
+    const assignment = assignmentSnap.data() as any;
+    const pointsPossible = assignmentPointsPossible(assignment);
+    if (rubricFrom(assignment?.rubric)) {
+      return res.status(409).json({ error: 'Rubric-graded assignments cannot be imported from a score column', requestId: ctx.requestId });
+    }
+    if (groupModeFrom(assignment)) {
+      return res.status(409).json({ error: 'Group assignments are graded per group', requestId: ctx.requestId });
+    }
+
+    // Roll number / college email -> enrolled student uid, from the users' profiles.
+    const enrollSnap = await courseRef.collection('enrollments').where('status', '==', 'active').limit(MAX_ENROLLMENTS_SCAN + 1).get();
+    if (enrollSnap.size > MAX_ENROLLMENTS_SCAN) {
+      return res.status(413).json({ error: 'Too many enrollments to match', requestId: ctx.requestId });
+    }
+    const studentIds = enrollSnap.docs.filter((d) => (d.data() as any)?.role !== 'instructor').map((d) => d.id);
+    const userSnaps = studentIds.length ? await db.getAll(...studentIds.map((uid) => db.collection('users').doc(uid))) : [];
+    const byRoll = new Map<string, string>();
+    const byEmail = new Map<string, string>();
+    for (const snap of userSnaps) {
+      if (!snap.exists) continue;
+      const u = snap.data() as any;
+      const email = typeof u?.collegeEmail === 'string' ? normalizeCollegeEmail(u.collegeEmail) : '';
+      const roll = typeof u?.rollNumber === 'string' && u.rollNumber.trim() ? u.rollNumber.trim().toUpperCase() : inferRollNumberFromCollegeEmail(email);
+      if (email) byEmail.set(email, snap.id);
+      if (roll) byRoll.set(roll, snap.id);
+    }
+
+    const resolveStudent = (key: string): string | null => {
+      if (key.includes('@')) {
+        const email = normalizeCollegeEmail(key);
+        const roll = inferRollNumberFromCollegeEmail(email);
+        return byEmail.get(email) ?? (roll ? byRoll.get(roll) ?? null : null);
+      }
+      return byRoll.get(key.trim().toUpperCase()) ?? null;
+    };
+
+    const rows: Array<RowDiff & { rawScore?: number; feedback?: string }> = [];
+    const seen = new Set<string>();
+    dataRows.forEach(({ line, cells }) => {
+      const key = (cells[keyCol] ?? '').trim();
+      const scoreCell = (cells[scoreCol] ?? '').trim();
+      const studentId = key ? resolveStudent(key) : null;
+      if (!key) return rows.push({ line, key, studentId: null, status: 'error', error: 'Missing roll number / email' });
+      if (!studentId) return rows.push({ line, key, studentId: null, status: 'error', error: 'No enrolled student matches' });
+      if (seen.has(studentId)) return rows.push({ line, key, studentId, status: 'error', error: 'Duplicate row for student' });
+      seen.add(studentId);
+      // A blank score means "not graded yet" and leaves the student untouched.
+      if (!scoreCell) return rows.push({ line, key, studentId, status: 'skipped' });
+
+      const rawScore = Number(scoreCell);
+      if (!Number.isFinite(rawScore) || rawScore < 0) return rows.push({ line, key, studentId, status: 'error', error: 'Invalid score' });
+      if (rawScore > pointsPossible) {
+        return rows.push({ line, key, studentId, status: 'error', error: `Score exceeds pointsPossible (${pointsPossible})` });
+      }
+      const feedback = feedbackCol >= 0 ? sanitizeFeedback(cells[feedbackCol]) : undefined;
+      if (feedback && feedback.length > 20000) return rows.push({ line, key, studentId, status: 'error', error: 'Invalid feedback' });
+      rows.push({ line, key, studentId, status: 'new', rawScore, feedback });
+    });
+
+    // Diff against current grades; the late policy is applied exactly as the write will. While grades
+    // are held the submission doc still shows the last released grade, so the current one comes from
+    // the grade doc's heldSubmissionGrade.
+    const pending = rows.filter((r) => r.status === 'new');
+    const [submissionSnaps, gradeSnaps, accommodationSnaps] = pending.length
+      ? await Promise.all([
+          db.getAll(...pending.map((r) => assignmentRef.collection('submissions').doc(r.studentId as string))),
+          db.getAll(
+            ...pending.map((r) => courseRef.collection('grades').doc(assignmentGradeId(assignmentId, r.studentId as string)))
+          ),
+          db.getAll(...pending.map((r) => accommodationRef(courseRef, r.studentId as string))),
+        ])
+      : [[], [], []];
+    const latePolicy = latePolicyFrom(assignment);
+    pending.forEach((r, i) => {
+      const snap = submissionSnaps[i];
+      if (!snap.exists) {
+        r.status = 'error';
+        r.error = 'Submission not found';
+        return;
+      }
+      const submission = snap.data() as any;
+      const heldGrade = gradeSnaps[i]?.exists ? (gradeSnaps[i].data() as any)?.heldSubmissionGrade : null;
+      const current = heldGrade && typeof heldGrade === 'object' ? heldGrade : submission?.grade;
+      const { dueExtensionHours } = accommodationFrom(accommodationSnaps[i]?.exists ? accommodationSnaps[i].data() : null);
+      const penalty = latePenaltyFor(latePolicy, lateByHoursFromSubmission(submission, assignment, dueExtensionHours));
+      const score = applyLatePenalty(r.rawScore as number, penalty);
+      const priorScore = typeof current?.score === 'number' ? current.score : null;
+      const priorRaw = typeof current?.rawScore === 'number' ? current.rawScore : priorScore;
+      r.before = { score: priorScore, rawScore: priorRaw };
+      r.after = { rawScore: r.rawScore as number, score, latePenaltyPercent: penalty?.penaltyPercent ?? 0 };
+      // Without a feedback column the sheet says nothing about feedback: keep what is there.
+      const priorFeedback = typeof current?.feedback === 'string' ? current.feedback : undefined;
+      if (feedbackCol < 0) r.feedback = priorFeedback;
+      const sameFeedback = (r.feedback ?? undefined) === priorFeedback;
+      if (priorScore == null) r.status = 'new';
+      else r.status = priorRaw === r.rawScore && priorScore === score && sameFeedback ? 'unchanged' : 'update';
+    });
+
+    const summary = {
+      rows: rows.length,
+      new: rows.filter((r) => r.status === 'new').length,
+      update: rows.filter((r) => r.status === 'update').length,
+      unchanged: rows.filter((r) => r.status === 'unchanged').length,
+      skipped: rows.filter((r) => r.status === 'skipped').length,
+      errors: rows.filter((r) => r.status === 'error').length,
+    };
+    const diff: RowDiff[] = rows.map(({ rawScore: _raw, feedback: _feedback, ...row }) => row);
+
+    if (dryRun) {
+      return res.status(200).json({ ok: true, dryRun: true, pointsPossible, summary, rows: diff });
+    }
+    // All-or-nothing at the validation level: fix the sheet and re-run rather than half-importing it.
+    if (summary.errors > 0) {
+      return res.status(422).json({ error: 'CSV has rows with errors', summary, rows: diff, requestId: ctx.requestId });
+    }
+
+    const applied: AssignmentGradeResult[] = [];
+    for (const r of rows) {
+      if (r.status !== 'new' && r.status !== 'update') continue;
+      const result = await db.runTransaction(async (tx) => {
+        const snap = await tx.get(assignmentRef);
+        if (!snap.exists) {
+          const err = new Error('Assignment not found');
+          (err as any).status = 404;
+          throw err;
+        }
+        return gradeSubmissionInTx(tx, {
+          courseRef,
+          assignmentRef,
+          assignment: snap.data(),
+          studentId: r.studentId as string,
+          rawScore: r.rawScore as number,
+          feedback: r.feedback,
+          rubricGrade: null,
+          actorUid: caller.uid,
+          historySource: 'csv_import',
+          reason,
+        });
+      });
+      applied.push(result);
+
+      await writeAuditLog({
+        action: 'submission.grade.set',
+        actorUid: caller.uid,
+        actorEmail: caller.email,
+        actorRole: caller.role,
+        targetUid: result.studentId,
+        requestId: ctx.requestId,
+        ip: ctx.ip,
+        userAgent: ctx.userAgent,
+        metadata: {
+          courseId,
+          assignmentId,
+          gradeId: result.gradeId,
+          pointsPossible: result.pointsPossible,
+          before: result.before,
+          after: result.after,
+          latePenalty: result.latePenalty,
+          source: 'csv_import',
+          reason,
+          csvLine: r.line,
+        },
+      });
+
+      await emitAssignmentGradeMutated({
+        courseId,
+        assignmentId,
+        result,
+        actorUid: caller.uid,
+        actorRole: caller.role,
+        requestId: ctx.requestId,
+        source: 'csv_import',
+      });
+    }
+
+    await writeAuditLog({
+      action: 'submission.grade.import',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, assignmentId, ...summary, applied: applied.length },
+    });
+
+    return res.status(200).json({ ok: true, dryRun: false, pointsPossible, summary, applied: applied.length, rows: diff });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,131 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { requireActiveEnrollmentOrPlatform, requireCourseExists } from '../_lib/courseAccess';
+import { rubricFrom } from '../_lib/rubrics';
+import { peerReviewConfigFrom } from '../_lib/peerReview';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+};
+
+// The caller's review queue (anonymized submissions) and the reviews they received (anonymized
+// reviewers). Neither side ever gets the other's uid or the review ids of their own submission.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    if (!courseId || !assignmentId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    await requireActiveEnrollmentOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+    const assignmentSnap = await assignmentRef.get();
+    if (!assignmentSnap.exists) {
+      return res.status(404).json({ error: 'Assignment not found', requestId: ctx.requestId });
+    }
+    const assignment = assignmentSnap.data() as any;
+    const peerConfig = peerReviewConfigFrom(assignment);
+    if (!peerConfig) {
+      return res.status(409).json({ error: 'Peer review is not enabled for this assignment', requestId: ctx.requestId });
+    }
+
+    const reviews = assignmentRef.collection('peerReviews');
+    const [givingSnap, receivedSnap] = await Promise.all([
+      reviews.where('reviewerId', '==', caller.uid).get(),
+      reviews.where('authorId', '==', caller.uid).where('status', '==', 'completed').get(),
+    ]);
+
+    // Reviewers see the revision that was current when reviews were assigned (kept in the submission's
+    // history), not whatever the author resubmitted since; older submissions without history fall back
+    // to the submission doc.
+    const submissionRefs = givingSnap.docs.map((d) =>
+      assignmentRef.collection('submissions').doc(String((d.data() as any)?.authorId ?? ''))
+    );
+    const [historySnaps, submissionSnaps] = submissionRefs.length
+      ? await Promise.all([
+          db.getAll(
+            ...givingSnap.docs.map((d, i) =>
+              submissionRefs[i].collection('history').doc(String(Number((d.data() as any)?.submissionRevision ?? 1)))
+            )
+          ),
+          db.getAll(...submissionRefs),
+        ])
+      : [[], []];
+
+    const toReview = givingSnap.docs.map((d, i) => {
+      const review = d.data() as any;
+      const submission = historySnaps[i]?.exists
+        ? (historySnaps[i].data() as any)
+        : submissionSnaps[i]?.exists
+          ? (submissionSnaps[i].data() as any)
+          : null;
+      return {
+        reviewId: d.id,
+        status: String(review?.status ?? 'assigned'),
+        submissionRevision: Number(review?.submissionRevision ?? 1),
+        // Text and links only: uploaded files sit under a Storage path keyed by the author's uid.
+        submission: submission
+          ? {
+              text: typeof submission?.content?.text === 'string' ? submission.content.text : null,
+              links: Array.isArray(submission?.content?.links) ? submission.content.links : [],
+            }
+          : null,
+        score: typeof review?.score === 'number' ? review.score : null,
+        breakdown: Array.isArray(review?.breakdown) ? review.breakdown : null,
+        comment: typeof review?.comment === 'string' ? review.comment : null,
+      };
+    });
+
+    const received = receivedSnap.docs.map((d) => {
+      const review = d.data() as any;
+      return {
+        score: typeof review?.score === 'number' ? review.score : null,
+        breakdown: Array.isArray(review?.breakdown) ? review.breakdown : [],
+        comment: typeof review?.comment === 'string' ? review.comment : null,
+      };
+    });
+
+    return res.status(200).json({
+      ok: true,
+      rubric: rubricFrom(assignment?.rubric),
+      reviewDueMillis: peerConfig.reviewDueMillis ?? null,
+      toReview,
+      received,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,117 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { rateLimitExceeded } from '../../lib/rateLimit';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { requireActiveEnrollmentOrPlatform, requireCourseExists } from '../_lib/courseAccess';
+import {
+  fileSpecFrom,
+  normalizeContentType,
+  safeStorageFileName,
+  submissionFilePath,
+  UPLOAD_TICKET_TTL_MS,
+} from '../_lib/submissionFiles';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 4 * 1024;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+};
+
+// Issues a one-time upload ticket. storage.rules only accepts a create at the ticket's path, by its
+// owner, with the declared content type and within maxBytes. Nothing is audited until the upload is
+// attached by submissions/submit.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    const fileName = typeof body.fileName === 'string' ? body.fileName.trim() : '';
+    const contentType = normalizeContentType(body.contentType);
+    const sizeBytes = Number(body.sizeBytes);
+    if (!courseId || !assignmentId || !fileName || fileName.length > 255 || !contentType) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (!Number.isInteger(sizeBytes) || sizeBytes <= 0) {
+      return res.status(400).json({ error: 'Invalid sizeBytes', requestId: ctx.requestId });
+    }
+
+    const limiterKey = `submissionUpload:${caller.uid}:${courseId}:${assignmentId}`;
+    if (await rateLimitExceeded(limiterKey)) {
+      return res.status(429).json({ error: 'Too Many Requests', requestId: ctx.requestId });
+    }
+
+    await requireActiveEnrollmentOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+
+    const assignmentSnap = await assignmentRef.get();
+    if (!assignmentSnap.exists) {
+      return res.status(404).json({ error: 'Assignment not found', requestId: ctx.requestId });
+    }
+    const assignment = assignmentSnap.data() as any;
+    if (String(assignment?.status ?? 'draft') !== 'published') {
+      return res.status(409).json({ error: 'Assignment is not published', requestId: ctx.requestId });
+    }
+    const spec = fileSpecFrom(assignment);
+    if (!spec) {
+      return res.status(409).json({ error: 'Assignment does not accept file uploads', requestId: ctx.requestId });
+    }
+    if (sizeBytes > spec.maxBytes) {
+      return res.status(413).json({ error: 'File exceeds the assignment size limit', maxBytes: spec.maxBytes, requestId: ctx.requestId });
+    }
+    if (!spec.allowedMimeTypes.includes(contentType)) {
+      return res
+        .status(415)
+        .json({ error: 'File type is not allowed for this assignment', allowedMimeTypes: spec.allowedMimeTypes, requestId: ctx.requestId });
+    }
+
+    const uploadRef = assignmentRef.collection('uploads').doc();
+    const safeName = safeStorageFileName(fileName);
+    const path = submissionFilePath({ courseId, assignmentId, userId: caller.uid, uploadId: uploadRef.id, safeName });
+    const expiresAtMillis = Date.now() + UPLOAD_TICKET_TTL_MS;
+
+    await uploadRef.create({
+      userId: caller.uid,
+      status: 'pending',
+      path,
+      safeName,
+      fileName,
+      contentType,
+      declaredSizeBytes: sizeBytes,
+      maxBytes: spec.maxBytes,
+      expiresAt: Timestamp.fromMillis(expiresAtMillis),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    return res.status(200).json({ ok: true, uploadId: uploadRef.id, path, contentType, maxBytes: spec.maxBytes, expiresAtMillis });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
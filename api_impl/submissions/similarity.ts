@@ -0,0 +1,146 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { fingerprint, looksLikeC, rankSimilarPairs, type SimilarityMode } from '../_lib/similarity';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 60 * 1024;
+const MAX_SUBMISSIONS_SCAN = 300;
+const EXCERPT_LENGTH = 200;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+  // Defaults to 'auto': C when most submissions look like C source.
+  mode?: SimilarityMode | 'auto';
+  // Starter code or the problem statement; matches against it are ignored.
+  baseText?: string;
+  minScore?: number;
+  limit?: number;
+};
+
+// Runs entirely against stored content.text; nothing leaves the server. Results are evidence for the
+// instructor to review, not a verdict.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    const requestedMode = body.mode ?? 'auto';
+    const baseText = typeof body.baseText === 'string' ? body.baseText : '';
+    const minScore = Number(body.minScore ?? 0.3);
+    const limit = Number(body.limit ?? 50);
+    if (!courseId || !assignmentId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (requestedMode !== 'auto' && requestedMode !== 'text' && requestedMode !== 'c') {
+      return res.status(400).json({ error: 'Invalid mode', requestId: ctx.requestId });
+    }
+    if (!Number.isFinite(minScore) || minScore < 0 || minScore > 1) {
+      return res.status(400).json({ error: 'Invalid minScore', requestId: ctx.requestId });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({ error: 'Invalid limit', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+    const assignmentSnap = await assignmentRef.get();
+    if (!assignmentSnap.exists) {
+      return res.status(404).json({ error: 'Assignment not found', requestId: ctx.requestId });
+    }
+
+    const snap = await assignmentRef.collection('submissions').limit(MAX_SUBMISSIONS_SCAN + 1).get();
+    if (snap.size > MAX_SUBMISSIONS_SCAN) {
+      return res.status(413).json({ error: 'Too many submissions to compare', requestId: ctx.requestId });
+    }
+
+    const submissions = snap.docs
+      .map((d) => {
+        const data = d.data() as any;
+        return { studentId: d.id, text: typeof data?.content?.text === 'string' ? data.content.text : '' };
+      })
+      .filter((s) => s.text.trim().length > 0);
+
+    const mode: SimilarityMode =
+      requestedMode !== 'auto'
+        ? requestedMode
+        : submissions.filter((s) => looksLikeC(s.text)).length * 2 > submissions.length
+          ? 'c'
+          : 'text';
+
+    const docs = submissions.map((s) => fingerprint(s.text, mode));
+    const comparable = docs.map((d, idx) => ({ d, idx })).filter((x) => x.d.positions.size > 0);
+    const skipped = docs
+      .map((d, idx) => (d.positions.size > 0 ? null : submissions[idx].studentId))
+      .filter((s): s is string => s != null);
+    const withoutText = snap.size - submissions.length;
+
+    const ranked = rankSimilarPairs(
+      comparable.map((x) => x.d),
+      mode,
+      { minScore, limit, ignore: baseText.trim() ? fingerprint(baseText, mode) : null }
+    );
+
+    const excerpt = (text: string, span: { start: number; end: number }) => text.slice(span.start, Math.min(span.end, span.start + EXCERPT_LENGTH));
+    const pairs = ranked.map((p) => {
+      const a = submissions[comparable[p.a].idx];
+      const b = submissions[comparable[p.b].idx];
+      return {
+        studentA: a.studentId,
+        studentB: b.studentId,
+        score: p.score,
+        sharedFingerprints: p.sharedFingerprints,
+        coverageA: p.coverageA,
+        coverageB: p.coverageB,
+        spans: p.spans.map((s) => ({ ...s, excerptA: excerpt(a.text, s.a), excerptB: excerpt(b.text, s.b) })),
+      };
+    });
+
+    await writeAuditLog({
+      action: 'submission.similarity.read',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, assignmentId, mode, compared: comparable.length, pairs: pairs.length, minScore },
+    });
+
+    return res.status(200).json({
+      ok: true,
+      advisory: true,
+      mode,
+      compared: comparable.length,
+      skipped: { tooShort: skipped, withoutText },
+      pairs,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
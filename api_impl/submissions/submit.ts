@@ -7,6 +7,10 @@ import { writeAuditLog } from '../_lib/auditLog';
 import { requireActiveEnrollmentOrPlatform, requireCourseExists } from '../_lib/courseAccess';
 import { emitDomainEvent } from '../_lib/domainEvents';
 import { isHttpUrl } from '../_lib/sanitize';
+import { readDueExtensionHoursInTx } from '../_lib/accommodations';
+import { lateByHoursOf } from '../_lib/latePolicy';
+import { fileSpecFrom, verifyUploadedFile, type SubmissionFile } from '../_lib/submissionFiles';
+import { groupModeFrom, groupSubmissionId, readMemberGroupInTx, type AssignmentGroup } from '../_lib/assignmentGroups';
 
 export const config = { runtime: 'nodejs' };
 
@@ -18,6 +22,8 @@ type Body = {
   content: {
     text?: string;
     links?: string[];
+    // Upload ids from submissions/requestUpload (file assignments only).
+    files?: string[];
   };
 };
 
@@ -64,12 +70,44 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const { courseRef } = await requireCourseExists(courseId);
     const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
-    const submissionRef = assignmentRef.collection('submissions').doc(caller.uid);
+    // Group assignments write one shared doc for the caller's group instead (resolved in the transaction).
+    let submissionRef = assignmentRef.collection('submissions').doc(caller.uid);
 
     const nowMillis = Date.now();
 
+    // Uploaded files are verified and hashed before the transaction (Storage I/O must not run inside
+    // a retried transaction); the transaction then re-checks that each ticket is still unattached.
+    const uploadIds = Array.isArray(body.content?.files)
+      ? Array.from(new Set(body.content.files.map((f) => (typeof f === 'string' ? f.trim() : '')).filter(Boolean)))
+      : [];
+    const preSnap = await assignmentRef.get();
+    const fileSpec = preSnap.exists ? fileSpecFrom(preSnap.data()) : null;
+    if (uploadIds.length > 0 && !fileSpec) {
+      return res.status(400).json({ error: 'Assignment does not accept file uploads', requestId: ctx.requestId });
+    }
+    if (fileSpec && (uploadIds.length === 0 || uploadIds.length > fileSpec.maxFiles)) {
+      return res.status(400).json({ error: `Attach 1-${fileSpec.maxFiles} uploaded files`, requestId: ctx.requestId });
+    }
+
+    const uploadRefs = uploadIds.map((id) => assignmentRef.collection('uploads').doc(id));
+    const files: SubmissionFile[] = [];
+    for (const ref of uploadRefs) {
+      const ticketSnap = await ref.get();
+      const ticket = ticketSnap.exists ? (ticketSnap.data() as any) : null;
+      if (!ticket || ticket.userId !== caller.uid) {
+        return res.status(404).json({ error: 'Upload not found', requestId: ctx.requestId });
+      }
+      if (ticket.status !== 'pending') {
+        return res.status(409).json({ error: 'Upload is already attached to a submission', requestId: ctx.requestId });
+      }
+      const verified = await verifyUploadedFile(String(ticket.path), fileSpec!);
+      files.push({ uploadId: ref.id, path: String(ticket.path), fileName: String(ticket.fileName ?? ''), ...verified });
+    }
+
     let assignmentVersionAtSubmission = 1;
     let dueMillis: number | undefined;
+    let effectiveDueMillis: number | undefined;
+    let dueExtensionHours = 0;
 
     const result = await db.runTransaction(async (tx) => {
       const assignmentSnap = await tx.get(assignmentRef);
@@ -90,7 +128,29 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       dueMillis = typeof assignment?.dueMillis === 'number' ? assignment.dueMillis : undefined;
       const allowLate = assignment?.allowLate === true;
 
-      const late = dueMillis !== undefined && nowMillis > dueMillis;
+      let group: AssignmentGroup | null = null;
+      if (groupModeFrom(assignment)) {
+        group = await readMemberGroupInTx(tx, assignmentRef, caller.uid);
+        if (!group) {
+          const err = new Error('Join a group before submitting');
+          (err as any).status = 409;
+          throw err;
+        }
+        submissionRef = assignmentRef.collection('submissions').doc(groupSubmissionId(group.groupId));
+      }
+      const groupFields = group ? { groupId: group.groupId, memberIds: group.memberIds, submittedBy: caller.uid } : {};
+
+      // A group shares one deadline whoever submits: the largest due extension among its members, so an
+      // accommodated member is never marked late because a teammate pressed submit.
+      dueExtensionHours = await readDueExtensionHoursInTx(
+        tx,
+        courseRef,
+        group && group.memberIds.length > 0 ? group.memberIds : [caller.uid]
+      );
+      effectiveDueMillis = dueMillis !== undefined ? dueMillis + dueExtensionHours * 60 * 60 * 1000 : undefined;
+
+      const late = effectiveDueMillis !== undefined && nowMillis > effectiveDueMillis;
+      const lateByHours = late ? lateByHoursOf(nowMillis, effectiveDueMillis) : 0;
       if (late && !allowLate) {
         const err = new Error('Late submissions are not allowed');
         (err as any).status = 409;
@@ -100,18 +160,58 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const existingSnap = await tx.get(submissionRef);
       const existing = existingSnap.exists ? (existingSnap.data() as any) : null;
 
+      const ticketSnaps = await Promise.all(uploadRefs.map((ref) => tx.get(ref)));
+      if (ticketSnaps.some((snap) => (snap.data() as any)?.status !== 'pending')) {
+        const err = new Error('Upload is already attached to a submission');
+        (err as any).status = 409;
+        throw err;
+      }
+
       const nextStatus = existing ? 'resubmitted' : 'submitted';
+      const priorRevision = Number(existing?.submissionRevision ?? (existing ? 1 : 0));
+      const submissionRevision = Number.isFinite(priorRevision) ? priorRevision + 1 : 1;
+
+      const content = {
+        text: contentText || undefined,
+        links,
+        files,
+      };
+
+      // Each (re)submission is kept as-is; the submission doc only points at the latest one.
+      tx.create(submissionRef.collection('history').doc(String(submissionRevision)), {
+        userId: caller.uid,
+        ...groupFields,
+        submissionRevision,
+        content,
+        late,
+        lateByHours,
+        effectiveDueMillis: effectiveDueMillis ?? null,
+        assignmentVersionAtSubmission,
+        submittedAtMillis: nowMillis,
+        submittedAt: FieldValue.serverTimestamp(),
+      });
+
+      // submissionId lets storage.rules grant the other group members read access to the files.
+      for (const ref of uploadRefs) {
+        tx.update(ref, {
+          status: 'attached',
+          submissionId: submissionRef.id,
+          submissionRevision,
+          attachedAt: FieldValue.serverTimestamp(),
+        });
+      }
 
       tx.set(
         submissionRef,
         {
-          userId: caller.uid,
+          ...(group ? groupFields : { userId: caller.uid }),
           status: nextStatus,
-          content: {
-            text: contentText || undefined,
-            links,
-          },
+          content,
+          submissionRevision,
           late,
+          lateByHours,
+          submittedAtMillis: nowMillis,
+          effectiveDueMillis: effectiveDueMillis ?? null,
           assignmentVersionAtSubmission,
           submittedAt: FieldValue.serverTimestamp(),
           updatedAt: FieldValue.serverTimestamp(),
@@ -122,7 +222,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         { merge: true }
       );
 
-      return { status: nextStatus, late, wasResubmission: !!existing };
+      return {
+        status: nextStatus,
+        late,
+        lateByHours,
+        wasResubmission: !!existing,
+        submissionRevision,
+        groupId: group?.groupId ?? null,
+      };
     });
 
     await writeAuditLog({
@@ -138,8 +245,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         assignmentId,
         status: result.status,
         late: result.late,
+        lateByHours: result.lateByHours,
+        submissionRevision: result.submissionRevision,
+        groupId: result.groupId,
+        files: files.map((f) => ({ uploadId: f.uploadId, contentType: f.contentType, sizeBytes: f.sizeBytes, sha256: f.sha256 })),
         assignmentVersionAtSubmission,
         dueMillis: dueMillis ?? null,
+        effectiveDueMillis: effectiveDueMillis ?? null,
+        dueExtensionHours,
       },
     });
 
@@ -149,11 +262,46 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       actorUid: caller.uid,
       actorRole: caller.role,
       aggregate: { kind: 'submission', id: `${assignmentId}:${caller.uid}`, version: assignmentVersionAtSubmission },
-      payload: { courseId, assignmentId, studentId: caller.uid, assignmentVersionAtSubmission },
+      payload: {
+        courseId,
+        assignmentId,
+        studentId: caller.uid,
+        assignmentVersionAtSubmission,
+        late: result.late,
+        dueExtensionHours,
+        submissionRevision: result.submissionRevision,
+        groupId: result.groupId,
+        fileCount: files.length,
+      },
       idempotencyKey: `submission.submitted:${courseId}:${assignmentId}:${caller.uid}:v${assignmentVersionAtSubmission}`,
       requestId: ctx.requestId,
     });
 
+    // One signal per late assignment for the phase-3 lateness pattern insight: resubmitting the same
+    // assignment late again (e.g. to fix a typo) is not another late submission.
+    if (result.late) {
+      await emitDomainEvent({
+        type: 'submission.late',
+        courseId,
+        actorUid: caller.uid,
+        actorRole: caller.role,
+        aggregate: { kind: 'submission', id: `${assignmentId}:${caller.uid}`, version: assignmentVersionAtSubmission },
+        payload: {
+          courseId,
+          assignmentId,
+          studentId: caller.uid,
+          dueMillis: dueMillis ?? null,
+          effectiveDueMillis: effectiveDueMillis ?? null,
+          submittedAtMillis: nowMillis,
+          lateByHours: result.lateByHours,
+          dueExtensionHours,
+          groupId: result.groupId,
+        },
+        idempotencyKey: `submission.late:${courseId}:${assignmentId}:${caller.uid}:v${assignmentVersionAtSubmission}`,
+        requestId: ctx.requestId,
+      });
+    }
+
     return res.status(200).json({ ok: true, ...result });
   } catch (e: any) {
     const status = typeof e?.status === 'number' ? e.status : 500;
@@ -0,0 +1,196 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { sanitizeFeedback } from '../_lib/sanitize';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireActiveEnrollmentOrPlatform, requireCourseExists } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import { parseRubricSelections, rubricFrom, scoreRubric } from '../_lib/rubrics';
+import { aggregatePeerScores, peerReviewConfigFrom, type PeerReviewSummary } from '../_lib/peerReview';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 100 * 1024;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+  reviewId: string;
+  rubricSelections: Array<{ criterionId: string; levelId: string; comment?: string }>;
+  comment?: string;
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    const reviewId = (body.reviewId ?? '').trim();
+    const comment = sanitizeFeedback(body.comment);
+    if (!courseId || !assignmentId || !reviewId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (comment && comment.length > 20000) {
+      return res.status(400).json({ error: 'Invalid comment', requestId: ctx.requestId });
+    }
+    const parsed = parseRubricSelections(body.rubricSelections);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error, requestId: ctx.requestId });
+    }
+
+    await requireActiveEnrollmentOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+    const reviewRef = assignmentRef.collection('peerReviews').doc(reviewId);
+
+    const txResult = await db.runTransaction(async (tx) => {
+      const assignmentSnap = await tx.get(assignmentRef);
+      if (!assignmentSnap.exists) {
+        const err = new Error('Assignment not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      const assignment = assignmentSnap.data() as any;
+      const peerConfig = peerReviewConfigFrom(assignment);
+      const rubric = rubricFrom(assignment?.rubric);
+      if (!peerConfig || !rubric) {
+        const err = new Error('Peer review is not enabled for this assignment');
+        (err as any).status = 409;
+        throw err;
+      }
+      if (peerConfig.reviewDueMillis !== undefined && Date.now() > peerConfig.reviewDueMillis) {
+        const err = new Error('The peer review window has closed');
+        (err as any).status = 409;
+        throw err;
+      }
+
+      // Someone else's review is indistinguishable from a missing one.
+      const reviewSnap = await tx.get(reviewRef);
+      const review = reviewSnap.exists ? (reviewSnap.data() as any) : null;
+      if (!review || review.reviewerId !== caller.uid) {
+        const err = new Error('Peer review not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      if (review.status === 'completed') {
+        const err = new Error('Peer review already submitted');
+        (err as any).status = 409;
+        throw err;
+      }
+
+      const scored = scoreRubric(rubric, parsed.selections);
+      if (!scored.ok) {
+        const err = new Error(scored.error);
+        (err as any).status = 400;
+        throw err;
+      }
+
+      const authorId = String(review.authorId);
+      const submissionRef = assignmentRef.collection('submissions').doc(authorId);
+      const submissionSnap = await tx.get(submissionRef);
+      if (!submissionSnap.exists) {
+        const err = new Error('Submission not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      // Without a review due date the window closes once the instructor has graded the submission
+      // (held or released), so a late review cannot move a grade that is already set.
+      if (peerConfig.reviewDueMillis === undefined && Number((submissionSnap.data() as any)?.gradeRevision ?? 0) > 0) {
+        const err = new Error('The peer review window has closed');
+        (err as any).status = 409;
+        throw err;
+      }
+      const completedSnap = await tx.get(
+        assignmentRef.collection('peerReviews').where('authorId', '==', authorId).where('status', '==', 'completed')
+      );
+      const scores = completedSnap.docs.map((d) => Number((d.data() as any)?.score)).concat(scored.score);
+      const summary: PeerReviewSummary = {
+        completed: scores.length,
+        score: aggregatePeerScores(scores, peerConfig.aggregate),
+        aggregate: peerConfig.aggregate,
+      };
+
+      tx.update(reviewRef, {
+        status: 'completed',
+        score: scored.score,
+        breakdown: scored.breakdown,
+        comment: comment ?? FieldValue.delete(),
+        rubricRevision: Number(assignment?.rubricRevision ?? 1),
+        completedAt: FieldValue.serverTimestamp(),
+      });
+
+      // Picked up by submissions/grade the next time the instructor grades this submission.
+      tx.set(
+        submissionRef,
+        { peerReview: summary, updatedAt: FieldValue.serverTimestamp() },
+        { merge: true }
+      );
+
+      return { authorId, score: scored.score, pointsPossible: rubric.pointsPossible, summary };
+    });
+
+    await writeAuditLog({
+      action: 'peer_review.submit',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      targetUid: txResult.authorId,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        assignmentId,
+        reviewId,
+        score: txResult.score,
+        completedForSubmission: txResult.summary.completed,
+      },
+    });
+
+    await emitDomainEvent({
+      type: 'peer_review.completed',
+      courseId,
+      actorUid: caller.uid,
+      actorRole: caller.role,
+      aggregate: { kind: 'peerReview', id: reviewId, version: 1 },
+      payload: {
+        courseId,
+        assignmentId,
+        reviewId,
+        score: txResult.score,
+        completedForSubmission: txResult.summary.completed,
+      },
+      idempotencyKey: `peer_review.completed:${courseId}:${assignmentId}:${reviewId}`,
+      requestId: ctx.requestId,
+    });
+
+    return res.status(200).json({ ok: true, score: txResult.score, pointsPossible: txResult.pointsPossible });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
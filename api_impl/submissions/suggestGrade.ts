@@ -0,0 +1,150 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { rateLimitExceeded } from '../../lib/rateLimit';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { assignmentPointsPossible } from '../_lib/assignmentGrades';
+import { groupModeFrom } from '../_lib/assignmentGroups';
+import { rubricFrom } from '../_lib/rubrics';
+import { getAiGatewayConfig } from '../_lib/aiGateway';
+import {
+  buildGradeSuggestionPrompt,
+  defaultGradeSuggestionProvider,
+  gradeSuggestionRef,
+  parseGradeSuggestion,
+} from '../_lib/gradeSuggestions';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+
+type Body = {
+  courseId: string;
+  assignmentId: string;
+  studentId: string;
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const assignmentId = (body.assignmentId ?? '').trim();
+    const studentId = (body.studentId ?? '').trim();
+    if (!courseId || !assignmentId || !studentId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    // Per course rather than per instructor, so co-instructors share one budget (fail closed - high cost endpoint).
+    if (await rateLimitExceeded(`gradeSuggest:${courseId}`, { failClosed: true })) {
+      return res.status(429).json({ error: 'Too Many Requests', requestId: ctx.requestId });
+    }
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const assignmentRef = courseRef.collection('assignments').doc(assignmentId);
+    const assignmentSnap = await assignmentRef.get();
+    if (!assignmentSnap.exists) {
+      return res.status(404).json({ error: 'Assignment not found', requestId: ctx.requestId });
+    }
+    const assignment = assignmentSnap.data() as any;
+    if (groupModeFrom(assignment)) {
+      return res.status(409).json({ error: 'Suggestions are not available for group assignments', requestId: ctx.requestId });
+    }
+    const pointsPossible = assignmentPointsPossible(assignment);
+    const rubric = rubricFrom(assignment?.rubric);
+
+    const submissionSnap = await assignmentRef.collection('submissions').doc(studentId).get();
+    if (!submissionSnap.exists) {
+      return res.status(404).json({ error: 'Submission not found', requestId: ctx.requestId });
+    }
+    const submission = submissionSnap.data() as any;
+    const submissionText = typeof submission?.content?.text === 'string' ? submission.content.text.trim() : '';
+    if (!submissionText) {
+      return res.status(409).json({ error: 'Suggestions need a text submission', requestId: ctx.requestId });
+    }
+
+    const aiText = await defaultGradeSuggestionProvider({
+      system: 'Return ONLY valid JSON. Do not wrap in markdown. Do not include commentary.',
+      prompt: buildGradeSuggestionPrompt({
+        title: String(assignment?.title ?? ''),
+        description: typeof assignment?.description === 'string' ? assignment.description : '',
+        pointsPossible,
+        rubric,
+        submissionText,
+      }),
+      requestId: ctx.requestId,
+    });
+    const parsed = parseGradeSuggestion(aiText, { pointsPossible, rubric });
+    if (!parsed.ok) {
+      console.error(`[${ctx.requestId}] Grade suggestion parse error:`, parsed.error);
+      return res.status(502).json({ error: 'AI returned an unusable suggestion', requestId: ctx.requestId });
+    }
+    const suggestion = parsed.suggestion;
+
+    const gateway = getAiGatewayConfig();
+    const submissionRevision = Number(submission?.submissionRevision ?? 1);
+    const rubricRevision = rubric ? Number(assignment?.rubricRevision ?? 1) : null;
+
+    // Replaces any earlier suggestion for this student.
+    await gradeSuggestionRef(assignmentRef, studentId).set({
+      studentId,
+      submissionRevision,
+      rubricRevision,
+      suggestion,
+      model: gateway.enabled ? gateway.model : null,
+      status: 'pending',
+      createdAt: FieldValue.serverTimestamp(),
+      createdBy: caller.uid,
+    });
+
+    await writeAuditLog({
+      action: 'submission.grade.suggest',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      targetUid: studentId,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        assignmentId,
+        aiAssisted: true,
+        submissionRevision,
+        rubricRevision,
+        suggestedScore: suggestion.score,
+        pointsPossible,
+      },
+    });
+
+    return res.status(200).json({ ok: true, studentId, submissionRevision, pointsPossible, ...suggestion });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
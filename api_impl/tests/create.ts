@@ -6,73 +6,20 @@ import { getRequestContext, type VercelRequest, type VercelResponse } from '../_
 import { writeAuditLog } from '../_lib/auditLog';
 import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
 import { emitDomainEvent } from '../_lib/domainEvents';
+import { normalizePools, normalizeQuestions } from '../_lib/testQuestions';
+import { newTestDoc, parseTestSettings, type TestSettingsInput } from '../_lib/testSettings';
 
 export const config = { runtime: 'nodejs' };
 
 const MAX_BODY_SIZE = 120 * 1024;
 
-type Question = {
-  id: string;
-  type: 'mcq';
-  prompt: string;
-  options: Array<{ id: string; text: string }>;
-  correctOptionId: string;
-  points: number;
-};
-
-type Body = {
+type Body = TestSettingsInput & {
   courseId: string;
-  title: string;
-  description?: string;
-  mode: 'scheduled' | 'practice';
-  windowStartMillis?: number;
-  windowEndMillis?: number;
-  durationMinutes?: number;
-  attemptsAllowed?: number;
-  shuffle?: boolean;
-  isAssessed?: boolean;
-  questions?: Question[];
+  questions?: unknown[];
+  // Optional: draw `draw` of `questionIds` per attempt; unpooled questions are always served.
+  pools?: Array<{ id: string; draw: number; questionIds: string[] }>;
 };
 
-function normalizeQuestions(input: unknown): { questions: Question[]; pointsPossible: number } {
-  const list = Array.isArray(input) ? (input as any[]) : [];
-  const questions: Question[] = [];
-
-  let total = 0;
-  for (const raw of list) {
-    const id = typeof raw?.id === 'string' ? raw.id.trim() : '';
-    const type = raw?.type;
-    const prompt = typeof raw?.prompt === 'string' ? raw.prompt.trim() : '';
-    const points = Number(raw?.points ?? 1);
-    const optionsRaw: any[] = Array.isArray(raw?.options) ? raw.options : [];
-    const options: Array<{ id: string; text: string }> = optionsRaw
-      .map((o: any) => ({
-        id: typeof o?.id === 'string' ? o.id.trim() : '',
-        text: typeof o?.text === 'string' ? o.text.trim() : '',
-      }))
-      .filter((o) => o.id && o.text)
-      .slice(0, 10);
-
-    const correctOptionId = typeof raw?.correctOptionId === 'string' ? raw.correctOptionId.trim() : '';
-
-    if (!id || id.length > 80) continue;
-    if (type !== 'mcq') continue;
-    if (!prompt || prompt.length > 5000) continue;
-    if (!Number.isFinite(points) || points <= 0 || points > 1000) continue;
-    if (options.length < 2) continue;
-    if (!options.some((o) => o.id === correctOptionId)) continue;
-
-    total += points;
-    questions.push({ id, type, prompt, options, correctOptionId, points });
-  }
-
-  if (questions.length > 200) {
-    return { questions: questions.slice(0, 200), pointsPossible: total };
-  }
-
-  return { questions, pointsPossible: total };
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const ctx = getRequestContext(req);
 
@@ -94,43 +41,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const body = (req.body || {}) as Body;
 
     const courseId = (body.courseId ?? '').trim();
-    const title = (body.title ?? '').trim();
-    const description = typeof body.description === 'string' ? body.description.trim() : undefined;
-    const mode = body.mode;
-
-    if (!courseId || !title || (mode !== 'scheduled' && mode !== 'practice')) {
+    if (!courseId) {
       return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
     }
-    if (title.length > 200) return res.status(400).json({ error: 'Invalid title', requestId: ctx.requestId });
-    if (description && description.length > 20000) {
-      return res.status(400).json({ error: 'Invalid description', requestId: ctx.requestId });
+    const settingsResult = parseTestSettings(body);
+    if (!settingsResult.ok) {
+      return res.status(400).json({ error: settingsResult.error, requestId: ctx.requestId });
     }
+    const settings = settingsResult.settings;
 
-    const windowStartMillis = body.windowStartMillis == null ? undefined : Number(body.windowStartMillis);
-    const windowEndMillis = body.windowEndMillis == null ? undefined : Number(body.windowEndMillis);
-    const durationMinutes = body.durationMinutes == null ? undefined : Number(body.durationMinutes);
-
-    if (mode === 'scheduled') {
-      if (!Number.isFinite(windowStartMillis) || !Number.isFinite(windowEndMillis) || !Number.isFinite(durationMinutes)) {
-        return res.status(400).json({ error: 'Scheduled tests require windowStartMillis, windowEndMillis, durationMinutes', requestId: ctx.requestId });
-      }
-      if ((windowEndMillis as number) <= (windowStartMillis as number)) {
-        return res.status(400).json({ error: 'Invalid test window', requestId: ctx.requestId });
-      }
-      if ((durationMinutes as number) <= 0 || (durationMinutes as number) > 24 * 60) {
-        return res.status(400).json({ error: 'Invalid durationMinutes', requestId: ctx.requestId });
-      }
+    const { questions } = normalizeQuestions(body.questions);
+    const poolResult = normalizePools(body.pools, questions);
+    if (!poolResult.ok) {
+      return res.status(400).json({ error: poolResult.error, requestId: ctx.requestId });
     }
-
-    const attemptsAllowed = Number(body.attemptsAllowed ?? 1);
-    if (!Number.isFinite(attemptsAllowed) || attemptsAllowed < 1 || attemptsAllowed > 10) {
-      return res.status(400).json({ error: 'Invalid attemptsAllowed', requestId: ctx.requestId });
-    }
-
-    const shuffle = body.shuffle !== false;
-    const isAssessed = mode === 'scheduled' ? true : body.isAssessed === true;
-
-    const { questions, pointsPossible } = normalizeQuestions(body.questions);
+    const { pools, pointsPossible } = poolResult;
 
     await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
 
@@ -142,27 +67,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const versionRef = testRef.collection('versions').doc('1');
 
     await db.runTransaction(async (tx) => {
-      tx.create(testRef, {
-        title,
-        description: description || undefined,
-        mode,
-        status: 'draft',
-        windowStartMillis: windowStartMillis ?? undefined,
-        windowEndMillis: windowEndMillis ?? undefined,
-        durationMinutes: durationMinutes ?? undefined,
-        attemptsAllowed,
-        shuffle,
-        isAssessed,
-        pointsPossible,
-        activeVersion: 1,
-        createdBy: caller.uid,
-        createdAt: FieldValue.serverTimestamp(),
-        updatedAt: FieldValue.serverTimestamp(),
-      });
+      tx.create(testRef, newTestDoc(settings, { pointsPossible, createdBy: caller.uid }));
 
       tx.create(versionRef, {
         schemaVersion: 1,
         questions,
+        pools,
+        pointsPossible,
         createdBy: caller.uid,
         createdAt: FieldValue.serverTimestamp(),
       });
@@ -176,7 +87,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       requestId: ctx.requestId,
       ip: ctx.ip,
       userAgent: ctx.userAgent,
-      metadata: { courseId, testId: testRef.id, mode, pointsPossible, questionCount: questions.length },
+      metadata: {
+        courseId,
+        testId: testRef.id,
+        mode: settings.mode,
+        pointsPossible,
+        questionCount: questions.length,
+        poolCount: pools.length,
+        scoringPolicy: settings.scoringPolicy,
+        reviewPolicy: settings.reviewPolicy,
+      },
     });
 
     await emitDomainEvent({
@@ -185,7 +105,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       actorUid: caller.uid,
       actorRole: caller.role,
       aggregate: { kind: 'test', id: testRef.id, version: 1 },
-      payload: { courseId, testId: testRef.id, mode, pointsPossible },
+      payload: { courseId, testId: testRef.id, mode: settings.mode, pointsPossible },
       idempotencyKey: `test.created:${courseId}:${testRef.id}:v1`,
       requestId: ctx.requestId,
     });
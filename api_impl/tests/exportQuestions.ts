@@ -0,0 +1,101 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { normalizeQuestions } from '../_lib/testQuestions';
+import { QUESTION_FORMATS, toAiken, toGift, type QuestionFormat } from '../_lib/questionFormats';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+
+type Body = {
+  courseId: string;
+  testId: string;
+  format: QuestionFormat;
+  // Any existing version; defaults to the test's activeVersion.
+  version?: number;
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const testId = (body.testId ?? '').trim();
+    const format = body.format;
+    if (!courseId || !testId || !QUESTION_FORMATS.includes(format)) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (body.version != null && (!Number.isInteger(Number(body.version)) || Number(body.version) < 1)) {
+      return res.status(400).json({ error: 'Invalid version', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const testRef = courseRef.collection('tests').doc(testId);
+
+    const testSnap = await testRef.get();
+    if (!testSnap.exists) {
+      return res.status(404).json({ error: 'Test not found', requestId: ctx.requestId });
+    }
+    const test = testSnap.data() as any;
+    const version = body.version != null ? Number(body.version) : Number(test?.activeVersion ?? 1);
+
+    const versionSnap = await testRef.collection('versions').doc(String(version)).get();
+    if (!versionSnap.exists) {
+      return res.status(404).json({ error: 'Test version not found', requestId: ctx.requestId });
+    }
+    const versionData = versionSnap.data() as any;
+    const { questions } = normalizeQuestions(versionData?.questions);
+
+    const title = String(test?.title ?? testId);
+    const result = format === 'gift' ? toGift(questions, { header: [`${title} (version ${version})`] }) : toAiken(questions);
+    if (Array.isArray(versionData?.pools) && versionData.pools.length > 0) {
+      result.warnings.unshift({ questionId: '', warning: 'Question pools are not exported; every pooled question is included' });
+    }
+
+    // Export contains answer keys, so it is audited like other instructor reads.
+    await writeAuditLog({
+      action: 'test.questions.export',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, testId, version, format, exported: result.exported },
+    });
+
+    return res.status(200).json({
+      ok: true,
+      filename: `${testId}_v${version}.${format === 'gift' ? 'gift.txt' : 'aiken.txt'}`,
+      contentType: 'text/plain; charset=utf-8',
+      content: result.text,
+      exported: result.exported,
+      warnings: result.warnings,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,160 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitAttemptGradedEvents, gradeAttemptInTx, type GradedAttempt } from '../_lib/testAttempts';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+const MAX_TESTS_SCAN = 100;
+const MAX_STARTED_SCAN = 500;
+// Leave in-flight submits a moment to land before the sweep claims an attempt.
+const SWEEP_GRACE_MS = 60 * 1000;
+
+type Body = {
+  courseId: string;
+  // Sweep a single test; default is every published test in the course.
+  testId?: string;
+};
+
+// Sweep job: grades `started` attempts past expiresAtMillis with whatever was autosaved (or nothing,
+// which scores zero). Safe to re-run: each attempt is re-checked inside its own transaction and
+// the emitted events share idempotency keys with tests/submitAttempt.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const onlyTestId = typeof body.testId === 'string' ? body.testId.trim() : '';
+    if (!courseId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+
+    const testRefs = onlyTestId
+      ? [courseRef.collection('tests').doc(onlyTestId)]
+      : (await courseRef.collection('tests').where('status', '==', 'published').limit(MAX_TESTS_SCAN).get()).docs.map(
+          (d) => d.ref
+        );
+
+    const cutoffMillis = Date.now() - SWEEP_GRACE_MS;
+    const finalized: Array<{ testId: string; attemptId: string; result: GradedAttempt }> = [];
+    let truncated = false;
+
+    for (const testRef of testRefs) {
+      // Filtered on expiry in the query (composite index in firestore.indexes.json), so a full page
+      // means more expired attempts are waiting and a re-run picks up where this one stopped.
+      const expiredSnap = await testRef
+        .collection('attempts')
+        .where('status', '==', 'started')
+        .where('expiresAtMillis', '<', cutoffMillis)
+        .orderBy('expiresAtMillis', 'asc')
+        .limit(MAX_STARTED_SCAN)
+        .get();
+      if (expiredSnap.size >= MAX_STARTED_SCAN) truncated = true;
+
+      for (const d of expiredSnap.docs) {
+        const attemptRef = d.ref;
+        const result = await db.runTransaction(async (tx) => {
+          const [testSnap, attemptSnap] = await Promise.all([tx.get(testRef), tx.get(attemptRef)]);
+          if (!testSnap.exists || !attemptSnap.exists) return null;
+
+          const attempt = attemptSnap.data() as any;
+          // Lost the race to a student submit or an earlier sweep.
+          if (String(attempt?.status ?? '') !== 'started') return null;
+          const expiresAtMillis = Number(attempt?.expiresAtMillis ?? 0);
+          if (!Number.isFinite(expiresAtMillis) || expiresAtMillis >= cutoffMillis) return null;
+
+          return gradeAttemptInTx(tx, {
+            courseRef,
+            testRef,
+            attemptRef,
+            test: testSnap.data(),
+            attempt,
+            answers: {},
+            autoSubmitted: true,
+          });
+        });
+        if (result) finalized.push({ testId: testRef.id, attemptId: attemptRef.id, result });
+      }
+    }
+
+    for (const f of finalized) {
+      await emitAttemptGradedEvents({
+        courseId,
+        testId: f.testId,
+        attemptId: f.attemptId,
+        result: f.result,
+        actorUid: caller.uid,
+        actorRole: caller.role,
+        requestId: ctx.requestId,
+      });
+    }
+
+    await writeAuditLog({
+      action: 'test.attempt.autoSubmit',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        testId: onlyTestId || null,
+        testsScanned: testRefs.length,
+        finalizedCount: finalized.length,
+        attempts: finalized.slice(0, 200).map((f) => ({
+          testId: f.testId,
+          attemptId: f.attemptId,
+          studentId: f.result.userId,
+          score: f.result.score,
+          gradeRevision: f.result.gradeRevision,
+        })),
+        truncated,
+      },
+    });
+
+    return res.status(200).json({
+      ok: true,
+      finalized: finalized.map((f) => ({
+        testId: f.testId,
+        attemptId: f.attemptId,
+        studentId: f.result.userId,
+        score: f.result.score,
+        pointsPossible: f.result.pointsPossible,
+      })),
+      // More started attempts than one sweep scans; run again.
+      truncated,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
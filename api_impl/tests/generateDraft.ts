@@ -0,0 +1,199 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { rateLimitExceeded } from '../../lib/rateLimit';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import {
+  defaultQuizTextProvider,
+  generateQuizQuestions,
+  type QuizDifficulty,
+  type QuizQuestion,
+} from '../_lib/quizGenerator';
+import { normalizeQuestions } from '../_lib/testQuestions';
+import { newTestDoc, parseTestSettings, type TestSettingsInput } from '../_lib/testSettings';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 20 * 1024;
+
+type Body = Partial<TestSettingsInput> & {
+  courseId: string;
+  subject: string;
+  topic: string;
+  difficulty?: 1 | 2 | 3;
+  questionCount?: number;
+  pointsPerQuestion?: number;
+};
+
+const DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Generator output (A–D, correctAnswer) -> tests/create mcq schema. Option ids are lowercased to match
+// questions authored by hand or imported via importQuestions.
+function toTestQuestionInput(q: QuizQuestion, index: number, points: number) {
+  return {
+    id: `q${index + 1}`,
+    type: 'mcq',
+    prompt: q.question.trim(),
+    options: q.options.map((o) => ({ id: o.id.toLowerCase(), text: o.text.trim() })),
+    correctOptionId: q.correctAnswer.toLowerCase(),
+    points,
+    explanation: q.explanation.trim(),
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const subject = typeof body.subject === 'string' ? body.subject.trim() : '';
+    const topic = typeof body.topic === 'string' ? body.topic.trim() : '';
+    if (!courseId || !subject || !topic || subject.length > 200 || topic.length > 200) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    const difficultyNum = Number(body.difficulty ?? 2);
+    if (!Number.isInteger(difficultyNum) || difficultyNum < 1 || difficultyNum > 3) {
+      return res.status(400).json({ error: 'Invalid difficulty', requestId: ctx.requestId });
+    }
+    const count = Number(body.questionCount ?? 10);
+    if (!Number.isInteger(count) || count < 5 || count > 20) {
+      return res.status(400).json({ error: 'Invalid questionCount', requestId: ctx.requestId });
+    }
+    const pointsPerQuestion = Number(body.pointsPerQuestion ?? 1);
+    if (!Number.isFinite(pointsPerQuestion) || pointsPerQuestion <= 0 || pointsPerQuestion > 1000) {
+      return res.status(400).json({ error: 'Invalid pointsPerQuestion', requestId: ctx.requestId });
+    }
+
+    // Same settings rules as tests/create; a generated draft defaults to an untitled practice test.
+    const settingsResult = parseTestSettings({
+      ...body,
+      title: typeof body.title === 'string' && body.title.trim() ? body.title : `${topic} (draft)`.slice(0, 200),
+      mode: body.mode ?? 'practice',
+    });
+    if (!settingsResult.ok) {
+      return res.status(400).json({ error: settingsResult.error, requestId: ctx.requestId });
+    }
+    const settings = settingsResult.settings;
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    // Rate limit (fail closed - high cost endpoint)
+    if (await rateLimitExceeded(`testDraft:${caller.uid}`, { failClosed: true })) {
+      return res.status(429).json({ error: 'Too Many Requests', requestId: ctx.requestId });
+    }
+
+    const { courseRef, course } = await requireCourseExists(courseId);
+
+    const generated = await generateQuizQuestions(
+      {
+        subject,
+        topic,
+        difficulty: DIFFICULTIES[difficultyNum - 1],
+        count,
+        course: { name: course?.name, code: course?.code, term: course?.term, description: course?.description },
+      },
+      { provider: defaultQuizTextProvider, requestId: ctx.requestId }
+    );
+
+    const { questions, pointsPossible } = normalizeQuestions(
+      generated.map((q, i) => toTestQuestionInput(q, i, pointsPerQuestion))
+    );
+    if (questions.length === 0) {
+      return res.status(502).json({ error: 'AI returned no usable questions', requestId: ctx.requestId });
+    }
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const testRef = courseRef.collection('tests').doc();
+    const versionRef = testRef.collection('versions').doc('1');
+
+    await db.runTransaction(async (tx) => {
+      tx.create(
+        testRef,
+        newTestDoc(settings, {
+          pointsPossible,
+          createdBy: caller.uid,
+          source: 'ai_draft',
+          generation: { subject, topic, difficulty: DIFFICULTIES[difficultyNum - 1], requestedCount: count },
+        })
+      );
+
+      tx.create(versionRef, {
+        schemaVersion: 1,
+        questions,
+        pools: [],
+        pointsPossible,
+        createdBy: caller.uid,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    });
+
+    await writeAuditLog({
+      action: 'test.create',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        testId: testRef.id,
+        mode: settings.mode,
+        pointsPossible,
+        questionCount: questions.length,
+        poolCount: 0,
+        scoringPolicy: settings.scoringPolicy,
+        reviewPolicy: settings.reviewPolicy,
+        source: 'ai_draft',
+      },
+    });
+
+    await emitDomainEvent({
+      type: 'test.created',
+      courseId,
+      actorUid: caller.uid,
+      actorRole: caller.role,
+      aggregate: { kind: 'test', id: testRef.id, version: 1 },
+      payload: { courseId, testId: testRef.id, mode: settings.mode, pointsPossible, source: 'ai_draft' },
+      idempotencyKey: `test.created:${courseId}:${testRef.id}:v1`,
+      requestId: ctx.requestId,
+    });
+
+    // Return the draft so the instructor can review and edit (tests/update) before tests/publish.
+    return res.status(200).json({
+      ok: true,
+      testId: testRef.id,
+      status: 'draft',
+      pointsPossible,
+      questions,
+      dropped: generated.length - questions.length,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,68 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { parseAiken, parseGift, QUESTION_FORMATS, type QuestionFormat } from '../_lib/questionFormats';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 200 * 1024;
+
+type Body = {
+  courseId: string;
+  format: QuestionFormat;
+  text: string;
+  defaultPoints?: number;
+};
+
+// Parses a GIFT/Aiken question bank into the versions question schema. Nothing is written:
+// the returned `questions` go to tests/create or tests/update, which validate them again.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const format = body.format;
+    const text = typeof body.text === 'string' ? body.text : '';
+    if (!courseId || !QUESTION_FORMATS.includes(format) || !text.trim()) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    const defaultPoints = body.defaultPoints != null ? Number(body.defaultPoints) : 1;
+    if (!Number.isFinite(defaultPoints) || defaultPoints <= 0 || defaultPoints > 1000) {
+      return res.status(400).json({ error: 'Invalid defaultPoints', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const result = format === 'gift' ? parseGift(text, { defaultPoints }) : parseAiken(text, { defaultPoints });
+
+    return res.status(200).json({
+      ok: true,
+      format,
+      questions: result.questions,
+      pointsPossible: result.pointsPossible,
+      rejected: result.rejected,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
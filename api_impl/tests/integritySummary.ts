@@ -0,0 +1,105 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { summarizeIntegrity } from '../_lib/attemptIntegrity';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+const MAX_ATTEMPTS_SCAN = 2000;
+
+type Body = {
+  courseId: string;
+  testId: string;
+  // One attempt with its full log; omit for a summary row per attempt.
+  attemptId?: string;
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const testId = (body.testId ?? '').trim();
+    const attemptId = typeof body.attemptId === 'string' ? body.attemptId.trim() : '';
+    if (!courseId || !testId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const attemptsRef = courseRef.collection('tests').doc(testId).collection('attempts');
+
+    let payload: Record<string, unknown>;
+    if (attemptId) {
+      const snap = await attemptsRef.doc(attemptId).get();
+      if (!snap.exists) {
+        return res.status(404).json({ error: 'Attempt not found', requestId: ctx.requestId });
+      }
+      const a = snap.data() as any;
+      payload = {
+        attempt: {
+          attemptId,
+          studentId: String(a?.userId ?? ''),
+          status: String(a?.status ?? ''),
+          summary: summarizeIntegrity(a),
+          log: Array.isArray(a?.integrityLog) ? a.integrityLog : [],
+        },
+      };
+    } else {
+      const snap = await attemptsRef.limit(MAX_ATTEMPTS_SCAN + 1).get();
+      if (snap.size > MAX_ATTEMPTS_SCAN) {
+        return res.status(413).json({ error: 'Too many attempts to summarize', requestId: ctx.requestId });
+      }
+      const attempts = snap.docs
+        .map((d) => {
+          const a = d.data() as any;
+          return {
+            attemptId: d.id,
+            studentId: String(a?.userId ?? ''),
+            status: String(a?.status ?? ''),
+            summary: summarizeIntegrity(a),
+          };
+        })
+        .sort((x, y) => y.summary.suspiciousTotal - x.summary.suspiciousTotal);
+      payload = { attempts };
+    }
+
+    await writeAuditLog({
+      action: 'test.integrity.read',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, testId, attemptId: attemptId || null },
+    });
+
+    // Advisory only: these are client-reported and easy to trigger innocently.
+    return res.status(200).json({ ok: true, advisory: true, ...payload });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
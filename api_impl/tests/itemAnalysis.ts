@@ -0,0 +1,130 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { questionMapFrom, type TestQuestion } from '../_lib/testQuestions';
+import { analyzeItems, itemStatsCsvRows, type AttemptForAnalysis } from '../_lib/itemAnalysis';
+import { toCsv } from '../_lib/csv';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+const MAX_ATTEMPTS_SCAN = 2000;
+
+type Body = {
+  courseId: string;
+  testId: string;
+  // Restrict to attempts served from one version; default is every graded attempt.
+  version?: number;
+  format?: 'json' | 'csv';
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const testId = (body.testId ?? '').trim();
+    const format = body.format === 'csv' ? 'csv' : 'json';
+    if (!courseId || !testId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (body.version != null && (!Number.isInteger(Number(body.version)) || Number(body.version) < 1)) {
+      return res.status(400).json({ error: 'Invalid version', requestId: ctx.requestId });
+    }
+    const versionFilter = body.version != null ? Number(body.version) : null;
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const testRef = courseRef.collection('tests').doc(testId);
+
+    const testSnap = await testRef.get();
+    if (!testSnap.exists) {
+      return res.status(404).json({ error: 'Test not found', requestId: ctx.requestId });
+    }
+    const test = testSnap.data() as any;
+
+    let attemptsQuery = testRef.collection('attempts').where('status', '==', 'graded');
+    if (versionFilter != null) attemptsQuery = attemptsQuery.where('testVersion', '==', versionFilter);
+    const attemptsSnap = await attemptsQuery.limit(MAX_ATTEMPTS_SCAN + 1).get();
+    if (attemptsSnap.size > MAX_ATTEMPTS_SCAN) {
+      return res.status(413).json({ error: 'Too many attempts to analyze', requestId: ctx.requestId });
+    }
+
+    // Every graded attempt counts as one response set (retakes included).
+    const attempts: AttemptForAnalysis[] = [];
+    const versionsSeen = new Set<number>();
+    for (const d of attemptsSnap.docs) {
+      const a = d.data() as any;
+      attempts.push({
+        score: Number(a?.score ?? 0),
+        breakdown: Array.isArray(a?.breakdown) ? a.breakdown : [],
+        answersSnapshot: a?.answersSnapshot && typeof a.answersSnapshot === 'object' ? a.answersSnapshot : {},
+      });
+      versionsSeen.add(Number(a?.testVersion ?? 1));
+    }
+
+    // Question text/options come from the newest version that still contains the id.
+    const questionById = new Map<string, TestQuestion>();
+    for (const v of [...versionsSeen].sort((x, y) => x - y)) {
+      const snap = await testRef.collection('versions').doc(String(v)).get();
+      if (!snap.exists) continue;
+      for (const [qid, q] of questionMapFrom(snap.data())) questionById.set(qid, q);
+    }
+
+    const items = analyzeItems(attempts, questionById);
+
+    await writeAuditLog({
+      action: 'test.itemAnalysis.read',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, testId, version: versionFilter, format, attemptsAnalyzed: attempts.length },
+    });
+
+    const summary = {
+      testId,
+      title: String(test?.title ?? ''),
+      version: versionFilter,
+      attemptsAnalyzed: attempts.length,
+      versions: [...versionsSeen].sort((x, y) => x - y),
+    };
+
+    if (format === 'csv') {
+      return res.status(200).json({
+        ok: true,
+        summary,
+        filename: `item-analysis_${testId}${versionFilter != null ? `_v${versionFilter}` : ''}.csv`,
+        contentType: 'text/csv',
+        csv: toCsv(itemStatsCsvRows(items)),
+      });
+    }
+
+    return res.status(200).json({ ok: true, summary, items });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,342 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { rateLimitExceeded } from '../../lib/rateLimit';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import { sanitizeOptionalReason } from '../_lib/sanitize';
+import { gradeForm, questionMapFrom, scoringPolicyFrom, testPointsPossible, type TestQuestion } from '../_lib/testQuestions';
+import { gradeReleaseFrom, readGradebookInTx, releaseAccounting } from '../_lib/gradeRelease';
+import { gradeCategoryFor, readGradingSchemeInTx } from '../_lib/gradingScheme';
+import { appendGradeHistoryInTx, gradeValueFrom } from '../_lib/gradeHistory';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+const MAX_ATTEMPTS_SCAN = 2000;
+
+type Body = {
+  courseId: string;
+  testId: string;
+  // Version whose answer key wins; defaults to the test's activeVersion.
+  keyVersion?: number;
+  reason?: string;
+};
+
+type GradeChange = {
+  studentId: string;
+  gradeId: string;
+  gradeRevision: number;
+  before: { score: number | null; pointsPossible: number | null };
+  after: { score: number; pointsPossible: number };
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const testId = (body.testId ?? '').trim();
+    const reason = sanitizeOptionalReason(body.reason);
+    if (!courseId || !testId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+    if (body.keyVersion != null && (!Number.isInteger(Number(body.keyVersion)) || Number(body.keyVersion) < 1)) {
+      return res.status(400).json({ error: 'Invalid keyVersion', requestId: ctx.requestId });
+    }
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    // Fanout guardrail: regrade touches every attempt + grade in the test.
+    const limiterKey = `regrade:${caller.uid}:${courseId}:${testId}`;
+    if (await rateLimitExceeded(limiterKey, { failClosed: true })) {
+      return res.status(429).json({ error: 'Too Many Requests', requestId: ctx.requestId });
+    }
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const testRef = courseRef.collection('tests').doc(testId);
+
+    const testSnap = await testRef.get();
+    if (!testSnap.exists) {
+      return res.status(404).json({ error: 'Test not found', requestId: ctx.requestId });
+    }
+    const test = testSnap.data() as any;
+    const isAssessed = test?.isAssessed === true || test?.mode === 'scheduled';
+    const keyVersion = body.keyVersion != null ? Number(body.keyVersion) : Number(test?.activeVersion ?? 1);
+    // The test's current scoring policy applies, so a corrected policy can be rolled out by regrading.
+    const scoringPolicy = scoringPolicyFrom(test);
+
+    // Versions are immutable once written, so they can be read outside the per-student transactions.
+    const versionCache = new Map<number, Map<string, TestQuestion>>();
+    const versionDocs = new Map<number, any>();
+    const loadVersion = async (v: number) => {
+      const cached = versionCache.get(v);
+      if (cached) return cached;
+      const snap = await testRef.collection('versions').doc(String(v)).get();
+      const map = snap.exists ? questionMapFrom(snap.data()) : new Map<string, TestQuestion>();
+      versionCache.set(v, map);
+      versionDocs.set(v, snap.exists ? snap.data() : null);
+      return map;
+    };
+
+    const keyById = await loadVersion(keyVersion);
+    if (keyById.size === 0) {
+      return res.status(404).json({ error: 'Key version not found', requestId: ctx.requestId });
+    }
+
+    const attemptsSnap = await testRef
+      .collection('attempts')
+      .where('status', '==', 'graded')
+      .limit(MAX_ATTEMPTS_SCAN + 1)
+      .get();
+    if (attemptsSnap.size > MAX_ATTEMPTS_SCAN) {
+      return res.status(413).json({ error: 'Too many attempts to regrade', requestId: ctx.requestId });
+    }
+
+    const attemptIdsByStudent = new Map<string, string[]>();
+    for (const d of attemptsSnap.docs) {
+      const uid = String((d.data() as any)?.userId ?? '');
+      if (!uid) continue;
+      const list = attemptIdsByStudent.get(uid) ?? [];
+      list.push(d.id);
+      attemptIdsByStudent.set(uid, list);
+      await loadVersion(Number((d.data() as any)?.testVersion ?? 1));
+    }
+
+    // Key questions override the attempt's own version by question id; anything the key
+    // version dropped is still scored against the version the student was served.
+    const mergedFor = (attemptVersion: number) => {
+      const merged = new Map(versionCache.get(attemptVersion) ?? []);
+      for (const [qid, q] of keyById) merged.set(qid, q);
+      return merged;
+    };
+
+    let attemptsRescored = 0;
+    let attemptsChanged = 0;
+    const gradeChanges: GradeChange[] = [];
+
+    for (const [studentId, attemptIds] of attemptIdsByStudent) {
+      const attemptRefs = attemptIds.map((id) => testRef.collection('attempts').doc(id));
+      const gradeId = `test_${testId}_${studentId}`;
+      const gradeRef = courseRef.collection('grades').doc(gradeId);
+      const gradebookRef = courseRef.collection('gradebook').doc(studentId);
+
+      const result = await db.runTransaction(async (tx) => {
+        // Reads first (Firestore transaction constraint)
+        const attemptSnaps = await Promise.all(attemptRefs.map((r) => tx.get(r)));
+        const gradeSnap = isAssessed ? await tx.get(gradeRef) : null;
+        const gradebook = isAssessed ? await readGradebookInTx(tx, courseRef, studentId) : {};
+        const scheme = isAssessed ? await readGradingSchemeInTx(tx, courseRef) : null;
+
+        let rescored = 0;
+        let changed = 0;
+        let latest: { attemptNo: number; score: number; pointsPossible: number; testVersion: number } | null = null;
+
+        for (const snap of attemptSnaps) {
+          if (!snap.exists) continue;
+          const attempt = snap.data() as any;
+          if (String(attempt?.status ?? '') !== 'graded') continue;
+
+          const testVersion = Number(attempt?.testVersion ?? 1);
+          const formSnapshot = Array.isArray(attempt?.formSnapshot) ? (attempt.formSnapshot as any[]) : [];
+          const answers = attempt?.answersSnapshot && typeof attempt.answersSnapshot === 'object' ? attempt.answersSnapshot : {};
+          const graded = gradeForm(formSnapshot, mergedFor(testVersion), answers, scoringPolicy);
+
+          const prevScore = Number(attempt?.score ?? 0);
+          rescored++;
+          if (graded.score !== prevScore) changed++;
+
+          tx.set(
+            snap.ref,
+            {
+              score: graded.score,
+              unclampedScore: graded.unclampedScore,
+              breakdown: graded.breakdown,
+              scoringPolicy,
+              regradedAgainstVersion: keyVersion,
+              regradedAt: FieldValue.serverTimestamp(),
+              regradedBy: caller.uid,
+              updatedAt: FieldValue.serverTimestamp(),
+            },
+            { merge: true }
+          );
+
+          const attemptNo = Number(attempt?.attemptNo ?? 0);
+          if (!latest || attemptNo > latest.attemptNo) {
+            latest = { attemptNo, score: graded.score, pointsPossible: testPointsPossible(test, versionDocs.get(testVersion), graded.score), testVersion };
+          }
+        }
+
+        let gradeChange: GradeChange | null = null;
+        if (isAssessed && latest && gradeSnap) {
+          const existedBefore = gradeSnap.exists;
+          const g = existedBefore ? (gradeSnap.data() as any) : {};
+          const prevScore = existedBefore ? Number(g?.score ?? 0) : null;
+          const prevPossible = existedBefore ? Number(g?.pointsPossible ?? 0) : null;
+
+          if (prevScore !== latest.score || prevPossible !== latest.pointsPossible) {
+            const priorRevision = Number(g?.gradeRevision ?? 0);
+            const gradeRevision = Number.isFinite(priorRevision) ? priorRevision + 1 : 1;
+
+            const { gradeFields, gradebookFields } = releaseAccounting({
+              gradeId,
+              category: gradeCategoryFor(test, 'test'),
+              scheme,
+              gradeBefore: existedBefore ? g : null,
+              gradebook,
+              score: latest.score,
+              pointsPossible: latest.pointsPossible,
+              held: gradeReleaseFrom(test) === 'held',
+            });
+
+            tx.set(
+              gradeRef,
+              {
+                studentId,
+                sourceType: 'test',
+                sourceId: testId,
+                sourceVersion: latest.testVersion,
+                score: latest.score,
+                pointsPossible: latest.pointsPossible,
+                ...gradeFields,
+                gradedAt: FieldValue.serverTimestamp(),
+                gradedBy: 'system',
+                regradedAgainstVersion: keyVersion,
+                gradeRevision,
+                updatedAt: FieldValue.serverTimestamp(),
+              },
+              { merge: true }
+            );
+
+            tx.set(
+              gradebookRef,
+              {
+                studentId,
+                ...gradebookFields,
+                computedAt: FieldValue.serverTimestamp(),
+                updatedAt: FieldValue.serverTimestamp(),
+                updatedAtBy: caller.uid,
+              },
+              { merge: true }
+            );
+
+            appendGradeHistoryInTx(tx, gradeRef, {
+              studentId,
+              sourceType: 'test',
+              sourceId: testId,
+              gradeRevision,
+              source: 'test_regrade',
+              actorUid: caller.uid,
+              from: gradeValueFrom(existedBefore ? g : null),
+              to: { score: latest.score, pointsPossible: latest.pointsPossible, released: gradeFields.released },
+              reason,
+              details: { keyVersion },
+            });
+
+            gradeChange = {
+              studentId,
+              gradeId,
+              gradeRevision,
+              before: { score: prevScore, pointsPossible: prevPossible },
+              after: { score: latest.score, pointsPossible: latest.pointsPossible },
+            };
+          }
+        }
+
+        return { rescored, changed, gradeChange };
+      });
+
+      attemptsRescored += result.rescored;
+      attemptsChanged += result.changed;
+      if (result.gradeChange) gradeChanges.push(result.gradeChange);
+    }
+
+    for (const change of gradeChanges) {
+      await emitDomainEvent({
+        type: 'grade.mutated',
+        courseId,
+        actorUid: caller.uid,
+        actorRole: caller.role,
+        aggregate: { kind: 'grade', id: change.gradeId, version: change.gradeRevision },
+        payload: {
+          courseId,
+          sourceType: 'test',
+          sourceId: testId,
+          studentId: change.studentId,
+          before: change.before,
+          after: change.after,
+          regrade: true,
+          keyVersion,
+        },
+        idempotencyKey: `grade.mutated:test:${courseId}:${testId}:${change.studentId}:r${change.gradeRevision}`,
+        requestId: ctx.requestId,
+      });
+    }
+
+    await writeAuditLog({
+      action: 'test.regrade',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        testId,
+        keyVersion,
+        isAssessed,
+        studentCount: attemptIdsByStudent.size,
+        attemptsRescored,
+        attemptsChanged,
+        gradesChanged: gradeChanges.length,
+        reason,
+      },
+    });
+
+    await emitDomainEvent({
+      type: 'test.regraded',
+      courseId,
+      actorUid: caller.uid,
+      actorRole: caller.role,
+      aggregate: { kind: 'test', id: testId, version: keyVersion },
+      payload: { courseId, testId, keyVersion, attemptsRescored, attemptsChanged, gradesChanged: gradeChanges.length },
+      idempotencyKey: `test.regraded:${courseId}:${testId}:k${keyVersion}:${ctx.requestId}`,
+      requestId: ctx.requestId,
+    });
+
+    return res.status(200).json({
+      ok: true,
+      keyVersion,
+      attemptsRescored,
+      attemptsChanged,
+      gradesChanged: gradeChanges.length,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
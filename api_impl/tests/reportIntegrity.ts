@@ -0,0 +1,144 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { rateLimitExceeded } from '../../lib/rateLimit';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { requireActiveEnrollmentOrPlatform, requireCourseExists } from '../_lib/courseAccess';
+import {
+  integrityCountsFrom,
+  MAX_INTEGRITY_LOG,
+  sanitizeSignals,
+  type IntegrityLogEntry,
+} from '../_lib/attemptIntegrity';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 20 * 1024;
+
+type Body = {
+  courseId: string;
+  testId: string;
+  attemptId: string;
+  // Batched by the client; atMillis is the client's clock.
+  signals: Array<{ kind: string; atMillis?: number }>;
+};
+
+// Like saveProgress, this is high-frequency client telemetry: no audit entry and no domain event per
+// report. The totals ride along on test.attempt.submitted once the attempt is graded.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const testId = (body.testId ?? '').trim();
+    const attemptId = (body.attemptId ?? '').trim();
+    if (!courseId || !testId || !attemptId || !Array.isArray(body.signals) || body.signals.length === 0) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    const limiterKey = `testIntegrity:${caller.uid}:${courseId}:${testId}:${attemptId}`;
+    if (await rateLimitExceeded(limiterKey)) {
+      return res.status(429).json({ error: 'Too Many Requests', requestId: ctx.requestId });
+    }
+
+    await requireActiveEnrollmentOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const nowMillis = Date.now();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const testRef = courseRef.collection('tests').doc(testId);
+    const attemptRef = testRef.collection('attempts').doc(attemptId);
+
+    const txResult = await db.runTransaction(async (tx) => {
+      const [testSnap, attemptSnap] = await Promise.all([tx.get(testRef), tx.get(attemptRef)]);
+      if (!testSnap.exists) {
+        const err = new Error('Test not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      if (!attemptSnap.exists) {
+        const err = new Error('Attempt not found');
+        (err as any).status = 404;
+        throw err;
+      }
+
+      const test = testSnap.data() as any;
+      const attempt = attemptSnap.data() as any;
+
+      if (attempt?.userId !== caller.uid) {
+        const err = new Error('Forbidden');
+        (err as any).status = 403;
+        throw err;
+      }
+      if (test?.mode !== 'scheduled') {
+        const err = new Error('Integrity signals are only recorded for scheduled tests');
+        (err as any).status = 409;
+        throw err;
+      }
+      if (String(attempt?.status ?? '') !== 'started') {
+        const err = new Error('Attempt is not active');
+        (err as any).status = 409;
+        throw err;
+      }
+
+      // Same cutoff as saveProgress: an attempt left 'started' past its deadline is awaiting the
+      // finalizeExpired sweep and takes no more signals.
+      const expiresAtMillis = Number(attempt?.expiresAtMillis ?? 0);
+      if (!Number.isFinite(expiresAtMillis) || nowMillis > expiresAtMillis) {
+        const err = new Error('Attempt expired');
+        (err as any).status = 409;
+        throw err;
+      }
+
+      const startedAtMillis = typeof attempt?.startedAt?.toMillis === 'function' ? Number(attempt.startedAt.toMillis()) : null;
+      const { accepted, rejected } = sanitizeSignals(body.signals, {
+        startedAtMillis,
+        receivedAtMillis: nowMillis,
+        expiresAtMillis,
+      });
+
+      const counts = integrityCountsFrom(attempt?.integrityCounts);
+      for (const e of accepted) counts[e.kind] = (counts[e.kind] ?? 0) + 1;
+
+      const prevLog = (Array.isArray(attempt?.integrityLog) ? attempt.integrityLog : []) as IntegrityLogEntry[];
+      const room = Math.max(0, MAX_INTEGRITY_LOG - prevLog.length);
+      const kept = accepted.slice(0, room);
+      const dropped = accepted.length - kept.length;
+
+      tx.update(attemptRef, {
+        integrityLog: [...prevLog, ...kept],
+        integrityCounts: counts,
+        integrityDropped: FieldValue.increment(dropped),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+      return { recorded: accepted.length, rejected, logFull: kept.length < accepted.length };
+    });
+
+    return res.status(200).json({ ok: true, ...txResult });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
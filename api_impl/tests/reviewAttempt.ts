@@ -0,0 +1,143 @@
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import {
+  requireActiveEnrollmentOrPlatform,
+  requireCourseExists,
+  requireInstructorOrPlatform,
+} from '../_lib/courseAccess';
+import { questionMapFrom, type TestQuestion } from '../_lib/testQuestions';
+import { buildAttemptReview, keyReleaseAtMillis, reviewPolicyFrom } from '../_lib/testReview';
+import { courseTestAccommodationMaxima } from '../_lib/accommodations';
+import { testGradesHeld } from '../_lib/testAttempts';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 10 * 1024;
+
+type Body = {
+  courseId: string;
+  testId: string;
+  attemptId: string;
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const testId = (body.testId ?? '').trim();
+    const attemptId = (body.attemptId ?? '').trim();
+    if (!courseId || !testId || !attemptId) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    await requireActiveEnrollmentOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const testRef = courseRef.collection('tests').doc(testId);
+
+    const [testSnap, attemptSnap] = await Promise.all([testRef.get(), testRef.collection('attempts').doc(attemptId).get()]);
+    if (!testSnap.exists) {
+      return res.status(404).json({ error: 'Test not found', requestId: ctx.requestId });
+    }
+    if (!attemptSnap.exists) {
+      return res.status(404).json({ error: 'Attempt not found', requestId: ctx.requestId });
+    }
+    const test = testSnap.data() as any;
+    const attempt = attemptSnap.data() as any;
+
+    const isOwner = attempt?.userId === caller.uid;
+    if (!isOwner) {
+      await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+    }
+
+    if (String(attempt?.status ?? '') !== 'graded') {
+      return res.status(409).json({ error: 'Attempt is not graded yet', requestId: ctx.requestId });
+    }
+
+    const policy = reviewPolicyFrom(test);
+    let includeKey = true;
+    let keyAvailableAtMillis: number | null = null;
+
+    // Staff always see the key; students only as the policy allows, and never while any
+    // student could still be sitting a scheduled test.
+    if (isOwner) {
+      if (policy === 'never') {
+        return res.status(403).json({ error: 'Review is not available for this test', requestId: ctx.requestId });
+      }
+      if (testGradesHeld(test)) {
+        return res.status(409).json({ error: 'Grades for this test have not been released', requestId: ctx.requestId });
+      }
+      const releaseAt = keyReleaseAtMillis(test, await courseTestAccommodationMaxima(courseRef));
+      const released = releaseAt == null || Date.now() >= releaseAt;
+      if (!released) {
+        keyAvailableAtMillis = Number.isFinite(releaseAt) ? (releaseAt as number) : null;
+        if (policy === 'after_window') {
+          return res
+            .status(409)
+            .json({ error: 'Review opens after the test window closes', availableAtMillis: keyAvailableAtMillis, requestId: ctx.requestId });
+        }
+        includeKey = false;
+      }
+    }
+
+    // Use the key the attempt was last graded with (tests/regrade may have overlaid a newer version).
+    const loadVersion = async (v: number) => {
+      const snap = await testRef.collection('versions').doc(String(v)).get();
+      return snap.exists ? questionMapFrom(snap.data()) : new Map<string, TestQuestion>();
+    };
+    const questionById = await loadVersion(Number(attempt?.testVersion ?? 1));
+    const regradedAgainst = Number(attempt?.regradedAgainstVersion);
+    if (Number.isFinite(regradedAgainst) && regradedAgainst !== Number(attempt?.testVersion ?? 1)) {
+      for (const [qid, q] of await loadVersion(regradedAgainst)) questionById.set(qid, q);
+    }
+
+    const questions = buildAttemptReview(attempt, questionById, { includeKey });
+
+    await writeAuditLog({
+      action: 'test.attempt.review',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      targetUid: isOwner ? undefined : String(attempt?.userId ?? ''),
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: { courseId, testId, attemptId, policy, includeKey },
+    });
+
+    return res.status(200).json({
+      ok: true,
+      attemptId,
+      policy,
+      keyReleased: includeKey,
+      keyAvailableAtMillis,
+      score: Number(attempt?.score ?? 0),
+      pointsPossible: Number(test?.pointsPossible ?? 0),
+      autoSubmitted: attempt?.autoSubmitted === true,
+      questions,
+    });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
@@ -0,0 +1,137 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { rateLimitExceeded } from '../../lib/rateLimit';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { requireActiveEnrollmentOrPlatform, requireCourseExists } from '../_lib/courseAccess';
+import { questionMapFrom, sanitizeFormAnswers, type AnswerValue } from '../_lib/testQuestions';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 80 * 1024;
+
+type Body = {
+  courseId: string;
+  testId: string;
+  attemptId: string;
+  // Partial: only the questions that changed. `null` clears a saved answer.
+  answers: Record<string, AnswerValue | null>;
+};
+
+// Autosave for in-progress attempts. Deliberately not audit-logged or emitted as a domain event:
+// clients call this every few seconds, and submitAttempt records the final answers anyway.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const testId = (body.testId ?? '').trim();
+    const attemptId = (body.attemptId ?? '').trim();
+    const answers = body.answers && typeof body.answers === 'object' && !Array.isArray(body.answers) ? body.answers : null;
+
+    if (!courseId || !testId || !attemptId || !answers) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    const limiterKey = `testSave:${caller.uid}:${courseId}:${testId}:${attemptId}`;
+    if (await rateLimitExceeded(limiterKey)) {
+      return res.status(429).json({ error: 'Too Many Requests', requestId: ctx.requestId });
+    }
+
+    await requireActiveEnrollmentOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const nowMillis = Date.now();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const testRef = courseRef.collection('tests').doc(testId);
+    const attemptRef = testRef.collection('attempts').doc(attemptId);
+
+    const txResult = await db.runTransaction(async (tx) => {
+      const attemptSnap = await tx.get(attemptRef);
+      if (!attemptSnap.exists) {
+        const err = new Error('Attempt not found');
+        (err as any).status = 404;
+        throw err;
+      }
+
+      const attempt = attemptSnap.data() as any;
+      if (attempt?.userId !== caller.uid) {
+        const err = new Error('Forbidden');
+        (err as any).status = 403;
+        throw err;
+      }
+
+      if (String(attempt?.status ?? '') !== 'started') {
+        const err = new Error('Attempt is not active');
+        (err as any).status = 409;
+        throw err;
+      }
+
+      const expiresAtMillis = Number(attempt?.expiresAtMillis ?? 0);
+      if (!Number.isFinite(expiresAtMillis) || nowMillis > expiresAtMillis) {
+        const err = new Error('Attempt expired');
+        (err as any).status = 409;
+        throw err;
+      }
+
+      const testVersion = Number(attempt?.testVersion ?? 1);
+      const formSnapshot = Array.isArray(attempt?.formSnapshot) ? (attempt.formSnapshot as any[]) : [];
+      if (!Number.isFinite(testVersion) || formSnapshot.length === 0) {
+        const err = new Error('Invalid attempt state');
+        (err as any).status = 500;
+        throw err;
+      }
+
+      const versionSnap = await tx.get(testRef.collection('versions').doc(String(testVersion)));
+      if (!versionSnap.exists) {
+        const err = new Error('Test version not found');
+        (err as any).status = 500;
+        throw err;
+      }
+
+      const { accepted, cleared, rejected } = sanitizeFormAnswers(formSnapshot, questionMapFrom(versionSnap.data()), answers);
+
+      const saved: Record<string, AnswerValue> = {
+        ...(attempt?.savedAnswers && typeof attempt.savedAnswers === 'object' ? attempt.savedAnswers : {}),
+        ...accepted,
+      };
+      for (const qid of cleared) delete saved[qid];
+
+      // update() replaces the whole map so cleared keys are really removed.
+      tx.update(attemptRef, {
+        savedAnswers: saved,
+        savedAtMillis: nowMillis,
+        saveCount: FieldValue.increment(1),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+      return { savedCount: Object.keys(saved).length, rejected, expiresAtMillis };
+    });
+
+    return res.status(200).json({ ok: true, savedAtMillis: nowMillis, ...txResult });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
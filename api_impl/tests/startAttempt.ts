@@ -7,6 +7,17 @@ import { getRequestContext, type VercelRequest, type VercelResponse } from '../_
 import { writeAuditLog } from '../_lib/auditLog';
 import { requireActiveEnrollmentOrPlatform, requireCourseExists } from '../_lib/courseAccess';
 import { emitDomainEvent } from '../_lib/domainEvents';
+import {
+  drawFromPools,
+  questionMapFrom,
+  servedFormFromSnapshot,
+  toServedQuestion,
+  type AnswerValue,
+  type QuestionPool,
+  type TestQuestion,
+} from '../_lib/testQuestions';
+import { mulberry32, seedFromString, shuffleInPlace } from '../_lib/seededRandom';
+import { accommodationFrom, accommodationRef, hasAccommodation } from '../_lib/accommodations';
 
 export const config = { runtime: 'nodejs' };
 
@@ -18,36 +29,7 @@ type Body = {
   testId: string;
 };
 
-type VersionQuestion = {
-  id: string;
-  type: 'mcq';
-  prompt: string;
-  options: Array<{ id: string; text: string }>;
-  correctOptionId: string;
-  points: number;
-};
-
-function mulberry32(seed: number) {
-  return function () {
-    let t = (seed += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
-function seedFromString(s: string): number {
-  const h = crypto.createHash('sha256').update(s).digest();
-  // use first 4 bytes as uint32
-  return h.readUInt32LE(0);
-}
-
-function shuffleInPlace<T>(arr: T[], rng: () => number) {
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(rng() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-}
+type AppliedAccommodation = { timeMultiplier: number; windowExtensionMinutes: number };
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const ctx = getRequestContext(req);
@@ -110,19 +92,71 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const windowStartMillis = typeof test?.windowStartMillis === 'number' ? test.windowStartMillis : undefined;
       const windowEndMillis = typeof test?.windowEndMillis === 'number' ? test.windowEndMillis : undefined;
 
+      const testSummary = {
+        testId,
+        title: String(test?.title ?? ''),
+        mode,
+        durationMinutes: mode === 'scheduled' ? durationMinutes : null,
+        pointsPossible: Number(test?.pointsPossible ?? null),
+      };
+
+      const attemptsQuery = testRef
+        .collection('attempts')
+        .where('userId', '==', caller.uid)
+        .limit(MAX_EXISTING_ATTEMPTS_SCAN);
+      const attemptsSnap = await tx.get(attemptsQuery);
+      const attemptsUsed = attemptsSnap.size;
+
+      // Resume: an unexpired `started` attempt is handed back as-is (same form, saved answers),
+      // even if the scheduled window has since closed — expiresAtMillis is the only deadline for it.
+      const resumable = attemptsSnap.docs.find((d) => {
+        const a = d.data() as any;
+        return String(a?.status ?? '') === 'started' && Number(a?.expiresAtMillis ?? 0) > nowMillis;
+      });
+      if (resumable) {
+        const attempt = resumable.data() as any;
+        const testVersion = Number(attempt?.testVersion ?? activeVersion);
+        const resumeVersionSnap = await tx.get(testRef.collection('versions').doc(String(testVersion)));
+        if (!resumeVersionSnap.exists) {
+          const err = new Error('Test version not found');
+          (err as any).status = 500;
+          throw err;
+        }
+        const formSnapshot = Array.isArray(attempt?.formSnapshot) ? (attempt.formSnapshot as any[]) : [];
+
+        return {
+          resumed: true,
+          attemptId: resumable.id,
+          attemptNo: Number(attempt?.attemptNo ?? 0),
+          expiresAtMillis: Number(attempt.expiresAtMillis),
+          test: testSummary,
+          servedQuestions: servedFormFromSnapshot(formSnapshot, questionMapFrom(resumeVersionSnap.data())),
+          savedAnswers: (attempt?.savedAnswers && typeof attempt.savedAnswers === 'object' ? attempt.savedAnswers : {}) as Record<
+            string,
+            AnswerValue
+          >,
+          testVersion,
+          accommodation: (attempt?.accommodation ?? null) as AppliedAccommodation | null,
+        };
+      }
+
       if (!Number.isFinite(attemptsAllowed) || attemptsAllowed < 1 || attemptsAllowed > 10) {
         const err = new Error('Invalid attemptsAllowed');
         (err as any).status = 500;
         throw err;
       }
 
+      const accommodationSnap = await tx.get(accommodationRef(courseRef, caller.uid));
+      const accommodation = accommodationFrom(accommodationSnap.exists ? accommodationSnap.data() : null);
+      const effectiveWindowEndMillis = (windowEndMillis as number) + accommodation.windowExtensionMinutes * 60 * 1000;
+
       if (mode === 'scheduled') {
         if (!Number.isFinite(windowStartMillis) || !Number.isFinite(windowEndMillis) || !Number.isFinite(durationMinutes)) {
           const err = new Error('Invalid scheduled test configuration');
           (err as any).status = 500;
           throw err;
         }
-        if (nowMillis < (windowStartMillis as number) || nowMillis > (windowEndMillis as number)) {
+        if (nowMillis < (windowStartMillis as number) || nowMillis > effectiveWindowEndMillis) {
           const err = new Error('Test window is not open');
           (err as any).status = 409;
           throw err;
@@ -135,13 +169,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
 
       // Enforce attemptsAllowed atomically inside transaction.
-      const attemptsQuery = testRef
-        .collection('attempts')
-        .where('userId', '==', caller.uid)
-        .limit(MAX_EXISTING_ATTEMPTS_SCAN);
-      const attemptsSnap = await tx.get(attemptsQuery);
-      const attemptsUsed = attemptsSnap.size;
-
       if (attemptsUsed >= attemptsAllowed) {
         const err = new Error('No remaining attempts');
         (err as any).status = 409;
@@ -162,7 +189,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
 
       const version = versionSnap.data() as any;
-      const questions = (Array.isArray(version?.questions) ? version.questions : []) as VersionQuestion[];
+      const questions = (Array.isArray(version?.questions) ? version.questions : []) as TestQuestion[];
       if (questions.length === 0) {
         const err = new Error('Test has no questions');
         (err as any).status = 409;
@@ -172,16 +199,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const formSeed = crypto.randomBytes(16).toString('hex');
       const rng = mulberry32(seedFromString(`${formSeed}:${testId}:${attemptId}:${activeVersion}`));
 
-      const servedQuestions = questions.map((q) => ({
-        id: String(q.id),
-        prompt: String(q.prompt ?? ''),
-        points: Number(q.points ?? 1),
-        options: Array.isArray(q.options) ? q.options.map((o) => ({ id: String(o.id), text: String(o.text) })) : [],
-      }));
+      // Pool draw uses its own stream so the subset is reproducible from formSeed alone.
+      const pools = (Array.isArray(version?.pools) ? version.pools : []) as QuestionPool[];
+      const drawRng = mulberry32(seedFromString(`${formSeed}:${testId}:${attemptId}:${activeVersion}:pools`));
+      const drawnQuestions = drawFromPools(questions, pools, drawRng);
+
+      const servedQuestions = drawnQuestions.map(toServedQuestion);
 
       if (shuffle) {
         shuffleInPlace(servedQuestions, rng);
         for (const q of servedQuestions) {
+          if (q.type === 'true_false') continue;
           shuffleInPlace(q.options, rng);
         }
       }
@@ -193,8 +221,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       const expiresAtMillis =
         mode === 'scheduled'
-          ? nowMillis + durationMinutes * 60 * 1000
+          ? nowMillis + Math.round(durationMinutes * accommodation.timeMultiplier * 60 * 1000)
           : nowMillis + 7 * 24 * 60 * 60 * 1000;
+      const appliedAccommodation: AppliedAccommodation | null =
+        mode === 'scheduled' && hasAccommodation(accommodation)
+          ? { timeMultiplier: accommodation.timeMultiplier, windowExtensionMinutes: accommodation.windowExtensionMinutes }
+          : null;
 
       tx.create(attemptRef, {
         userId: caller.uid,
@@ -205,28 +237,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         testVersion: activeVersion,
         formSeed,
         formSnapshot,
+        accommodation: appliedAccommodation,
         createdAt: FieldValue.serverTimestamp(),
         createdBy: caller.uid,
       });
 
       return {
+        resumed: false,
         attemptId,
         attemptNo,
         expiresAtMillis,
-        test: {
-          testId,
-          title: String(test?.title ?? ''),
-          mode,
-          durationMinutes: mode === 'scheduled' ? durationMinutes : null,
-          pointsPossible: Number(test?.pointsPossible ?? null),
-        },
+        test: testSummary,
         servedQuestions,
+        savedAnswers: {} as Record<string, AnswerValue>,
         testVersion: activeVersion,
+        accommodation: appliedAccommodation,
       };
     });
 
     await writeAuditLog({
-      action: 'test.attempt.start',
+      action: txResult.resumed ? 'test.attempt.resume' : 'test.attempt.start',
       actorUid: caller.uid,
       actorEmail: caller.email,
       actorRole: caller.role,
@@ -240,34 +270,41 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         attemptNo: txResult.attemptNo,
         testVersion: txResult.testVersion,
         expiresAtMillis: txResult.expiresAtMillis,
+        resumed: txResult.resumed,
+        accommodation: txResult.accommodation,
       },
     });
 
-    await emitDomainEvent({
-      type: 'test.attempt.started',
-      courseId,
-      actorUid: caller.uid,
-      actorRole: caller.role,
-      aggregate: { kind: 'attempt', id: txResult.attemptId, version: txResult.testVersion },
-      payload: {
+    if (!txResult.resumed) {
+      await emitDomainEvent({
+        type: 'test.attempt.started',
         courseId,
-        testId,
-        attemptId: txResult.attemptId,
-        attemptNo: txResult.attemptNo,
-        testVersion: txResult.testVersion,
-      },
-      idempotencyKey: `test.attempt.started:${courseId}:${testId}:${txResult.attemptId}:v${txResult.testVersion}`,
-      requestId: ctx.requestId,
-    });
+        actorUid: caller.uid,
+        actorRole: caller.role,
+        aggregate: { kind: 'attempt', id: txResult.attemptId, version: txResult.testVersion },
+        payload: {
+          courseId,
+          testId,
+          attemptId: txResult.attemptId,
+          attemptNo: txResult.attemptNo,
+          testVersion: txResult.testVersion,
+          accommodation: txResult.accommodation,
+        },
+        idempotencyKey: `test.attempt.started:${courseId}:${testId}:${txResult.attemptId}:v${txResult.testVersion}`,
+        requestId: ctx.requestId,
+      });
+    }
 
     return res.status(200).json({
       ok: true,
       attemptId: txResult.attemptId,
       expiresAtMillis: txResult.expiresAtMillis,
+      resumed: txResult.resumed,
       test: txResult.test,
       form: {
         questions: txResult.servedQuestions,
       },
+      savedAnswers: txResult.savedAnswers,
     });
   } catch (e: any) {
     const status = typeof e?.status === 'number' ? e.status : 500;
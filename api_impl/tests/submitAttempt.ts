@@ -1,11 +1,11 @@
-import { FieldValue } from 'firebase-admin/firestore';
 import { applyCors, isOriginAllowed } from '../_lib/cors';
 import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
 import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
 import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
 import { writeAuditLog } from '../_lib/auditLog';
 import { requireActiveEnrollmentOrPlatform, requireCourseExists } from '../_lib/courseAccess';
-import { emitDomainEvent } from '../_lib/domainEvents';
+import { type AnswerValue } from '../_lib/testQuestions';
+import { emitAttemptGradedEvents, gradeAttemptInTx } from '../_lib/testAttempts';
 
 export const config = { runtime: 'nodejs' };
 
@@ -15,14 +15,7 @@ type Body = {
   courseId: string;
   testId: string;
   attemptId: string;
-  answers: Record<string, string>; // questionId -> optionId
-};
-
-type VersionQuestion = {
-  id: string;
-  type: 'mcq';
-  correctOptionId: string;
-  points: number;
+  answers: Record<string, AnswerValue>; // questionId -> optionId | optionIds | number | text
 };
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -100,133 +93,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         throw err;
       }
 
-      const testVersion = Number(attempt?.testVersion ?? 1);
-      const formSnapshot = Array.isArray(attempt?.formSnapshot) ? (attempt.formSnapshot as any[]) : [];
-      if (!Number.isFinite(testVersion) || formSnapshot.length === 0) {
-        const err = new Error('Invalid attempt state');
-        (err as any).status = 500;
-        throw err;
-      }
-
-      const versionRef = testRef.collection('versions').doc(String(testVersion));
-      const versionSnap = await tx.get(versionRef);
-      if (!versionSnap.exists) {
-        const err = new Error('Test version not found');
-        (err as any).status = 500;
-        throw err;
-      }
-
-      const version = versionSnap.data() as any;
-      const questions = (Array.isArray(version?.questions) ? version.questions : []) as VersionQuestion[];
-      const questionById = new Map<string, VersionQuestion>();
-      for (const q of questions) {
-        if (q && typeof q.id === 'string') questionById.set(String(q.id), q);
-      }
-
-      let score = 0;
-      const breakdown: Array<{ questionId: string; correct: boolean; pointsAwarded: number }> = [];
-      const answersSnapshot: Record<string, string> = {};
-
-      for (const entry of formSnapshot) {
-        const qid = String(entry?.questionId ?? '').trim();
-        if (!qid) continue;
-
-        const q = questionById.get(qid);
-        if (!q) continue;
-
-        const allowedOptionIds = Array.isArray(entry?.optionIds) ? entry.optionIds.map((x: any) => String(x)) : [];
-        const selected = typeof answers[qid] === 'string' ? answers[qid].trim() : '';
-        const selectedAllowed = selected && allowedOptionIds.includes(selected);
-
-        if (selectedAllowed) answersSnapshot[qid] = selected;
-
-        const correct = selectedAllowed && selected === String(q.correctOptionId);
-        const pts = Number(q.points ?? 1);
-        const awarded = correct ? (Number.isFinite(pts) ? pts : 1) : 0;
-        score += awarded;
-        breakdown.push({ questionId: qid, correct, pointsAwarded: awarded });
-      }
-
-      const pointsPossible = Number(test?.pointsPossible ?? score);
-      const isAssessed = test?.isAssessed === true || test?.mode === 'scheduled';
-
-      const gradeId = `test_${testId}_${caller.uid}`;
-      const gradeRef = courseRef.collection('grades').doc(gradeId);
-      const gradebookRef = courseRef.collection('gradebook').doc(caller.uid);
-
-      const gradeSnapBefore = isAssessed ? await tx.get(gradeRef) : null;
-      const gradebookSnap = isAssessed ? await tx.get(gradebookRef) : null;
-      const gb = gradebookSnap && gradebookSnap.exists ? (gradebookSnap.data() as any) : {};
-
-      tx.set(
-        attemptRef,
-        {
-          status: 'graded',
-          submittedAt: FieldValue.serverTimestamp(),
-          answersSnapshot,
-          score,
-          breakdown,
-          gradedAt: FieldValue.serverTimestamp(),
-          gradedBy: 'system',
-          updatedAt: FieldValue.serverTimestamp(),
-        },
-        { merge: true }
-      );
-
-      let gradeRevision = 0;
-      if (isAssessed) {
-        const existedBefore = !!gradeSnapBefore?.exists;
-        const priorRevision = existedBefore ? Number((gradeSnapBefore!.data() as any)?.gradeRevision ?? 0) : 0;
-        gradeRevision = Number.isFinite(priorRevision) ? priorRevision + 1 : 1;
-
-        const prevScore = existedBefore ? Number((gradeSnapBefore!.data() as any)?.score ?? 0) : 0;
-        const deltaScore = score - (Number.isFinite(prevScore) ? prevScore : 0);
-
-        const prevTotalScore = Number(gb?.totalScore ?? 0);
-        const nextTotalScore = (Number.isFinite(prevTotalScore) ? prevTotalScore : 0) + deltaScore;
-
-        const prevTotalPossible = Number(gb?.totalPossible ?? 0);
-        const nextTotalPossible = (Number.isFinite(prevTotalPossible) ? prevTotalPossible : 0) + (existedBefore ? 0 : pointsPossible);
-
-        tx.set(
-          gradeRef,
-          {
-            studentId: caller.uid,
-            sourceType: 'test',
-            sourceId: testId,
-            sourceVersion: testVersion,
-            score,
-            pointsPossible,
-            gradedAt: FieldValue.serverTimestamp(),
-            gradedBy: 'system',
-            gradeRevision,
-            updatedAt: FieldValue.serverTimestamp(),
-          },
-          { merge: true }
-        );
-
-        tx.set(
-          gradebookRef,
-          {
-            studentId: caller.uid,
-            totalScore: nextTotalScore,
-            totalPossible: nextTotalPossible,
-            computedAt: FieldValue.serverTimestamp(),
-            updatedAt: FieldValue.serverTimestamp(),
-            updatedAtBy: 'system',
-          },
-          { merge: true }
-        );
-      }
-
-      return {
-        score,
-        pointsPossible,
-        isAssessed,
-        gradeId: isAssessed ? gradeId : null,
-        gradeRevision: isAssessed ? gradeRevision : null,
-        testVersion,
-      };
+      return gradeAttemptInTx(tx, { courseRef, testRef, attemptRef, test, attempt, answers, autoSubmitted: false });
     });
 
     await writeAuditLog({
@@ -245,43 +112,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         score: txResult.score,
         pointsPossible: txResult.pointsPossible,
         isAssessed: txResult.isAssessed,
+        held: txResult.held,
         gradeId: txResult.gradeId,
         gradeRevision: txResult.gradeRevision,
       },
     });
 
-    await emitDomainEvent({
-      type: 'test.attempt.submitted',
+    await emitAttemptGradedEvents({
       courseId,
+      testId,
+      attemptId,
+      result: txResult,
       actorUid: caller.uid,
       actorRole: caller.role,
-      aggregate: { kind: 'attempt', id: attemptId, version: txResult.testVersion },
-      payload: { courseId, testId, attemptId, testVersion: txResult.testVersion, score: txResult.score },
-      idempotencyKey: `test.attempt.submitted:${courseId}:${testId}:${attemptId}:v${txResult.testVersion}`,
       requestId: ctx.requestId,
     });
 
-    if (txResult.isAssessed && txResult.gradeId && txResult.gradeRevision != null) {
-      await emitDomainEvent({
-        type: 'grade.mutated',
-        courseId,
-        actorUid: caller.uid,
-        actorRole: caller.role,
-        aggregate: { kind: 'grade', id: txResult.gradeId, version: txResult.gradeRevision },
-        payload: {
-          courseId,
-          sourceType: 'test',
-          sourceId: testId,
-          studentId: caller.uid,
-          score: txResult.score,
-          pointsPossible: txResult.pointsPossible,
-        },
-        idempotencyKey: `grade.mutated:test:${courseId}:${testId}:${caller.uid}:r${txResult.gradeRevision}`,
-        requestId: ctx.requestId,
-      });
-    }
-
-    return res.status(200).json({ ok: true, score: txResult.score, pointsPossible: txResult.pointsPossible, isAssessed: txResult.isAssessed });
+    // Held grades are recorded, but the student only sees the score once the instructor releases it.
+    return res.status(200).json({
+      ok: true,
+      score: txResult.held ? null : txResult.score,
+      pointsPossible: txResult.pointsPossible,
+      isAssessed: txResult.isAssessed,
+      held: txResult.held,
+    });
   } catch (e: any) {
     const status = typeof e?.status === 'number' ? e.status : 500;
     const message = e?.message || 'Internal Server Error';
@@ -0,0 +1,163 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { applyCors, isOriginAllowed } from '../_lib/cors';
+import { assertBodySize, assertJson, requireCompleteProfile, requireUser } from '../_lib/authz';
+import { ensureFirebaseAdminApp } from '../_lib/firebaseAdmin';
+import { getRequestContext, type VercelRequest, type VercelResponse } from '../_lib/request';
+import { writeAuditLog } from '../_lib/auditLog';
+import { requireCourseExists, requireInstructorOrPlatform } from '../_lib/courseAccess';
+import { emitDomainEvent } from '../_lib/domainEvents';
+import { sanitizeOptionalReason } from '../_lib/sanitize';
+import { normalizePools, normalizeQuestions } from '../_lib/testQuestions';
+
+export const config = { runtime: 'nodejs' };
+
+const MAX_BODY_SIZE = 120 * 1024;
+
+type Body = {
+  courseId: string;
+  testId: string;
+  questions: unknown[];
+  pools?: Array<{ id: string; draw: number; questionIds: string[] }>;
+  reason?: string;
+};
+
+// Writes versions/{activeVersion + 1} and points new attempts at it.
+// Attempts already started keep their own testVersion; use tests/regrade to re-score them.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const ctx = getRequestContext(req);
+
+  res.setHeader('Cache-Control', 'no-store');
+  applyCors(req, res, { origin: ctx.origin });
+  if (ctx.origin && !isOriginAllowed(ctx.origin)) {
+    return res.status(403).json({ error: 'Forbidden Origin', requestId: ctx.requestId });
+  }
+
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    assertJson(req);
+    assertBodySize(req, MAX_BODY_SIZE);
+
+    const caller = await requireUser(req);
+    await requireCompleteProfile(caller);
+    const body = (req.body || {}) as Body;
+
+    const courseId = (body.courseId ?? '').trim();
+    const testId = (body.testId ?? '').trim();
+    const reason = sanitizeOptionalReason(body.reason);
+    if (!courseId || !testId || !Array.isArray(body.questions)) {
+      return res.status(400).json({ error: 'Invalid payload', requestId: ctx.requestId });
+    }
+
+    const { questions } = normalizeQuestions(body.questions);
+    if (questions.length === 0) {
+      return res.status(400).json({ error: 'A test version needs at least one valid question', requestId: ctx.requestId });
+    }
+    const poolResult = normalizePools(body.pools, questions);
+    if (!poolResult.ok) {
+      return res.status(400).json({ error: poolResult.error, requestId: ctx.requestId });
+    }
+    const { pools, pointsPossible } = poolResult;
+
+    await requireInstructorOrPlatform({ courseId, actorUid: caller.uid, actorRole: caller.role });
+
+    const admin = ensureFirebaseAdminApp();
+    const db = admin.firestore();
+
+    const { courseRef } = await requireCourseExists(courseId);
+    const testRef = courseRef.collection('tests').doc(testId);
+
+    const txResult = await db.runTransaction(async (tx) => {
+      const testSnap = await tx.get(testRef);
+      if (!testSnap.exists) {
+        const err = new Error('Test not found');
+        (err as any).status = 404;
+        throw err;
+      }
+      const test = testSnap.data() as any;
+      const beforeVersion = Number(test?.activeVersion ?? 1);
+      const beforePointsPossible = Number(test?.pointsPossible ?? 0);
+      const nextVersion = Number.isFinite(beforeVersion) ? beforeVersion + 1 : 2;
+
+      const versionRef = testRef.collection('versions').doc(String(nextVersion));
+      const versionSnap = await tx.get(versionRef);
+      if (versionSnap.exists) {
+        const err = new Error('Test version already exists');
+        (err as any).status = 409;
+        throw err;
+      }
+
+      tx.create(versionRef, {
+        schemaVersion: 1,
+        questions,
+        pools,
+        pointsPossible,
+        previousVersion: beforeVersion,
+        reason,
+        createdBy: caller.uid,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+
+      tx.set(
+        testRef,
+        {
+          activeVersion: nextVersion,
+          pointsPossible,
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedAtBy: caller.uid,
+        },
+        { merge: true }
+      );
+
+      return {
+        status: String(test?.status ?? 'draft'),
+        before: { activeVersion: beforeVersion, pointsPossible: beforePointsPossible },
+        after: { activeVersion: nextVersion, pointsPossible },
+      };
+    });
+
+    await writeAuditLog({
+      action: 'test.update',
+      actorUid: caller.uid,
+      actorEmail: caller.email,
+      actorRole: caller.role,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+      userAgent: ctx.userAgent,
+      metadata: {
+        courseId,
+        testId,
+        status: txResult.status,
+        before: txResult.before,
+        after: txResult.after,
+        questionCount: questions.length,
+        poolCount: pools.length,
+        reason,
+      },
+    });
+
+    await emitDomainEvent({
+      type: 'test.version.created',
+      courseId,
+      actorUid: caller.uid,
+      actorRole: caller.role,
+      aggregate: { kind: 'test', id: testId, version: txResult.after.activeVersion },
+      payload: {
+        courseId,
+        testId,
+        version: txResult.after.activeVersion,
+        previousVersion: txResult.before.activeVersion,
+        pointsPossible,
+      },
+      idempotencyKey: `test.version.created:${courseId}:${testId}:v${txResult.after.activeVersion}`,
+      requestId: ctx.requestId,
+    });
+
+    return res.status(200).json({ ok: true, activeVersion: txResult.after.activeVersion, pointsPossible });
+  } catch (e: any) {
+    const status = typeof e?.status === 'number' ? e.status : 500;
+    const message = e?.message || 'Internal Server Error';
+    return res.status(status).json({ error: message, requestId: ctx.requestId });
+  }
+}
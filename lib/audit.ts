@@ -7,14 +7,39 @@ export type AuditAction =
   | 'course.stream.post.create'
   | 'assignment.create'
   | 'assignment.publish'
+  | 'assignment.rubric.set'
+  | 'rubric.template.save'
+  | 'assignment.groups.set'
+  | 'assignment.group.join'
+  | 'assignment.group.leave'
   | 'submission.submit'
   | 'submission.grade.set'
+  | 'submission.grade.import'
+  | 'submission.grade.suggest'
+  | 'grade.history.read'
+  | 'submission.similarity.read'
+  | 'peer_review.assign'
+  | 'peer_review.submit'
+  | 'peer_review.status.read'
   | 'test.create'
   | 'test.publish'
+  | 'test.update'
+  | 'test.regrade'
+  | 'test.itemAnalysis.read'
+  | 'test.questions.export'
   | 'test.attempt.start'
+  | 'test.attempt.resume'
   | 'test.attempt.submit'
+  | 'test.attempt.autoSubmit'
+  | 'test.attempt.review'
+  | 'test.integrity.read'
   | 'gradebook.read'
   | 'gradebook.recompute'
+  | 'gradebook.scheme.set'
+  | 'gradebook.finalScheme.set'
+  | 'gradebook.finalGrades.compute'
+  | 'grades.hold'
+  | 'grades.release'
   | 'studyGroup.request.approve'
   | 'studyGroup.request.reject'
   | 'studyGroup.join'
@@ -24,6 +49,7 @@ export type AuditAction =
   | 'studyGroup.session.delete'
   | 'course.create'
   | 'enrollment.set'
+  | 'accommodation.set'
   | 'calendar.event.create'
   | 'calendar.event.update'
   | 'resource.submit'
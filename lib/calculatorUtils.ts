@@ -26,8 +26,19 @@ export interface SubjectRow {
   credits: number;
   internal: number;
   external: number;
+  // Rows imported from a course's final grade carry that course's external pass mark: below it the
+  // subject is F whatever the total.
+  minExternal?: number;
 }
 
+// Grade for one subject from its component marks, as the course final grade computes it.
+export const getSubjectGradeInfo = (sub: Pick<SubjectRow, 'internal' | 'external' | 'minExternal'>): GradeInfo => {
+  const internal = isNaN(sub.internal) ? 0 : sub.internal;
+  const external = isNaN(sub.external) ? 0 : sub.external;
+  if (sub.minExternal != null && external < sub.minExternal) return getGradeInfo(0);
+  return getGradeInfo(internal + external);
+};
+
 export interface SemesterRow {
   id: string;
   name: string;
@@ -42,8 +53,7 @@ export const calculateSGPA = (subjects: SubjectRow[]) => {
   subjects.forEach(sub => {
     // Validate inputs before calculating
     if (sub.credits > 0) {
-      const finalMarks = (isNaN(sub.internal) ? 0 : sub.internal) + (isNaN(sub.external) ? 0 : sub.external);
-      const { gp } = getGradeInfo(finalMarks);
+      const { gp } = getSubjectGradeInfo(sub);
       
       totalCredits += sub.credits;
       totalGradePoints += (gp * sub.credits);
@@ -85,6 +85,15 @@ export function analyzePhase3DomainEvents(
   }
 
   // 2) Student risk: repeated lateness signals
+  // Latest accommodation.set per student wins; an active due extension means the instructor already knows.
+  const accommodationByStudentCourse = new Map<string, DomainEventForAnalysis>();
+  for (const ev of boundedEvents) {
+    if (ev.type !== 'accommodation.set') continue;
+    const studentId = ev.payload?.studentId;
+    if (typeof studentId !== 'string') continue;
+    accommodationByStudentCourse.set(`${ev.courseId}::${studentId}`, ev);
+  }
+
   const lateByStudentCourse = new Map<string, DomainEventForAnalysis[]>();
   for (const ev of boundedEvents) {
     if (ev.type !== 'submission.late') continue;
@@ -92,6 +101,9 @@ export function analyzePhase3DomainEvents(
     if (typeof studentId !== 'string') continue;
     const key = `${ev.courseId}::${studentId}`;
     const list = lateByStudentCourse.get(key) ?? [];
+    // Count assignments, not resubmissions (older events were emitted per late resubmission).
+    const assignmentId = ev.payload?.assignmentId;
+    if (typeof assignmentId === 'string' && list.some((e) => e.payload?.assignmentId === assignmentId)) continue;
     list.push(ev);
     lateByStudentCourse.set(key, list);
   }
@@ -105,20 +117,26 @@ export function analyzePhase3DomainEvents(
       .filter((n) => Number.isFinite(n));
     const avgLateHours = lateHours.length ? lateHours.reduce((a, b) => a + b, 0) / lateHours.length : NaN;
 
-    const evidence = lates
+    const accommodationEv = accommodationByStudentCourse.get(key);
+    const hasDueExtension = Number(accommodationEv?.payload?.dueExtensionHours ?? 0) > 0;
+
+    const evidence = [...lates, ...(accommodationEv ? [accommodationEv] : [])]
       .map((e) => e.eventId)
       .filter((id): id is string => typeof id === 'string' && id.length > 0);
 
-    const confidence = clamp01(0.45 + Math.min(0.4, (lates.length - 2) * 0.15));
+    // Late is already computed against the extended deadline, but an active accommodation
+    // means the instructor is aware of the student's situation: keep the signal, lower its weight.
+    const baseConfidence = clamp01(0.45 + Math.min(0.4, (lates.length - 2) * 0.15));
+    const confidence = hasDueExtension ? clamp01(baseConfidence - 0.2) : baseConfidence;
 
     insights.push({
       insightType: 'risk.student_late_submission_pattern',
       scope: { type: 'user', userId: studentId, courseId },
-      whyGenerated: `Multiple late submission signals detected (count=${lates.length}, avgLateHours≈${Number.isFinite(avgLateHours) ? avgLateHours.toFixed(1) : 'unknown'}). Pattern may indicate workload overload or disengagement risk.`,
+      whyGenerated: `Multiple late submission signals detected (count=${lates.length}, avgLateHours≈${Number.isFinite(avgLateHours) ? avgLateHours.toFixed(1) : 'unknown'}${hasDueExtension ? `, dueExtensionHours=${Number(accommodationEv?.payload?.dueExtensionHours)}` : ''}). Pattern may indicate workload overload or disengagement risk.`,
       evidenceRefs: evidence,
       confidence,
       invalidationConditions:
-        'If later events show on-time submissions OR accommodations/extended deadlines (not present in events), this pattern may not reflect risk.',
+        'If later events show on-time submissions OR a newer accommodation.set extends this student\'s deadlines, this pattern may not reflect risk.',
     });
   }
 
@@ -155,7 +173,8 @@ export function analyzePhase3DomainEvents(
       const attemptId = ev.payload?.attemptId;
       if (typeof attemptId === 'string') attemptsStarted.set(`${ev.courseId}::${attemptId}`, ev);
     }
-    if (ev.type === 'test.attempt.submitted') {
+    // Sweep-finalized attempts (autoSubmitted) were still abandoned by the student, so they stay in the signal.
+    if (ev.type === 'test.attempt.submitted' && ev.payload?.autoSubmitted !== true) {
       const attemptId = ev.payload?.attemptId;
       if (typeof attemptId === 'string') attemptsSubmitted.add(`${ev.courseId}::${attemptId}`);
     }
@@ -198,6 +217,51 @@ export function analyzePhase3DomainEvents(
     }
   }
 
+  // 5) Attempt integrity outliers: client-reported tab switches / fullscreen exits / copy-paste on
+  // scheduled tests, compared against the rest of the same test. Advisory evidence for the instructor only.
+  const INTEGRITY_KINDS = ['visibility_hidden', 'fullscreen_exit', 'copy', 'paste', 'cut'];
+  const integrityByTest = new Map<string, Array<{ ev: DomainEventForAnalysis; total: number }>>();
+  for (const ev of boundedEvents) {
+    if (ev.type !== 'test.attempt.submitted') continue;
+    const integrity = ev.payload?.integrity as Record<string, unknown> | undefined;
+    const testId = ev.payload?.testId;
+    if (!integrity || typeof integrity !== 'object' || typeof testId !== 'string') continue;
+    const total = INTEGRITY_KINDS.reduce((sum, k) => {
+      const n = Number(integrity[k] ?? 0);
+      return sum + (Number.isFinite(n) && n > 0 ? n : 0);
+    }, 0);
+    const key = `${ev.courseId}::${testId}`;
+    const list = integrityByTest.get(key) ?? [];
+    list.push({ ev, total });
+    integrityByTest.set(key, list);
+  }
+
+  for (const [key, rows] of integrityByTest.entries()) {
+    // Too few attempts for "unusual compared to peers" to mean anything.
+    if (rows.length < 5) continue;
+    const sorted = rows.map((r) => r.total).sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    const threshold = Math.max(5, 3 * Math.max(1, median));
+
+    for (const { ev, total } of rows) {
+      if (total < threshold) continue;
+      const studentId = typeof ev.payload?.studentId === 'string' ? ev.payload.studentId : ev.actorUid;
+      const ratio = total / Math.max(1, median);
+      const evidence = typeof ev.eventId === 'string' && ev.eventId.length > 0 ? [ev.eventId] : [];
+
+      insights.push({
+        insightType: 'integrity.attempt_signal_outlier',
+        scope: { type: 'user', userId: studentId, courseId: ev.courseId },
+        whyGenerated: `Attempt ${String(ev.payload?.attemptId ?? '')} on test ${key.split('::')[1]} reported ${total} integrity signals (tab hidden, fullscreen exit, copy/paste) vs a median of ${median} across ${rows.length} attempts. Advisory only; no action is taken automatically.`,
+        evidenceRefs: evidence,
+        // Client-reported and easy to trigger innocently: stays low-confidence.
+        confidence: clamp01(0.25 + Math.min(0.25, (ratio - 3) * 0.03)),
+        invalidationConditions:
+          'If the student has an accommodation or a known device/connectivity issue, if the signals came from an approved reference tool, or if the instructor reviews the per-attempt integrity log and finds it benign, disregard this insight.',
+      });
+    }
+  }
+
   // Explainability rule: all insights must have evidence.
   return insights.filter((i) => Array.isArray(i.evidenceRefs) && i.evidenceRefs.length > 0);
 }
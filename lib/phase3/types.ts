@@ -14,7 +14,17 @@ export type Phase3Insight = {
 };
 
 export type DomainAggregate = {
-  kind: 'course' | 'streamPost' | 'assignment' | 'submission' | 'test' | 'attempt' | 'grade' | 'gradebook';
+  kind:
+    | 'course'
+    | 'streamPost'
+    | 'assignment'
+    | 'submission'
+    | 'test'
+    | 'attempt'
+    | 'grade'
+    | 'gradebook'
+    | 'accommodation'
+    | 'peerReview';
   id: string;
   version?: number;
 };
@@ -1,9 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Trash2, RotateCcw, Calculator, Info, Save, Target, TrendingUp, AlertTriangle } from 'lucide-react';
+import { Plus, Trash2, RotateCcw, Calculator, Info, Save, Target, TrendingUp, AlertTriangle, Download } from 'lucide-react';
 import { 
-  getGradeInfo, 
+  getSubjectGradeInfo, 
   calculateSGPA, 
   calculateCGPA, 
   calculateRequiredSGPA,
@@ -11,8 +11,11 @@ import {
   SemesterRow
 } from '../lib/calculatorUtils';
 import AdUnit from '../components/AdUnit';
+import { useAuth } from '../context/AuthContext';
+import { getMyFinalGrades } from '../services/domains/gradebook';
 
 const CalculatorPage: React.FC = () => {
+  const { user } = useAuth();
   const [subjects, setSubjects] = useState<SubjectRow[]>([
     { id: '1', name: 'Subject 1', credits: 3, internal: 0, external: 0 },
     { id: '2', name: 'Subject 2', credits: 3, internal: 0, external: 0 },
@@ -31,6 +34,7 @@ const CalculatorPage: React.FC = () => {
   const [sgpa, setSgpa] = useState(0);
   const [cgpa, setCgpa] = useState(0);
   const [activeTab, setActiveTab] = useState<'sgpa' | 'cgpa' | 'target'>('target');
+  const [importingCourses, setImportingCourses] = useState(false);
 
   useEffect(() => {
     const savedData = localStorage.getItem('campus_helper_calc_data');
@@ -144,6 +148,34 @@ const CalculatorPage: React.FC = () => {
     setActiveTab('cgpa');
   };
 
+  // Loads final grades from enrolled courses; rows are keyed by course so re-importing updates them in place.
+  const importCourseGrades = async () => {
+    setImportingCourses(true);
+    try {
+      const { finalGrades } = await getMyFinalGrades();
+      const rows: SubjectRow[] = finalGrades
+        .filter(g => g.status === 'complete' && g.external != null)
+        .map(g => ({
+          id: `course_${g.courseId}`,
+          name: g.code ? `${g.code} ${g.name}` : g.name,
+          credits: g.credits,
+          internal: g.internal,
+          external: g.external ?? 0,
+          minExternal: g.minExternal,
+        }));
+      if (rows.length === 0) {
+        window.alert('No final grades are available from your courses yet.');
+        return;
+      }
+      const imported = new Map(rows.map(r => [r.id, r]));
+      setSubjects([...subjects.filter(s => !imported.has(s.id)), ...rows]);
+    } catch (e: any) {
+      window.alert(e?.message || 'Failed to load course grades');
+    } finally {
+      setImportingCourses(false);
+    }
+  };
+
   const resetSemesters = () => {
     if (window.confirm('Clear all semesters?')) {
       setSemesters([]);
@@ -324,8 +356,7 @@ const CalculatorPage: React.FC = () => {
                   </thead>
                   <tbody className="divide-y divide-border">
                     {subjects.map((sub) => {
-                      const total = (Number(sub.internal) || 0) + (Number(sub.external) || 0);
-                      const gradeInfo = getGradeInfo(total);
+                      const gradeInfo = getSubjectGradeInfo(sub);
 
                       return (
                         <tr key={sub.id} className="hover:bg-muted/30 transition-colors">
@@ -395,6 +426,16 @@ const CalculatorPage: React.FC = () => {
                   Add Subject
                 </button>
                 <div className="flex items-center gap-4">
+                    {user && (
+                      <button
+                        onClick={importCourseGrades}
+                        disabled={importingCourses}
+                        className="flex items-center gap-2 text-sm font-medium text-secondary hover:text-secondary/80 transition-colors px-3 py-2 rounded-lg hover:bg-secondary/10 disabled:opacity-50"
+                      >
+                        <Download className="w-4 h-4" />
+                        {importingCourses ? 'Importing...' : 'Import Course Grades'}
+                      </button>
+                    )}
                     <button 
                         onClick={resetSubjects}
                         className="text-sm text-muted-foreground hover:text-destructive px-3 py-2"
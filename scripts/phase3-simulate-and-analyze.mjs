@@ -357,6 +357,8 @@ function buildHumanReport(insights, events) {
       lines.push('- Instructor/staff audit: inspect recent grade mutations for the student; run targeted recompute and reconcile.');
     } else if (i.insightType === 'risk.test_attempt_dropoff') {
       lines.push('- Check whether students are starting but failing to submit (timeouts, confusion); review attempt expiry/window UX and server logs.');
+    } else if (i.insightType === 'integrity.attempt_signal_outlier') {
+      lines.push('- Instructor review only: open the per-attempt integrity log (tests/integritySummary); do not act on the count alone.');
     } else {
       lines.push('- Review evidenceRefs and confirm whether intervention is needed.');
     }
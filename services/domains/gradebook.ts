@@ -0,0 +1,23 @@
+import { authedJsonPost } from '../platform/apiClient';
+
+export type MyFinalGrade = {
+  courseId: string;
+  name: string;
+  code: string;
+  term: string;
+  credits: number;
+  internal: number;
+  external: number | null;
+  minExternal: number;
+  total: number | null;
+  letter: string | null;
+  gradePoints: number | null;
+  status: 'complete' | 'awaiting_external';
+};
+
+export const getMyFinalGrades = async (input?: {
+  term?: string;
+  limit?: number;
+}): Promise<{ finalGrades: MyFinalGrade[] }> => {
+  return await authedJsonPost<{ finalGrades: MyFinalGrade[] }>('/api/gradebook/myFinalGrades', input || {}, { timeoutMs: 15000 });
+};
@@ -3,5 +3,6 @@ export * as usersService from './users';
 export * as moderationService from './moderation';
 export * as coursesService from './courses';
 export * as enrollmentsService from './enrollments';
+export * as gradebookService from './gradebook';
 export * as calendarService from './calendar';
 export * as presenceService from './presence';